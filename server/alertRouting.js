@@ -0,0 +1,166 @@
+import { postWebhook, truncate } from "./chatWebhooks.js";
+
+// Where alerts go unless a channel says otherwise, e.g. a mock receiver
+// in tests or Opsgenie's EU region
+export const DEFAULT_PAGERDUTY_EVENTS_URL =
+  "https://events.pagerduty.com/v2/enqueue";
+export const DEFAULT_OPSGENIE_API_URL = "https://api.opsgenie.com";
+
+const ALERT_SOURCE = "Website Status Checker";
+
+// Both services take the dedup key as an alias; it and the summary have
+// length limits
+const MAX_DEDUP_KEY_LENGTH = 255;
+const MAX_PAGERDUTY_SUMMARY_LENGTH = 1024;
+const MAX_OPSGENIE_MESSAGE_LENGTH = 130;
+const MAX_OPSGENIE_DESCRIPTION_LENGTH = 15000;
+
+// What each event does to a monitor's alert
+const ALERT_ACTIONS = {
+  down: "trigger",
+  degraded: "trigger",
+  acknowledged: "acknowledge",
+  recovered: "resolve",
+};
+
+const PAGERDUTY_SEVERITIES = { down: "critical", degraded: "warning" };
+const OPSGENIE_PRIORITIES = { down: "P1", degraded: "P3" };
+
+/**
+ * The key that ties a monitor's notifications to one alert. It's the same
+ * for every incident of the monitor, so failures while an alert is open
+ * update it rather than paging again.
+ */
+export const getDedupKey = (monitorId) =>
+  truncate(`website-status-checker/${monitorId}`, MAX_DEDUP_KEY_LENGTH);
+
+// Helper function to turn a notification's fields into alert details
+const toDetails = (notification) =>
+  Object.fromEntries(
+    notification.fields.map(({ label, value }) => [label, value]),
+  );
+
+/**
+ * Builds a PagerDuty Events API v2 event. Only a trigger carries a
+ * payload; acknowledge and resolve just name the alert by its dedup key.
+ */
+export const toPagerDutyEvent = (
+  routingKey,
+  notification,
+  action = ALERT_ACTIONS[notification.event],
+) => {
+  const { variables } = notification;
+  const event = {
+    routing_key: routingKey,
+    event_action: action,
+    dedup_key: getDedupKey(variables.monitorId),
+  };
+  if (action !== "trigger") return event;
+
+  return {
+    ...event,
+    payload: {
+      summary: truncate(notification.title, MAX_PAGERDUTY_SUMMARY_LENGTH),
+      source: variables.url,
+      severity: PAGERDUTY_SEVERITIES[notification.event] || "info",
+      timestamp: notification.timestamp,
+      component: variables.monitorName,
+      class: variables.failedStage || notification.event,
+      custom_details: toDetails(notification),
+    },
+    client: ALERT_SOURCE,
+    client_url: notification.link,
+    links: [{ href: notification.link, text: "View results" }],
+  };
+};
+
+/**
+ * Sends a notification to PagerDuty. A test triggers an info alert and
+ * resolves it straight away, so nobody stays paged.
+ */
+export const sendPagerDutyEvent = async (config, notification) => {
+  const send = (action) =>
+    postWebhook(
+      config.eventsUrl,
+      toPagerDutyEvent(config.routingKey, notification, action),
+    );
+
+  if (notification.event === "test") {
+    await send("trigger");
+    await send("resolve");
+  } else {
+    await send();
+  }
+};
+
+/**
+ * Builds the Opsgenie Alert API request for a notification: the path to
+ * post to under the API URL and its body. Alerts are named by alias, so
+ * acknowledge and close find the one a trigger opened.
+ */
+export const toOpsgenieRequest = (
+  notification,
+  action = ALERT_ACTIONS[notification.event],
+) => {
+  const { variables } = notification;
+  const alias = getDedupKey(variables.monitorId);
+  const byAlias = `/v2/alerts/${encodeURIComponent(alias)}`;
+
+  if (action === "acknowledge") {
+    return {
+      path: `${byAlias}/acknowledge?identifierType=alias`,
+      body: {
+        source: ALERT_SOURCE,
+        user: variables.acknowledgedBy || undefined,
+        note: notification.title,
+      },
+    };
+  }
+  if (action === "resolve") {
+    return {
+      path: `${byAlias}/close?identifierType=alias`,
+      body: { source: ALERT_SOURCE, note: notification.title },
+    };
+  }
+  return {
+    path: "/v2/alerts",
+    body: {
+      message: truncate(notification.title, MAX_OPSGENIE_MESSAGE_LENGTH),
+      alias,
+      description: truncate(
+        [
+          ...notification.fields.map(
+            ({ label, value }) => `${label}: ${value}`,
+          ),
+          `View results: ${notification.link}`,
+        ].join("\n"),
+        MAX_OPSGENIE_DESCRIPTION_LENGTH,
+      ),
+      details: toDetails(notification),
+      entity: variables.monitorName,
+      source: ALERT_SOURCE,
+      priority: OPSGENIE_PRIORITIES[notification.event] || "P5",
+      tags: ["website-status-checker", notification.event],
+    },
+  };
+};
+
+/**
+ * Sends a notification to Opsgenie, or a service with the same Alert API.
+ * A test creates a low priority alert and closes it straight away.
+ */
+export const sendOpsgenieAlert = async (config, notification) => {
+  const send = async (action) => {
+    const { path, body } = toOpsgenieRequest(notification, action);
+    await postWebhook(`${config.apiUrl}${path}`, body, {
+      Authorization: `GenieKey ${config.apiKey}`,
+    });
+  };
+
+  if (notification.event === "test") {
+    await send("trigger");
+    await send("resolve");
+  } else {
+    await send();
+  }
+};
@@ -0,0 +1,249 @@
+import http from "http";
+import { isDeepStrictEqual } from "util";
+
+// Any 2xx or 3xx response counts as UP unless the check says otherwise
+export const DEFAULT_ACCEPTED_STATUS = ["2xx", "3xx"];
+
+/**
+ * Parses one accepted-status rule: a class ("2xx"), a range ("200-299")
+ * or a single code ("204"). Returns null for anything else.
+ */
+export const parseStatusRange = (rule) => {
+  const text = String(rule).trim().toLowerCase();
+  let match;
+
+  if ((match = /^([1-5])xx$/.exec(text))) {
+    const min = Number(match[1]) * 100;
+    return { min, max: min + 99 };
+  }
+  if ((match = /^(\d{3})\s*-\s*(\d{3})$/.exec(text))) {
+    const min = Number(match[1]);
+    const max = Number(match[2]);
+    return min <= max ? { min, max } : null;
+  }
+  if (/^\d{3}$/.test(text)) {
+    return { min: Number(text), max: Number(text) };
+  }
+  return null;
+};
+
+// Returns why the accepted-status rules are malformed, if they are
+export const findInvalidStatusRule = (rules) => {
+  if (!Array.isArray(rules)) {
+    return "Accepted status must be a list of rules";
+  }
+  const invalid = rules.find((rule) => parseStatusRange(rule) === null);
+  return invalid !== undefined
+    ? `Invalid accepted status rule: ${invalid}`
+    : null;
+};
+
+/**
+ * Checks a status code against the accepted rules and returns an error
+ * message when it doesn't match any of them.
+ */
+export const assertStatus = (statusCode, statusMessage, rules) => {
+  const accepted = rules
+    .map(parseStatusRange)
+    .some((range) => statusCode >= range.min && statusCode <= range.max);
+  if (accepted) return null;
+
+  const reason = statusMessage || http.STATUS_CODES[statusCode] || "";
+  return `Unexpected status ${statusCode}${reason ? ` ${reason}` : ""} (expected ${rules.join(", ")})`;
+};
+
+// Characters of context shown either side of a body match
+const EXCERPT_CONTEXT = 40;
+
+const BODY_ASSERTION_TYPES = ["contains", "notContains", "regex", "jsonPath"];
+
+// Returns the text around a match, with whitespace collapsed
+const excerptAround = (text, index, length) => {
+  const start = Math.max(index - EXCERPT_CONTEXT, 0);
+  const end = Math.min(index + length + EXCERPT_CONTEXT, text.length);
+  const excerpt = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${excerpt}${end < text.length ? "…" : ""}`;
+};
+
+/**
+ * Splits a JSON path such as `$.data.items[0]['display-name']` into
+ * property names and array indexes. Returns null if it doesn't parse.
+ */
+export const parseJsonPath = (path) => {
+  if (typeof path !== "string" || !path.startsWith("$")) return null;
+
+  const tokens = [];
+  const segment = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[(['"])(.*?)\3\]/y;
+  segment.lastIndex = 1;
+
+  while (segment.lastIndex < path.length) {
+    const match = segment.exec(path);
+    if (!match) return null;
+    if (match[1] !== undefined) tokens.push(match[1]);
+    else if (match[2] !== undefined) tokens.push(Number(match[2]));
+    else tokens.push(match[4]);
+  }
+
+  return tokens;
+};
+
+const resolveJsonPath = (value, tokens) => {
+  let current = value;
+  for (const token of tokens) {
+    if (
+      current === null ||
+      typeof current !== "object" ||
+      !Object.prototype.hasOwnProperty.call(current, token)
+    ) {
+      return { found: false };
+    }
+    current = current[token];
+  }
+  return { found: true, value: current };
+};
+
+// Returns why a body assertion is malformed, if it is
+export const findInvalidBodyAssertion = (assertions) => {
+  if (!Array.isArray(assertions)) {
+    return "Body assertions must be a list";
+  }
+  for (const assertion of assertions) {
+    if (!BODY_ASSERTION_TYPES.includes(assertion?.type)) {
+      return `Unknown body assertion type: ${assertion?.type}`;
+    }
+    if (assertion.type === "jsonPath") {
+      if (!parseJsonPath(assertion.path)) {
+        return `Invalid JSON path: ${assertion.path}`;
+      }
+      continue;
+    }
+    if (typeof assertion.value !== "string" || assertion.value === "") {
+      return `Body assertion "${assertion.type}" needs a value`;
+    }
+    if (assertion.type === "regex") {
+      try {
+        new RegExp(assertion.value, assertion.flags);
+      } catch (e) {
+        return e.message;
+      }
+    }
+  }
+  return null;
+};
+
+const checkBodyAssertion = (assertion, text, getJson) => {
+  switch (assertion.type) {
+    case "contains": {
+      if (text.includes(assertion.value)) return null;
+      return `Body does not contain "${assertion.value}"`;
+    }
+    case "notContains": {
+      const index = text.indexOf(assertion.value);
+      if (index === -1) return null;
+      return `Body contains "${assertion.value}": ${excerptAround(text, index, assertion.value.length)}`;
+    }
+    case "regex": {
+      const pattern = new RegExp(assertion.value, assertion.flags);
+      if (pattern.test(text)) return null;
+      return `Body does not match /${assertion.value}/${assertion.flags || ""}`;
+    }
+    case "jsonPath": {
+      const json = getJson();
+      if (json.error) return `Response is not valid JSON: ${json.error}`;
+
+      const result = resolveJsonPath(json.value, parseJsonPath(assertion.path));
+      if (!result.found) return `${assertion.path} does not exist`;
+      if (
+        assertion.operator !== "equals" ||
+        isDeepStrictEqual(result.value, assertion.value)
+      ) {
+        return null;
+      }
+      return `${assertion.path} is ${JSON.stringify(result.value)}, expected ${JSON.stringify(assertion.value)}`;
+    }
+    default:
+      return `Unknown body assertion type: ${assertion.type}`;
+  }
+};
+
+/**
+ * Runs the body assertions against the response body and returns a
+ * message for each one that fails, with the matched or missing excerpt.
+ */
+export const assertBody = (body, assertions) => {
+  const text = body.toString("utf8");
+  let json;
+  const getJson = () => {
+    if (!json) {
+      try {
+        json = { value: JSON.parse(text) };
+      } catch (e) {
+        json = { error: e.message };
+      }
+    }
+    return json;
+  };
+
+  return assertions
+    .map((assertion) => checkBodyAssertion(assertion, text, getJson))
+    .filter(Boolean);
+};
+
+// Longest latency budget a check may set
+const MAX_LATENCY_BUDGET_MS = 120000;
+
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Returns why the soft assertions are malformed, if they are. Soft
+ * assertions never fail a check; breaking one marks it DEGRADED.
+ */
+export const findInvalidSoftAssertions = (assertions) => {
+  if (assertions === undefined) return null;
+  if (
+    assertions === null ||
+    typeof assertions !== "object" ||
+    Array.isArray(assertions)
+  ) {
+    return "Assertions must be an object";
+  }
+
+  const { maxResponseTimeMs, requiredHeaders } = assertions;
+  if (
+    maxResponseTimeMs !== undefined &&
+    (!Number.isInteger(maxResponseTimeMs) ||
+      maxResponseTimeMs < 1 ||
+      maxResponseTimeMs > MAX_LATENCY_BUDGET_MS)
+  ) {
+    return `Latency budget must be between 1 and ${MAX_LATENCY_BUDGET_MS}ms`;
+  }
+  if (requiredHeaders !== undefined) {
+    if (!Array.isArray(requiredHeaders)) {
+      return "Required headers must be a list of header names";
+    }
+    const invalid = requiredHeaders.find(
+      (name) => typeof name !== "string" || !HEADER_NAME.test(name),
+    );
+    if (invalid !== undefined) return `Invalid header name: ${invalid}`;
+  }
+  return null;
+};
+
+/**
+ * Checks a finished response against the soft assertions and returns a
+ * message for each one it breaks.
+ */
+export const assertSoft = (
+  { totalResponseTime, headers },
+  { maxResponseTimeMs, requiredHeaders = [] },
+) => {
+  const messages = requiredHeaders
+    .filter((name) => headers[name.toLowerCase()] === undefined)
+    .map((name) => `Missing header ${name}`);
+  if (maxResponseTimeMs && totalResponseTime > maxResponseTimeMs) {
+    messages.unshift(
+      `Response took ${totalResponseTime}ms, over the ${maxResponseTimeMs}ms budget`,
+    );
+  }
+  return messages;
+};
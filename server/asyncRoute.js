@@ -0,0 +1,7 @@
+/**
+ * Wraps an async route handler so a rejection reaches Express's error
+ * handling. Express 4 ignores the promise a handler returns, so without
+ * this an unexpected throw would become an unhandled rejection.
+ */
+export const asyncRoute = (handler) => (req, res, next) =>
+  Promise.resolve(handler(req, res, next)).catch(next);
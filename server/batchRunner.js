@@ -0,0 +1,68 @@
+import { runCheck } from "./checkEngine.js";
+import { pickCheckOptions } from "./checkOptions.js";
+
+// Concurrency used when a batch doesn't ask for one, and the most allowed
+export const DEFAULT_BATCH_CONCURRENCY = 5;
+export const MAX_BATCH_CONCURRENCY =
+  Number(process.env.MAX_BATCH_CONCURRENCY) || 20;
+
+// Most URLs accepted in one batch
+export const MAX_BATCH_SIZE = 500;
+
+// Gives every item an id, using its position when it doesn't bring one.
+// A bare string is a URL checked with the default options.
+export const assignBatchIds = (items) =>
+  items.map((item, index) => {
+    const check = typeof item === "string" ? { url: item } : { ...item };
+    return {
+      ...check,
+      id: check.id !== undefined ? String(check.id) : String(index + 1),
+    };
+  });
+
+/**
+ * Runs the batch's checks with at most `concurrency` in flight at once.
+ * Items start in order; onStart(item) and onResult(item, results) are
+ * called as each one starts and finishes, so results arrive in completion
+ * order. Resolves with counts of each outcome once every item has
+ * finished; degraded checks aren't counted as passed.
+ */
+export async function runBatch(
+  items,
+  { concurrency = DEFAULT_BATCH_CONCURRENCY, locationInfo, signal } = {},
+  { onStart = () => {}, onResult = () => {} } = {},
+) {
+  const summary = {
+    total: items.length,
+    passed: 0,
+    degraded: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+  let next = 0;
+
+  // Each worker keeps taking the next unstarted item until none are left
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const item = items[next];
+      next += 1;
+
+      onStart(item);
+      const results = await runCheck(item.url, pickCheckOptions(item), {
+        locationInfo,
+        signal,
+      });
+
+      if (results.isCancelled) summary.cancelled += 1;
+      else if (results.isDegraded) summary.degraded += 1;
+      else if (results.isSuccess) summary.passed += 1;
+      else summary.failed += 1;
+      onResult(item, results);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker),
+  );
+  return summary;
+}
@@ -0,0 +1,179 @@
+// How long to wait for a chat service to accept a message
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Colour of each kind of message, as hex for Slack and a number for Discord
+const EVENT_COLORS = {
+  down: "#dc2626",
+  degraded: "#ea580c",
+  acknowledged: "#ca8a04",
+  recovered: "#16a34a",
+  test: "#2563eb",
+};
+
+// Adaptive Cards only have named colours and container styles
+const TEAMS_STYLES = {
+  down: { color: "Attention", style: "attention" },
+  degraded: { color: "Warning", style: "warning" },
+  acknowledged: { color: "Accent", style: "emphasis" },
+  recovered: { color: "Good", style: "good" },
+  test: { color: "Accent", style: "accent" },
+};
+
+// Helper function to cut text down to a service's limit for a field
+export const truncate = (text, max) =>
+  text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+// Slack's mrkdwn treats these three characters as markup
+const escapeSlack = (text) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Lays a notification out as a Slack incoming webhook message: Block Kit
+ * blocks in an attachment, which is what gives them a coloured bar
+ */
+export const toSlackMessage = (notification) => ({
+  text: notification.title,
+  attachments: [
+    {
+      color: EVENT_COLORS[notification.event],
+      blocks: [
+        {
+          type: "section",
+          text: {
+            type: "mrkdwn",
+            text: `*${escapeSlack(truncate(notification.title, 2900))}*`,
+          },
+        },
+        // A section holds at most 10 fields
+        ...(notification.fields.length > 0
+          ? [
+              {
+                type: "section",
+                fields: notification.fields
+                  .slice(0, 10)
+                  .map(({ label, value }) => ({
+                    type: "mrkdwn",
+                    text: truncate(
+                      `*${escapeSlack(label)}*\n${escapeSlack(value)}`,
+                      2000,
+                    ),
+                  })),
+              },
+            ]
+          : []),
+        {
+          type: "actions",
+          elements: [
+            {
+              type: "button",
+              text: { type: "plain_text", text: "View results" },
+              url: notification.link,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
+
+/**
+ * Lays a notification out as a Discord webhook message with one embed
+ */
+export const toDiscordMessage = (notification) => ({
+  embeds: [
+    {
+      title: truncate(notification.title, 256),
+      url: notification.link,
+      color: parseInt(EVENT_COLORS[notification.event].slice(1), 16),
+      fields: notification.fields.slice(0, 25).map(({ label, value }) => ({
+        name: truncate(label, 256),
+        value: truncate(value, 1024),
+        inline: value.length <= 40,
+      })),
+      timestamp: notification.timestamp,
+    },
+  ],
+});
+
+/**
+ * Lays a notification out as an Adaptive Card, which Teams workflow and
+ * incoming webhooks both accept
+ */
+export const toTeamsMessage = (notification) => {
+  const { color, style } = TEAMS_STYLES[notification.event];
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          msteams: { width: "Full" },
+          body: [
+            {
+              type: "Container",
+              style,
+              bleed: true,
+              items: [
+                {
+                  type: "TextBlock",
+                  text: notification.title,
+                  weight: "Bolder",
+                  size: "Medium",
+                  color,
+                  wrap: true,
+                },
+              ],
+            },
+            {
+              type: "FactSet",
+              facts: notification.fields.map(({ label, value }) => ({
+                title: label,
+                value,
+              })),
+            },
+          ],
+          actions: [
+            {
+              type: "Action.OpenUrl",
+              title: "View results",
+              url: notification.link,
+            },
+          ],
+        },
+      },
+    ],
+  };
+};
+
+/**
+ * Posts a message to a chat webhook, or any service that takes JSON, with
+ * extra headers such as its API key. Rejects with the service's status and
+ * reply when it doesn't accept it.
+ */
+export const postWebhook = async (url, message, headers = {}) => {
+  let response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new Error(
+      error.name === "TimeoutError"
+        ? "Webhook didn't respond in time"
+        : `Webhook request failed: ${error.cause?.message || error.message}`,
+    );
+  }
+
+  if (!response.ok) {
+    const reply = (await response.text().catch(() => "")).trim();
+    throw new Error(
+      `Webhook returned ${response.status}${reply ? `: ${truncate(reply, 200)}` : ""}`,
+    );
+  }
+};
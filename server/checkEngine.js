@@ -0,0 +1,801 @@
+import https from "https";
+import http from "http";
+import { URL } from "url";
+import { inspectDns } from "./dnsInspection.js";
+import { inspectTlsSocket } from "./tlsInspection.js";
+import {
+  DEFAULT_ACCEPTED_STATUS,
+  assertBody,
+  assertSoft,
+  assertStatus,
+} from "./assertions.js";
+import { auditSecurityHeaders } from "./securityHeaders.js";
+import {
+  buildRequestHeaders,
+  normalizeRequestConfig,
+  requestForRedirect,
+} from "./requestConfig.js";
+import {
+  getBackoffDelay,
+  normalizeRetryPolicy,
+  normalizeTimeouts,
+} from "./retryPolicy.js";
+import {
+  TARGET_BLOCKED,
+  createBlockedError,
+  getBlockReason,
+  policyLookup,
+} from "./targetPolicy.js";
+
+// Warn when the certificate expires within this many days, unless the
+// check request asks for a different threshold
+const CERT_EXPIRY_WARNING_DAYS =
+  Number(process.env.CERT_EXPIRY_WARNING_DAYS) || 30;
+
+// Redirects are followed by default, up to this many hops
+const DEFAULT_REDIRECT_POLICY = {
+  follow: true,
+  maxHops: 10,
+  sameOriginOnly: false,
+};
+
+// Most hops a check may ask to follow
+const MAX_REDIRECT_HOPS = 20;
+
+const REDIRECT_STATUS_CODES = new Set([301, 302, 303, 307, 308]);
+
+// Returns why the redirect policy can't be used, if it can't
+export const findInvalidRedirectPolicy = (redirectPolicy) => {
+  if (redirectPolicy === undefined) return null;
+  if (
+    redirectPolicy === null ||
+    typeof redirectPolicy !== "object" ||
+    Array.isArray(redirectPolicy)
+  ) {
+    return "Redirect policy must be an object";
+  }
+
+  const { follow, maxHops, sameOriginOnly } = redirectPolicy;
+  if (follow !== undefined && typeof follow !== "boolean") {
+    return "Redirect follow must be true or false";
+  }
+  if (
+    maxHops !== undefined &&
+    (!Number.isInteger(maxHops) || maxHops < 0 || maxHops > MAX_REDIRECT_HOPS)
+  ) {
+    return `Redirect hops must be between 0 and ${MAX_REDIRECT_HOPS}`;
+  }
+  if (sameOriginOnly !== undefined && typeof sameOriginOnly !== "boolean") {
+    return "Redirect same-origin setting must be true or false";
+  }
+  return null;
+};
+
+// Response headers recorded for every hop in the redirect chain
+const HOP_HEADERS = [
+  "location",
+  "server",
+  "cache-control",
+  "strict-transport-security",
+  "via",
+];
+
+// Socket/response events that end each check stage, in order
+const STAGE_EVENTS = [
+  { stageId: "dns", event: "lookup" },
+  { stageId: "connection", event: "connect" },
+  { stageId: "tls", event: "secureConnect" },
+  { stageId: "firstByte", event: "response" },
+  { stageId: "download", event: "end" },
+];
+
+// Helper function to ensure URL has protocol
+export const ensureProtocol = (url) => {
+  if (!url) return "";
+  if (!/^https?:\/\//i.test(url)) {
+    return `https://${url}`;
+  }
+  return url;
+};
+
+// Helper function to extract domain from URL
+export const extractDomain = (url) => {
+  try {
+    const urlObj = new URL(ensureProtocol(url));
+    // IPv6 literals come back wrapped in brackets
+    return urlObj.hostname.replace(/^\[(.*)\]$/, "$1");
+  } catch (e) {
+    return url;
+  }
+};
+
+// Helper function to format the time a stage finished
+const formatTimestamp = () =>
+  new Date().toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const createPhaseStages = () => [
+  { id: "dns", name: "DNS Resolution", status: "idle" },
+  { id: "connection", name: "Connection Establishment", status: "idle" },
+  { id: "tls", name: "TLS Handshake", status: "idle" },
+  { id: "firstByte", name: "First Byte Received", status: "idle" },
+  { id: "download", name: "Complete Download", status: "idle" },
+];
+
+// Stages evaluated once the final response has been downloaded
+const createAssertionStages = () => [
+  { id: "httpStatus", name: "HTTP Status", status: "idle" },
+  { id: "securityHeaders", name: "Security Headers", status: "idle" },
+];
+
+/**
+ * Performs one HTTP(S) request on a fresh socket and records when each
+ * phase finished, using the socket's lookup/connect/secureConnect events
+ * and the response's headers and end. `request` is a normalized request
+ * config (method, headers, body, auth, user agent) and `timeouts` holds
+ * the milliseconds each stage may take, keyed by stage id. Aborting
+ * `signal` destroys the socket.
+ *
+ * Every address the request would connect to goes through the target
+ * policy first; blocked ones reject with a code of TARGET_BLOCKED.
+ *
+ * onPhase(event, timings, socket) is called once per event, always in
+ * STAGE_EVENTS order (secureConnect is skipped for plain HTTP). Timings are
+ * performance.now() values keyed by event name, plus `start`.
+ *
+ * Rejects with an error carrying `timings` and a `code` of ETIMEDOUT when
+ * a phase timeout fires.
+ */
+function timedRequest(
+  url,
+  {
+    onPhase = () => {},
+    request = normalizeRequestConfig(),
+    timeouts = normalizeTimeouts(),
+    signal,
+  } = {},
+) {
+  const isHttps = url.startsWith("https");
+  const protocol = isHttps ? https : http;
+  const timings = { start: performance.now() };
+
+  // IP literals never reach the lookup, so check them up front
+  const literalBlockReason = getBlockReason(extractDomain(url));
+  if (literalBlockReason) {
+    return Promise.reject(
+      Object.assign(createBlockedError(literalBlockReason), { timings }),
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    let phaseTimer = null;
+
+    // Starts the clock on the stage that begins now
+    const armTimeout = (stageId, message) => {
+      const ms = timeouts[stageId];
+      clearTimeout(phaseTimer);
+      phaseTimer = setTimeout(() => {
+        const error = new Error(`${message} after ${ms / 1000} seconds`);
+        error.code = "ETIMEDOUT";
+        req.destroy(error);
+      }, ms);
+    };
+
+    const record = (event, socket) => {
+      if (timings[event] !== undefined) return;
+      timings[event] = performance.now();
+      onPhase(event, timings, socket);
+    };
+
+    // agent: false so every check opens its own socket and every
+    // phase event fires, rather than reusing a kept-alive connection
+    const req = protocol.request(url, {
+      method: request.method,
+      headers: buildRequestHeaders(request),
+      agent: false,
+      lookup: policyLookup,
+      signal,
+    });
+
+    armTimeout("dns", "DNS resolution timed out");
+
+    req.on("socket", (socket) => {
+      socket.once("lookup", (err) => {
+        if (err) return;
+        record("lookup");
+        armTimeout("connection", "Connection timed out");
+      });
+
+      socket.once("connect", () => {
+        // IP literals skip the lookup, so DNS takes no time
+        if (timings.lookup === undefined) {
+          timings.lookup = timings.start;
+          onPhase("lookup", timings, socket);
+        }
+        record("connect", socket);
+        if (isHttps) {
+          armTimeout("tls", "TLS handshake timed out");
+        } else {
+          armTimeout("firstByte", "No response");
+        }
+      });
+
+      if (isHttps) {
+        socket.once("secureConnect", () => {
+          record("secureConnect", socket);
+          armTimeout("firstByte", "No response");
+        });
+      }
+    });
+
+    req.on("response", (response) => {
+      record("response");
+      armTimeout("download", "Download timed out");
+
+      const chunks = [];
+      response.on("data", (chunk) => chunks.push(chunk));
+      response.on("end", () => {
+        clearTimeout(phaseTimer);
+        record("end");
+        resolve({
+          timings,
+          statusCode: response.statusCode,
+          statusMessage: response.statusMessage,
+          headers: response.headers,
+          body: Buffer.concat(chunks),
+        });
+      });
+      response.on("error", (error) => req.destroy(error));
+    });
+
+    req.on("error", (error) => {
+      clearTimeout(phaseTimer);
+      error.timings = timings;
+      reject(error);
+    });
+
+    req.end(request.body);
+  });
+}
+
+// Builds the message shown for a failure in the given stage
+const describeStageError = (stageId, error) => {
+  const message = error.message ? error.message.split("\n")[0] : "";
+  const timedOut = error.code === "ECONNABORTED" || error.code === "ETIMEDOUT";
+
+  switch (stageId) {
+    case "dns":
+      return {
+        details: message || "Failed to resolve DNS",
+        summary:
+          "DNS resolution failed: " + (message || "Failed to resolve DNS"),
+      };
+    case "connection": {
+      let errorMsg = "Connection failed - network may be down";
+      if (timedOut) {
+        errorMsg = message || "Connection timed out";
+      } else if (message) {
+        errorMsg = `Connection failed: ${message}`;
+      }
+      return { details: errorMsg, summary: errorMsg };
+    }
+    case "tls": {
+      const errorMsg =
+        timedOut || !message
+          ? message || "TLS handshake failed"
+          : `TLS handshake failed: ${message}`;
+      return { details: errorMsg, summary: errorMsg };
+    }
+    default: {
+      let errorMsg = "Request failed";
+      if (timedOut) {
+        errorMsg = message || "Request timed out";
+      } else if (message) {
+        errorMsg = message;
+      }
+      return { details: errorMsg, summary: errorMsg };
+    }
+  }
+};
+
+// Helper function to wait out a retry backoff, cut short by an abort
+const sleep = (ms, signal) =>
+  new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+
+// Picks the headers we show for a hop in the redirect chain
+const pickHopHeaders = (headers) =>
+  Object.fromEntries(
+    HOP_HEADERS.filter((name) => headers[name] !== undefined).map((name) => [
+      name,
+      headers[name],
+    ]),
+  );
+
+// Returns why following this redirect breaks the policy, if it does
+const checkRedirect = (fromUrl, toUrl, isRevisit, followedHops, policy) => {
+  const from = new URL(fromUrl);
+  const to = new URL(toUrl);
+
+  if (to.protocol !== "http:" && to.protocol !== "https:") {
+    return `Redirect to unsupported protocol: ${toUrl}`;
+  }
+  if (isRevisit) {
+    return `Redirect loop detected at ${toUrl}`;
+  }
+  if (from.protocol === "https:" && to.protocol === "http:") {
+    return `Redirect downgrades from HTTPS to HTTP: ${toUrl}`;
+  }
+  if (policy.sameOriginOnly && from.origin !== to.origin) {
+    return `Redirect to a different origin is not allowed: ${toUrl}`;
+  }
+  if (followedHops >= policy.maxHops) {
+    return `Too many redirects (more than ${policy.maxHops})`;
+  }
+  return null;
+};
+
+/**
+ * Runs a full check against the URL and resolves with its results.
+ *
+ * One request is made per hop. The five phase stages always describe the
+ * hop currently in flight; time spent on earlier hops is reported on a
+ * "Redirects" stage, so stage durations still add up to
+ * totalResponseTime. onUpdate(results) is called on every change.
+ *
+ * A hop that fails in a stage the retry policy covers is sent again after
+ * the backoff delay. Each stage keeps an `attempts` list of how every
+ * attempt went; durations and totalResponseTime describe the last attempt
+ * only, since backoff waits say nothing about the site.
+ *
+ * A check that passes but needed retries, broke its latency budget or
+ * failed a soft assertion is DEGRADED: isDegraded is set and
+ * degradedReasons says why.
+ *
+ * Record inspection is cut off after the DNS stage timeout. Aborting
+ * `signal` stops the request and DNS inspection; the check then
+ * resolves with isCancelled set and the stage it reached marked.
+ */
+export async function runCheck(
+  url,
+  {
+    certExpiryWarningDays = CERT_EXPIRY_WARNING_DAYS,
+    redirectPolicy = {},
+    assertions = {},
+    request = {},
+    timeouts = {},
+    retry = {},
+  } = {},
+  { onUpdate = () => {}, locationInfo = {}, signal } = {},
+) {
+  const policy = { ...DEFAULT_REDIRECT_POLICY, ...redirectPolicy };
+  const stageTimeouts = normalizeTimeouts(timeouts);
+  const retryPolicy = normalizeRetryPolicy(retry);
+  const acceptedStatus = assertions.acceptedStatus?.length
+    ? assertions.acceptedStatus
+    : DEFAULT_ACCEPTED_STATUS;
+  const processedUrl = ensureProtocol(url);
+  const domain = extractDomain(processedUrl);
+  const results = {
+    stages: [...createPhaseStages(), ...createAssertionStages()],
+    redirectChain: [],
+    statusCode: undefined,
+    statusMessage: undefined,
+    isComplete: false,
+    isSuccess: false,
+    isDegraded: false,
+    degradedReasons: [],
+    totalResponseTime: 0,
+    errorMessage: "",
+    warnings: [],
+    isCancelled: false,
+    maxAttempts: retryPolicy.attempts,
+    checkLocation: locationInfo.location,
+    checkIP: locationInfo.ip,
+  };
+
+  const getStage = (id) => results.stages.find((s) => s.id === id);
+  const addWarning = (warning) => {
+    if (!results.warnings.includes(warning)) results.warnings.push(warning);
+  };
+
+  // Offsets are rounded before subtracting so stage durations always
+  // add up to totalResponseTime
+  let redirectTime = 0;
+  let lastOffset = 0;
+  const offsetOf = (timings, event) =>
+    Math.round(timings[event] - timings.start);
+
+  // Attempt number of the hop in flight
+  let attempt = 1;
+  // Hops that only responded after a retry, which degrades a passing check
+  const retriedHops = [];
+
+  const recordAttempt = (stage, status, errorDetails) => {
+    stage.attempts = [
+      ...(stage.attempts || []),
+      {
+        attempt,
+        status,
+        durationMs: stage.durationMs || 0,
+        ...(errorDetails && { errorDetails }),
+      },
+    ];
+  };
+
+  const completeStage = (stage, offset) => {
+    stage.status = "success";
+    stage.timestamp = formatTimestamp();
+    stage.durationMs = offset - lastOffset;
+    lastOffset = offset;
+    recordAttempt(stage, "success");
+  };
+
+  // Marks the stage in flight as failed and returns it with the
+  // check-level message, or null if no stage was in flight
+  const failStage = (error) => {
+    const failedStage = results.stages.find(
+      (s) => s.status === "loading" && s.id !== "redirects",
+    );
+    if (!failedStage) return null;
+
+    const { details, summary } = describeStageError(failedStage.id, error);
+    const errorOffset = error.timings
+      ? Math.round(performance.now() - error.timings.start)
+      : lastOffset;
+
+    failedStage.status = "error";
+    failedStage.timestamp = formatTimestamp();
+    failedStage.durationMs = Math.max(errorOffset - lastOffset, 0);
+    failedStage.errorDetails = details;
+    lastOffset += failedStage.durationMs;
+    recordAttempt(failedStage, "error", details);
+    return { failedStage, summary };
+  };
+
+  // Where the response redirects to, if the policy follows it
+  const getRedirectLocation = (response) =>
+    policy.follow && REDIRECT_STATUS_CODES.has(response.statusCode)
+      ? response.headers.location
+      : undefined;
+
+  // Marks the next idle stage as loading, skipping TLS for plain HTTP
+  const startNextStage = (index, isHttps) => {
+    let next = index + 1;
+    if (!isHttps && STAGE_EVENTS[next]?.stageId === "tls") {
+      const tlsStage = getStage("tls");
+      tlsStage.status = "success";
+      tlsStage.timestamp = formatTimestamp();
+      tlsStage.durationMs = 0;
+      tlsStage.errorDetails = "Skipped (HTTP)";
+      next += 1;
+    }
+    if (STAGE_EVENTS[next]) {
+      getStage(STAGE_EVENTS[next].stageId).status = "loading";
+    }
+  };
+
+  // Starts a fresh set of phase stages for the next hop or attempt,
+  // keeping the DNS records inspected for the original domain
+  const resetPhaseStages = ({ keepAttempts = false } = {}) => {
+    const { records } = getStage("dns");
+    results.stages = results.stages.map((stage) => {
+      const fresh = createPhaseStages().find((s) => s.id === stage.id);
+      if (!fresh) return stage;
+      return {
+        ...fresh,
+        ...(stage.id === "dns" && { records }),
+        ...(keepAttempts && stage.attempts && { attempts: stage.attempts }),
+      };
+    });
+    lastOffset = 0;
+  };
+
+  // Reports a refused target on its own stage, ahead of the phase stages
+  const addPolicyStage = (reason) => {
+    const dnsIndex = results.stages.findIndex((s) => s.id === "dns");
+    results.stages.splice(dnsIndex, 0, {
+      id: "policy",
+      name: "Target Policy",
+      status: "error",
+      timestamp: formatTimestamp(),
+      durationMs: 0,
+      errorDetails: reason,
+    });
+  };
+
+  const getRedirectStage = () => {
+    if (!getStage("redirects")) {
+      results.stages.unshift({
+        id: "redirects",
+        name: "Redirects",
+        status: "loading",
+      });
+    }
+    return getStage("redirects");
+  };
+
+  const requestHop = (hopUrl, hopRequest) => {
+    const isHttps = hopUrl.startsWith("https");
+    getStage("dns").status = "loading";
+    onUpdate(results);
+
+    return timedRequest(hopUrl, {
+      request: hopRequest,
+      timeouts: stageTimeouts,
+      signal,
+      onPhase: (event, timings, socket) => {
+        const index = STAGE_EVENTS.findIndex((s) => s.event === event);
+        const stage = getStage(STAGE_EVENTS[index].stageId);
+        completeStage(stage, offsetOf(timings, event));
+
+        if (event === "secureConnect") {
+          const tls = inspectTlsSocket(socket, {
+            expiryWarningDays: certExpiryWarningDays,
+          });
+          stage.tls = tls;
+          // An expired certificate already failed the handshake
+          if (tls.expiresSoon) {
+            addWarning(
+              `TLS certificate expires in ${tls.daysUntilExpiry} days`,
+            );
+          }
+        }
+
+        startNextStage(index, isHttps);
+        onUpdate(results);
+      },
+    });
+  };
+
+  // Sends a hop, retrying attempts that fail in a stage the policy covers.
+  // A failed status only counts on the response the check ends with.
+  const requestHopWithRetries = async (hopUrl, hopRequest) => {
+    for (attempt = 1; ; attempt += 1) {
+      const canRetry = (stageId) =>
+        !signal?.aborted &&
+        attempt < retryPolicy.attempts &&
+        retryPolicy.stages.includes(stageId);
+
+      try {
+        const response = await requestHop(hopUrl, hopRequest);
+        const statusError =
+          !getRedirectLocation(response) &&
+          assertStatus(
+            response.statusCode,
+            response.statusMessage,
+            acceptedStatus,
+          );
+        if (!statusError || !canRetry("httpStatus")) {
+          if (attempt > 1) {
+            const retried = `${hopUrl} responded on attempt ${attempt} of ${retryPolicy.attempts}`;
+            addWarning(retried);
+            retriedHops.push(retried);
+          }
+          return response;
+        }
+        recordAttempt(getStage("httpStatus"), "error", statusError);
+      } catch (error) {
+        // Cancelled checks and blocked targets aren't worth another try
+        if (signal?.aborted || error.code === TARGET_BLOCKED) throw error;
+
+        const failure = failStage(error);
+        if (!failure || !canRetry(failure.failedStage.id)) {
+          error.failure = failure;
+          throw error;
+        }
+      }
+
+      onUpdate(results);
+      await sleep(getBackoffDelay(retryPolicy, attempt), signal);
+      resetPhaseStages({ keepAttempts: true });
+    }
+  };
+
+  // Record inspection runs alongside the request and is attached to
+  // the DNS stage whenever it finishes. It gets no longer than the
+  // check's own DNS timeout, so a slow name server can't hold back the
+  // final result.
+  const inspectionSignal = AbortSignal.any([
+    AbortSignal.timeout(stageTimeouts.dns),
+    ...(signal ? [signal] : []),
+  ]);
+  const dnsInspection = inspectDns(domain, {
+    signal: inspectionSignal,
+  }).then((records) => {
+    getStage("dns").records = records;
+    if (!results.isComplete) onUpdate(results);
+  });
+
+  try {
+    let currentUrl = processedUrl;
+    let currentRequest = normalizeRequestConfig(request);
+    let response;
+    // Keyed by method too, so POST-redirect-GET to the same URL isn't a loop
+    const visited = new Set([`${currentRequest.method} ${currentUrl}`]);
+
+    while (true) {
+      response = await requestHopWithRetries(currentUrl, currentRequest);
+      results.redirectChain.push({
+        url: currentUrl,
+        method: currentRequest.method,
+        statusCode: response.statusCode,
+        statusMessage: response.statusMessage,
+        durationMs: lastOffset,
+        headers: pickHopHeaders(response.headers),
+      });
+      results.statusCode = response.statusCode;
+      results.statusMessage = response.statusMessage;
+
+      const location = getRedirectLocation(response);
+      if (!location) break;
+
+      const nextUrl = new URL(location, currentUrl).href;
+      const nextRequest = requestForRedirect(
+        currentRequest,
+        response.statusCode,
+        new URL(currentUrl).origin !== new URL(nextUrl).origin,
+      );
+      const visitKey = `${nextRequest.method} ${nextUrl}`;
+      const violation = checkRedirect(
+        currentUrl,
+        nextUrl,
+        visited.has(visitKey),
+        results.redirectChain.length - 1,
+        policy,
+      );
+      const redirectStage = getRedirectStage();
+
+      if (violation) {
+        redirectStage.status = "error";
+        redirectStage.timestamp = formatTimestamp();
+        redirectStage.durationMs = redirectTime;
+        redirectStage.errorDetails = violation;
+
+        results.isComplete = true;
+        results.isSuccess = false;
+        results.totalResponseTime = redirectTime + lastOffset;
+        results.errorMessage = violation;
+        break;
+      }
+
+      redirectTime += lastOffset;
+      redirectStage.durationMs = redirectTime;
+      visited.add(visitKey);
+      currentUrl = nextUrl;
+      currentRequest = nextRequest;
+      resetPhaseStages();
+    }
+
+    if (!results.isComplete) {
+      const redirectStage = getStage("redirects");
+      if (redirectStage) {
+        redirectStage.status = "success";
+        redirectStage.timestamp = formatTimestamp();
+      }
+
+      // Body assertions report on the download stage that fetched it;
+      // soft ones only degrade the check
+      const bodyAssertions = assertions.body || [];
+      const bodyFailures = assertBody(
+        response.body,
+        bodyAssertions.filter((assertion) => !assertion.soft),
+      );
+      const softBodyFailures = assertBody(
+        response.body,
+        bodyAssertions.filter((assertion) => assertion.soft),
+      );
+      if (bodyFailures.length > 0) {
+        const downloadStage = getStage("download");
+        downloadStage.status = "error";
+        downloadStage.errorDetails = bodyFailures.join("\n");
+      }
+      const bodyError =
+        bodyFailures.length === 1
+          ? `Content assertion failed: ${bodyFailures[0]}`
+          : bodyFailures.length > 1
+            ? `${bodyFailures.length} content assertions failed`
+            : null;
+
+      const statusStage = getStage("httpStatus");
+      const statusError = assertStatus(
+        results.statusCode,
+        results.statusMessage,
+        acceptedStatus,
+      );
+      statusStage.status = statusError ? "error" : "success";
+      statusStage.timestamp = formatTimestamp();
+      statusStage.durationMs = 0;
+      if (statusError) statusStage.errorDetails = statusError;
+      recordAttempt(
+        statusStage,
+        statusError ? "error" : "success",
+        statusError || undefined,
+      );
+
+      // The header audit is graded but never fails the check
+      const securityStage = getStage("securityHeaders");
+      securityStage.audit = auditSecurityHeaders(response.headers, {
+        isHttps: currentUrl.startsWith("https"),
+      });
+      securityStage.status = "success";
+      securityStage.timestamp = formatTimestamp();
+      securityStage.durationMs = 0;
+
+      results.isComplete = true;
+      results.isSuccess = !statusError && !bodyError;
+      results.totalResponseTime = redirectTime + lastOffset;
+      results.errorMessage = statusError || bodyError || "";
+
+      if (results.isSuccess) {
+        results.degradedReasons = [
+          ...assertSoft(
+            {
+              totalResponseTime: results.totalResponseTime,
+              headers: response.headers,
+            },
+            assertions,
+          ),
+          ...softBodyFailures,
+          ...retriedHops,
+        ];
+        results.isDegraded = results.degradedReasons.length > 0;
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      // Mark the stage the check had reached when it was cancelled
+      const reachedStage = results.stages.find(
+        (s) => s.status === "loading" && s.id !== "redirects",
+      );
+      if (reachedStage) {
+        reachedStage.status = "error";
+        reachedStage.timestamp = formatTimestamp();
+        reachedStage.errorDetails = "Cancelled";
+      }
+      results.isCancelled = true;
+      results.errorMessage = "Check cancelled";
+    } else if (error.code === TARGET_BLOCKED) {
+      // The phase stage in flight never got to talk to the target
+      const stoppedStage = results.stages.find(
+        (s) => s.status === "loading" && s.id !== "redirects",
+      );
+      if (stoppedStage) stoppedStage.status = "idle";
+      addPolicyStage(error.message);
+      results.errorMessage = `Blocked by target policy: ${error.message}`;
+    } else {
+      const failure = error.failure || failStage(error);
+      results.errorMessage = failure
+        ? failure.summary
+        : error.message
+          ? error.message.split("\n")[0]
+          : "An unexpected error occurred";
+    }
+
+    // The hop that failed was never followed
+    const redirectStage = getStage("redirects");
+    if (redirectStage && redirectStage.status === "loading") {
+      redirectStage.status = "success";
+      redirectStage.timestamp = formatTimestamp();
+    }
+
+    results.isComplete = true;
+    results.isSuccess = false;
+    results.totalResponseTime = redirectTime + lastOffset;
+  }
+
+  await dnsInspection;
+  return results;
+}
@@ -0,0 +1,54 @@
+import {
+  findInvalidBodyAssertion,
+  findInvalidSoftAssertions,
+  findInvalidStatusRule,
+} from "./assertions.js";
+import { findInvalidRedirectPolicy } from "./checkEngine.js";
+import { findInvalidRequestConfig } from "./requestConfig.js";
+import { findInvalidRetryPolicy, findInvalidTimeouts } from "./retryPolicy.js";
+
+// Picks the options runCheck understands out of a request body
+export const pickCheckOptions = ({
+  certExpiryWarningDays,
+  redirectPolicy,
+  assertions,
+  request,
+  timeouts,
+  retry,
+}) => ({
+  certExpiryWarningDays,
+  redirectPolicy,
+  assertions,
+  request,
+  timeouts,
+  retry,
+});
+
+// Returns why a check with these options can't run, if it can't
+export const findInvalidCheck = ({
+  url,
+  certExpiryWarningDays,
+  redirectPolicy,
+  assertions,
+  request,
+  timeouts,
+  retry,
+}) => {
+  if (!url) return "URL is required";
+  if (
+    certExpiryWarningDays !== undefined &&
+    (!Number.isInteger(certExpiryWarningDays) || certExpiryWarningDays < 0)
+  ) {
+    return "Certificate expiry warning must be a whole number of days";
+  }
+
+  return (
+    findInvalidStatusRule(assertions?.acceptedStatus || []) ||
+    findInvalidRedirectPolicy(redirectPolicy) ||
+    findInvalidBodyAssertion(assertions?.body || []) ||
+    findInvalidSoftAssertions(assertions) ||
+    findInvalidRequestConfig(request) ||
+    findInvalidTimeouts(timeouts) ||
+    findInvalidRetryPolicy(retry)
+  );
+};
@@ -0,0 +1,110 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { DATA_DIR } from "./monitorStore.js";
+
+// Every webhook delivery and its attempts, for the delivery log
+const DELIVERIES_FILE = path.join(DATA_DIR, "deliveries.json");
+
+// Deliveries kept for each channel once it has more than this many
+const MAX_DELIVERIES_PER_CHANNEL = 50;
+
+// A delivery is updated on every attempt, so writes are batched
+const SAVE_DELAY_MS = 1000;
+
+const deliveries = new Map();
+let saveTimer = null;
+let pendingWrite = Promise.resolve();
+
+// Helper function to write deliveries.json without leaving it half-written
+const writeDeliveries = async () => {
+  const tempFile = `${DELIVERIES_FILE}.tmp`;
+  const data = { deliveries: [...deliveries.values()] };
+  await fs.writeFile(tempFile, JSON.stringify(data, null, 2) + "\n");
+  await fs.rename(tempFile, DELIVERIES_FILE);
+};
+
+// Writes are chained so two saves never race on the temp file
+const saveNow = () => {
+  clearTimeout(saveTimer);
+  saveTimer = null;
+  pendingWrite = pendingWrite
+    .then(writeDeliveries)
+    .catch((error) => console.error("Error saving deliveries:", error));
+  return pendingWrite;
+};
+
+const saveSoon = () => {
+  if (!saveTimer) saveTimer = setTimeout(saveNow, SAVE_DELAY_MS);
+};
+
+// Lists a channel's deliveries, newest first
+export const listDeliveries = (channelId) =>
+  [...deliveries.values()]
+    .filter((delivery) => delivery.channelId === channelId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+// Drops a channel's oldest deliveries beyond the limit
+const pruneChannel = (channelId) =>
+  listDeliveries(channelId)
+    .slice(MAX_DELIVERIES_PER_CHANNEL)
+    .forEach((delivery) => deliveries.delete(delivery.id));
+
+/**
+ * Reads saved deliveries from disk. Call after loadMonitors, which creates
+ * the data directory. Retries are timers, so any a restart interrupted
+ * are marked failed.
+ */
+export const loadDeliveries = async () => {
+  try {
+    const saved = JSON.parse(await fs.readFile(DELIVERIES_FILE, "utf8"));
+    saved.deliveries.forEach((delivery) =>
+      deliveries.set(
+        delivery.id,
+        delivery.status === "retrying"
+          ? {
+              ...delivery,
+              status: "failed",
+              nextAttemptAt: undefined,
+              error: "The server restarted before the next attempt",
+            }
+          : delivery,
+      ),
+    );
+  } catch (error) {
+    if (error.code !== "ENOENT") throw error;
+  }
+  return [...deliveries.values()];
+};
+
+export const getDelivery = (id) => deliveries.get(id);
+
+export const createDelivery = (fields) => {
+  const delivery = {
+    id: randomUUID(),
+    ...fields,
+    createdAt: new Date().toISOString(),
+  };
+  deliveries.set(delivery.id, delivery);
+  pruneChannel(delivery.channelId);
+  saveSoon();
+  return delivery;
+};
+
+export const updateDelivery = (id, fields) => {
+  const delivery = deliveries.get(id);
+  if (!delivery) return undefined;
+
+  const updated = { ...delivery, ...fields };
+  deliveries.set(id, updated);
+  saveSoon();
+  return updated;
+};
+
+// Forgets a deleted channel's deliveries
+export const deleteChannelDeliveries = (channelId) => {
+  listDeliveries(channelId).forEach((delivery) =>
+    deliveries.delete(delivery.id),
+  );
+  saveSoon();
+};
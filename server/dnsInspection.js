@@ -0,0 +1,171 @@
+import dns from "dns";
+import net from "net";
+import { getBlockReason } from "./targetPolicy.js";
+
+const { Resolver } = dns.promises;
+
+// Per-query timeout for record inspection (ms)
+const QUERY_TIMEOUT_MS = 2000;
+
+// Longest CNAME chain we follow before giving up
+const MAX_CNAME_DEPTH = 10;
+
+// Error codes that just mean "no records of this type"
+const NO_DATA_CODES = new Set([dns.NODATA, dns.NOTFOUND]);
+
+// Aborting the signal cancels whatever the resolver has in flight
+const createResolver = (servers, signal) => {
+  const resolver = new Resolver({ timeout: QUERY_TIMEOUT_MS, tries: 2 });
+  if (servers) resolver.setServers(servers);
+  signal?.addEventListener("abort", () => resolver.cancel(), { once: true });
+  return resolver;
+};
+
+// Helper function to run a query, treating "no data" as an empty answer
+async function query(errors, type, fn, fallback) {
+  try {
+    return await fn();
+  } catch (error) {
+    if (!NO_DATA_CODES.has(error.code)) {
+      errors[type] = error.code || error.message;
+    }
+    return fallback;
+  }
+}
+
+// Follows CNAME records from the hostname until a name without one
+async function resolveCnameChain(resolver, hostname, errors, signal) {
+  const chain = [];
+  let name = hostname;
+
+  while (chain.length < MAX_CNAME_DEPTH && !signal?.aborted) {
+    const [target] = await query(
+      errors,
+      "CNAME",
+      () => resolver.resolveCname(name),
+      [],
+    );
+    if (!target || chain.includes(target)) break;
+    chain.push(target);
+    name = target;
+  }
+
+  return chain;
+}
+
+// Walks up the hostname's labels to find the zone that owns it
+async function findZone(resolver, hostname, errors, signal) {
+  const labels = hostname.split(".");
+
+  for (let i = 0; i < labels.length - 1 && !signal?.aborted; i++) {
+    const zone = labels.slice(i).join(".");
+    const ns = await query(errors, "NS", () => resolver.resolveNs(zone), []);
+    if (ns.length > 0) {
+      delete errors.NS;
+      return { zone, ns };
+    }
+  }
+
+  return { zone: undefined, ns: [] };
+}
+
+// Asks the zone's own name servers for the address records
+async function queryAuthoritative(resolver, nameservers, hostname, signal) {
+  for (const nsName of nameservers) {
+    if (signal?.aborted) break;
+
+    // Name servers in blocked ranges aren't queried, the same as targets
+    const addresses = (await resolver.resolve4(nsName).catch(() => [])).filter(
+      (address) => !getBlockReason(address),
+    );
+    if (addresses.length === 0) continue;
+
+    const authoritative = createResolver(addresses, signal);
+    const errors = {};
+    const [a, aaaa] = await Promise.all([
+      query(
+        errors,
+        "A",
+        () => authoritative.resolve4(hostname, { ttl: true }),
+        [],
+      ),
+      query(
+        errors,
+        "AAAA",
+        () => authoritative.resolve6(hostname, { ttl: true }),
+        [],
+      ),
+    ]);
+
+    // Try the next name server if this one didn't answer at all
+    if (errors.A && errors.AAAA) continue;
+
+    return { server: nsName, a, aaaa };
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolves the hostname's A, AAAA, CNAME chain, NS, MX, TXT and SOA
+ * records, with TTLs for address records, plus the address answer set
+ * straight from one of the zone's authoritative name servers.
+ *
+ * Never rejects: lookups that fail with something other than "no data"
+ * are reported in `errors`, keyed by record type. Aborting `signal`
+ * cancels the lookups still running.
+ */
+export async function inspectDns(hostname, { signal } = {}) {
+  const errors = {};
+
+  // IP literals have nothing to resolve
+  if (net.isIP(hostname)) {
+    return {
+      hostname,
+      a: net.isIPv4(hostname) ? [{ address: hostname, ttl: 0 }] : [],
+      aaaa: net.isIPv6(hostname) ? [{ address: hostname, ttl: 0 }] : [],
+      cnameChain: [],
+      ns: [],
+      mx: [],
+      txt: [],
+      errors,
+    };
+  }
+
+  const resolver = createResolver(undefined, signal);
+
+  const [a, aaaa, cnameChain, mx, txt, { zone, ns }] = await Promise.all([
+    query(errors, "A", () => resolver.resolve4(hostname, { ttl: true }), []),
+    query(errors, "AAAA", () => resolver.resolve6(hostname, { ttl: true }), []),
+    resolveCnameChain(resolver, hostname, errors, signal),
+    query(errors, "MX", () => resolver.resolveMx(hostname), []),
+    query(errors, "TXT", () => resolver.resolveTxt(hostname), []),
+    findZone(resolver, hostname, errors, signal),
+  ]);
+
+  const soa =
+    zone && !signal?.aborted
+      ? await query(errors, "SOA", () => resolver.resolveSoa(zone), undefined)
+      : undefined;
+
+  const authoritative = await queryAuthoritative(
+    resolver,
+    ns,
+    hostname,
+    signal,
+  );
+
+  return {
+    hostname,
+    zone,
+    a,
+    aaaa,
+    cnameChain,
+    ns,
+    mx: mx.sort((x, y) => x.priority - y.priority),
+    txt: txt.map((chunks) => chunks.join("")),
+    soa,
+    authoritative,
+    errors,
+  };
+}
@@ -0,0 +1,58 @@
+import express from "express";
+import { findInvalidPolicy, pickPolicyFields } from "./escalations.js";
+import {
+  createPolicy,
+  deletePolicy,
+  getPolicy,
+  listPolicies,
+  updatePolicy,
+} from "./escalationStore.js";
+import { asyncRoute } from "./asyncRoute.js";
+
+const router = express.Router();
+
+router.get("/", (req, res) => {
+  res.json(listPolicies());
+});
+
+router.post(
+  "/",
+  asyncRoute(async (req, res) => {
+    const invalidPolicy = findInvalidPolicy(req.body);
+    if (invalidPolicy) {
+      return res.status(400).json({ error: invalidPolicy });
+    }
+
+    const policy = await createPolicy(pickPolicyFields(req.body));
+    res.status(201).json(policy);
+  }),
+);
+
+// Incidents already escalating pick up the changes at their next level
+router.put(
+  "/:id",
+  asyncRoute(async (req, res) => {
+    if (!getPolicy(req.params.id)) {
+      return res.status(404).json({ error: "Escalation policy not found" });
+    }
+    const invalidPolicy = findInvalidPolicy(req.body, req.params.id);
+    if (invalidPolicy) {
+      return res.status(400).json({ error: invalidPolicy });
+    }
+
+    res.json(await updatePolicy(req.params.id, pickPolicyFields(req.body)));
+  }),
+);
+
+// Incidents escalating under a deleted policy stop at their next level
+router.delete(
+  "/:id",
+  asyncRoute(async (req, res) => {
+    if (!(await deletePolicy(req.params.id))) {
+      return res.status(404).json({ error: "Escalation policy not found" });
+    }
+    res.status(204).end();
+  }),
+);
+
+export default router;
@@ -0,0 +1,95 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { DATA_DIR } from "./monitorStore.js";
+
+// Escalation policies: which channels are told about an incident, and when
+const POLICIES_FILE = path.join(DATA_DIR, "escalation-policies.json");
+
+const policies = new Map();
+let pendingWrite = Promise.resolve();
+
+// Helper function to write the policies file without leaving it half-written
+const writePolicies = async () => {
+  const tempFile = `${POLICIES_FILE}.tmp`;
+  const data = { policies: [...policies.values()] };
+  await fs.writeFile(tempFile, JSON.stringify(data, null, 2) + "\n");
+  await fs.rename(tempFile, POLICIES_FILE);
+};
+
+// Writes are chained so two saves never race on the temp file
+const saveNow = () => {
+  pendingWrite = pendingWrite
+    .then(writePolicies)
+    .catch((error) =>
+      console.error("Error saving escalation policies:", error),
+    );
+  return pendingWrite;
+};
+
+/**
+ * Reads saved escalation policies from disk. Call after loadMonitors,
+ * which creates the data directory.
+ */
+export const loadPolicies = async () => {
+  try {
+    const saved = JSON.parse(await fs.readFile(POLICIES_FILE, "utf8"));
+    saved.policies.forEach((policy) => policies.set(policy.id, policy));
+  } catch (error) {
+    if (error.code !== "ENOENT") throw error;
+  }
+  return [...policies.values()];
+};
+
+// Lists policies in the order they were added
+export const listPolicies = () =>
+  [...policies.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+export const getPolicy = (id) => policies.get(id);
+
+/**
+ * Finds the policy that escalates a monitor's incidents, if any. One
+ * assigned to the monitor itself wins over one assigned to its group.
+ */
+export const findMonitorPolicy = (monitor) => {
+  const all = listPolicies();
+  return (
+    all.find((policy) => policy.monitorIds.includes(monitor.id)) ||
+    (monitor.group
+      ? all.find((policy) => policy.groups.includes(monitor.group))
+      : undefined)
+  );
+};
+
+export const createPolicy = async (fields) => {
+  const now = new Date().toISOString();
+  const policy = {
+    id: randomUUID(),
+    ...fields,
+    createdAt: now,
+    updatedAt: now,
+  };
+  policies.set(policy.id, policy);
+  await saveNow();
+  return policy;
+};
+
+export const updatePolicy = async (id, fields) => {
+  const policy = policies.get(id);
+  if (!policy) return undefined;
+
+  const updated = {
+    ...policy,
+    ...fields,
+    updatedAt: new Date().toISOString(),
+  };
+  policies.set(id, updated);
+  await saveNow();
+  return updated;
+};
+
+export const deletePolicy = async (id) => {
+  if (!policies.delete(id)) return false;
+  await saveNow();
+  return true;
+};
@@ -0,0 +1,290 @@
+import { addEvent } from "./incidents.js";
+import { getIncident, listIncidents, updateIncident } from "./incidentStore.js";
+import { getMonitor } from "./monitorStore.js";
+import { getChannel } from "./notificationStore.js";
+import {
+  findMonitorPolicy,
+  getPolicy,
+  listPolicies,
+} from "./escalationStore.js";
+import { buildNotification, sendToChannels } from "./notifications.js";
+
+// Limits on a policy: how many levels it has, how often it can start over
+// and how long a level can wait for someone to acknowledge
+const MAX_LEVELS = 5;
+const MAX_REPEATS = 5;
+const MAX_ESCALATE_AFTER_MINUTES = 24 * 60;
+const MAX_GROUP_LENGTH = 100;
+
+// Pending level timers, by incident id
+const timers = new Map();
+
+// Helper function to check a value is a list of strings
+const isTextList = (value) =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+// Whether a level waits for someone to acknowledge before moving on: all
+// but the last do, and the last only when the policy starts over
+const levelWaits = (index, levelCount, repeatLimit) =>
+  index < levelCount - 1 || repeatLimit > 0;
+
+/**
+ * Returns why a policy with these fields can't be saved, if it can't. A
+ * monitor or group can only be assigned to one policy, so pass the id of
+ * the policy being edited to leave it out of that check. The last level's
+ * wait is only checked when the policy starts over.
+ */
+export const findInvalidPolicy = (
+  { name, levels, repeatLimit = 0, monitorIds = [], groups = [] },
+  id,
+) => {
+  if (name !== undefined && typeof name !== "string") {
+    return "Policy name must be text";
+  }
+  if (!Array.isArray(levels) || levels.length === 0) {
+    return "Add at least one level";
+  }
+  if (levels.length > MAX_LEVELS) {
+    return `A policy can have at most ${MAX_LEVELS} levels`;
+  }
+  if (
+    !Number.isInteger(repeatLimit) ||
+    repeatLimit < 0 ||
+    repeatLimit > MAX_REPEATS
+  ) {
+    return `Repeats must be between 0 and ${MAX_REPEATS}`;
+  }
+  for (const [index, level] of levels.entries()) {
+    if (!isTextList(level?.channelIds) || level.channelIds.length === 0) {
+      return `Level ${index + 1} needs at least one channel`;
+    }
+    const unknown = level.channelIds.find(
+      (channelId) => !getChannel(channelId),
+    );
+    if (unknown !== undefined) {
+      return `Level ${index + 1} has an unknown channel: ${unknown}`;
+    }
+    const { escalateAfterMinutes } = level;
+    if (
+      levelWaits(index, levels.length, repeatLimit) &&
+      (!Number.isInteger(escalateAfterMinutes) ||
+        escalateAfterMinutes < 1 ||
+        escalateAfterMinutes > MAX_ESCALATE_AFTER_MINUTES)
+    ) {
+      return `Level ${index + 1} must escalate after 1 to ${MAX_ESCALATE_AFTER_MINUTES} minutes`;
+    }
+  }
+  if (!isTextList(monitorIds)) {
+    return "Monitor ids must be a list of ids";
+  }
+  if (!isTextList(groups)) {
+    return "Groups must be a list of group names";
+  }
+  if (groups.some((group) => group.trim().length > MAX_GROUP_LENGTH)) {
+    return `Group names must be under ${MAX_GROUP_LENGTH} characters`;
+  }
+
+  const others = listPolicies().filter((policy) => policy.id !== id);
+  for (const monitorId of monitorIds) {
+    const taken = others.find((policy) =>
+      policy.monitorIds.includes(monitorId),
+    );
+    if (taken) {
+      const monitor = getMonitor(monitorId);
+      return `${monitor?.name || monitorId} already uses the ${taken.name} policy`;
+    }
+  }
+  for (const group of groups) {
+    const taken = others.find((policy) => policy.groups.includes(group.trim()));
+    if (taken) {
+      return `Group ${group.trim()} already uses the ${taken.name} policy`;
+    }
+  }
+  return null;
+};
+
+// Picks the fields a client may set on a policy out of a request body,
+// leaving out a last level's wait that would never be used
+export const pickPolicyFields = ({
+  name,
+  levels,
+  repeatLimit = 0,
+  monitorIds = [],
+  groups = [],
+}) => ({
+  name: name?.trim() || "Escalation policy",
+  levels: levels.map(({ channelIds, escalateAfterMinutes }, index) => ({
+    channelIds: [...new Set(channelIds)],
+    ...(levelWaits(index, levels.length, repeatLimit) && {
+      escalateAfterMinutes,
+    }),
+  })),
+  repeatLimit,
+  monitorIds: [...new Set(monitorIds)],
+  groups: [...new Set(groups.map((group) => group.trim()).filter(Boolean))],
+});
+
+// Works out which level fires after one does, and when: the next level
+// once this one's wait is up, or the first again while repeats are left
+const findNextStep = (policy, { level, round }, now) => {
+  if (
+    !levelWaits(level - 1, policy.levels.length, policy.repeatLimit - round)
+  ) {
+    return null;
+  }
+  const at = new Date(
+    now + policy.levels[level - 1].escalateAfterMinutes * 60 * 1000,
+  ).toISOString();
+  return level < policy.levels.length
+    ? { level: level + 1, round, at }
+    : { level: 1, round: round + 1, at };
+};
+
+// Helper function to set the timer for an incident's next level
+const scheduleStep = (incidentId, at) => {
+  clearTimeout(timers.get(incidentId));
+  timers.set(
+    incidentId,
+    setTimeout(
+      () =>
+        runStep(incidentId).catch((error) =>
+          console.error(`Error escalating incident ${incidentId}:`, error),
+        ),
+      Math.max(0, Date.parse(at) - Date.now()),
+    ).unref(),
+  );
+};
+
+/**
+ * Fires an incident's next level: its channels are told the incident is
+ * open, the timeline notes it, and the level after is booked. Does nothing
+ * once the incident is acknowledged or resolved, and stops if the policy
+ * or monitor was deleted. Result and stages are the check that opened the
+ * incident, for the first level; later ones use the monitor's last result.
+ */
+const runStep = async (incidentId, result, stages) => {
+  timers.delete(incidentId);
+  const incident = getIncident(incidentId);
+  const escalation = incident?.escalation;
+  if (!escalation?.next || incident.status !== "open") return;
+
+  const policy = getPolicy(escalation.policyId);
+  const monitor = getMonitor(incident.monitorId);
+  const step = escalation.next;
+  const level = policy?.levels[step.level - 1];
+  const now = Date.now();
+  const timestamp = new Date(now).toISOString();
+
+  if (!monitor || !level) {
+    await updateIncident(incidentId, {
+      escalation: { ...escalation, next: null },
+      timeline: addEvent(
+        incident.timeline,
+        "escalated",
+        timestamp,
+        `Escalation stopped: the ${monitor ? "policy" : "monitor"} was deleted`,
+      ),
+    });
+    return;
+  }
+
+  const channels = level.channelIds
+    .map(getChannel)
+    .filter(
+      (channel) =>
+        channel?.enabled && channel.events.includes(escalation.event),
+    );
+  const next = findNextStep(policy, step, now);
+  await updateIncident(incidentId, {
+    escalation: {
+      ...escalation,
+      notifiedChannelIds: [
+        ...new Set([
+          ...escalation.notifiedChannelIds,
+          ...channels.map(({ id }) => id),
+        ]),
+      ],
+      next,
+    },
+    timeline: addEvent(
+      incident.timeline,
+      "escalated",
+      timestamp,
+      `Level ${step.level}${step.round > 0 ? ` (repeat ${step.round} of ${policy.repeatLimit})` : ""} ${
+        channels.length > 0
+          ? `notified ${channels.map(({ name }) => name).join(", ")}`
+          : "had no channels enabled for this event"
+      }`,
+    ),
+  });
+  if (next) scheduleStep(incidentId, next.at);
+
+  const notification = buildNotification(escalation.event, {
+    monitor,
+    incident,
+    result: result || monitor.lastResult || undefined,
+    stages,
+  });
+  await sendToChannels(channels, {
+    ...notification,
+    fields: [
+      ...notification.fields,
+      {
+        label: "Escalation",
+        value: `${policy.name}, level ${step.level} of ${policy.levels.length}`,
+      },
+    ],
+  });
+};
+
+/**
+ * Starts escalating an incident that just opened, if its monitor has a
+ * policy: the first level fires now and each later one only if nobody
+ * acknowledges in time. Incidents of a flapping monitor aren't escalated,
+ * as they send no notifications.
+ */
+export const startEscalation = async (incident, monitor, result, stages) => {
+  const policy = findMonitorPolicy(monitor);
+  if (!policy || incident.flapping) return;
+
+  await updateIncident(incident.id, {
+    escalation: {
+      policyId: policy.id,
+      policyName: policy.name,
+      event: result.outcome === "degraded" ? "degraded" : "down",
+      notifiedChannelIds: [],
+      next: { level: 1, round: 0, at: new Date().toISOString() },
+    },
+  });
+  await runStep(incident.id, result, stages);
+};
+
+/**
+ * Stops an incident's escalation once it's acknowledged or resolved. The
+ * channels already notified keep hearing about it.
+ */
+export const stopEscalation = async (incidentId) => {
+  clearTimeout(timers.get(incidentId));
+  timers.delete(incidentId);
+
+  const incident = getIncident(incidentId);
+  if (incident?.escalation?.next) {
+    await updateIncident(incidentId, {
+      escalation: { ...incident.escalation, next: null },
+    });
+  }
+};
+
+/**
+ * Books the next level of every incident still escalating. Timers don't
+ * survive a restart, so call once incidents, channels and policies are
+ * loaded; levels that came due while the server was down fire at once.
+ */
+export const resumeEscalations = () =>
+  listIncidents()
+    .filter(
+      (incident) => incident.status === "open" && incident.escalation?.next,
+    )
+    .forEach((incident) =>
+      scheduleStep(incident.id, incident.escalation.next.at),
+    );
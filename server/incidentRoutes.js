@@ -0,0 +1,93 @@
+import express from "express";
+import { acknowledgeIncident } from "./incidents.js";
+import { getIncident, listIncidents } from "./incidentStore.js";
+import { getMonitor } from "./monitorStore.js";
+import { notifyIncidentChange } from "./notifications.js";
+import { stopEscalation } from "./escalations.js";
+import { asyncRoute } from "./asyncRoute.js";
+
+const INCIDENT_STATUSES = ["open", "acknowledged", "resolved"];
+
+const router = express.Router();
+
+// Lists incidents newest first, optionally for one monitor or status
+router.get("/", (req, res) => {
+  const { status, monitorId } = req.query;
+  if (status !== undefined && !INCIDENT_STATUSES.includes(status)) {
+    return res.status(400).json({
+      error: `Status must be one of ${INCIDENT_STATUSES.join(", ")}`,
+    });
+  }
+
+  res.json(
+    listIncidents().filter(
+      (incident) =>
+        (!status || incident.status === status) &&
+        (!monitorId || incident.monitorId === monitorId),
+    ),
+  );
+});
+
+router.get("/:id", (req, res) => {
+  const incident = getIncident(req.params.id);
+  if (!incident) {
+    return res.status(404).json({ error: "Incident not found" });
+  }
+  res.json(incident);
+});
+
+router.post(
+  "/:id/acknowledge",
+  asyncRoute(async (req, res) => {
+    const incident = getIncident(req.params.id);
+    if (!incident) {
+      return res.status(404).json({ error: "Incident not found" });
+    }
+
+    const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+    if (!name) {
+      return res
+        .status(400)
+        .json({ error: "Name of the person acknowledging is required" });
+    }
+    if (incident.status === "resolved") {
+      return res.status(409).json({ error: "Incident is already resolved" });
+    }
+    if (incident.status === "acknowledged") {
+      return res.status(409).json({
+        error: `Incident was already acknowledged by ${incident.acknowledgedBy}`,
+      });
+    }
+
+    // Someone's on it, so nobody further up needs telling
+    await stopEscalation(incident.id);
+
+    // A check or escalation level may have changed the incident meanwhile
+    const current = getIncident(incident.id);
+    if (!current) {
+      return res.status(404).json({ error: "Incident not found" });
+    }
+    if (current.status === "resolved") {
+      return res.status(409).json({ error: "Incident is already resolved" });
+    }
+    if (current.status === "acknowledged") {
+      return res.status(409).json({
+        error: `Incident was already acknowledged by ${current.acknowledgedBy}`,
+      });
+    }
+    const acknowledged = await acknowledgeIncident(current, name);
+    // Sent in the background so the response doesn't wait on slow channels
+    const monitor = getMonitor(incident.monitorId);
+    if (monitor) {
+      notifyIncidentChange(
+        { type: "acknowledged", incident: acknowledged },
+        monitor,
+      ).catch((error) =>
+        console.error(`Error notifying for incident ${incident.id}:`, error),
+      );
+    }
+    res.json(acknowledged);
+  }),
+);
+
+export default router;
@@ -0,0 +1,112 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { DATA_DIR } from "./monitorStore.js";
+
+// Incidents and each monitor's current run of failures or successes are
+// kept together, so a restart picks a streak up where it left off
+const INCIDENTS_FILE = path.join(DATA_DIR, "incidents.json");
+
+// Resolved incidents kept once there are more than this many
+const MAX_RESOLVED_INCIDENTS = 500;
+
+// Streaks change on every check, so their writes are batched like
+// monitors' last results
+const SAVE_DELAY_MS = 1000;
+
+const incidents = new Map();
+const streaks = new Map();
+let saveTimer = null;
+let pendingWrite = Promise.resolve();
+
+// Helper function to write incidents.json without leaving it half-written
+const writeIncidents = async () => {
+  const tempFile = `${INCIDENTS_FILE}.tmp`;
+  const data = {
+    incidents: [...incidents.values()],
+    streaks: Object.fromEntries(streaks),
+  };
+  await fs.writeFile(tempFile, JSON.stringify(data, null, 2) + "\n");
+  await fs.rename(tempFile, INCIDENTS_FILE);
+};
+
+// Writes are chained so two saves never race on the temp file
+const saveNow = () => {
+  clearTimeout(saveTimer);
+  saveTimer = null;
+  pendingWrite = pendingWrite
+    .then(writeIncidents)
+    .catch((error) => console.error("Error saving incidents:", error));
+  return pendingWrite;
+};
+
+const saveSoon = () => {
+  if (!saveTimer) saveTimer = setTimeout(saveNow, SAVE_DELAY_MS);
+};
+
+// Drops the oldest resolved incidents beyond the limit
+const pruneResolved = () => {
+  const resolved = [...incidents.values()]
+    .filter((incident) => incident.status === "resolved")
+    .sort((a, b) => a.resolvedAt.localeCompare(b.resolvedAt));
+  resolved
+    .slice(0, Math.max(resolved.length - MAX_RESOLVED_INCIDENTS, 0))
+    .forEach((incident) => incidents.delete(incident.id));
+};
+
+/**
+ * Reads saved incidents and streaks from disk. Call after loadMonitors,
+ * which creates the data directory.
+ */
+export const loadIncidents = async () => {
+  try {
+    const saved = JSON.parse(await fs.readFile(INCIDENTS_FILE, "utf8"));
+    saved.incidents.forEach((incident) => incidents.set(incident.id, incident));
+    Object.entries(saved.streaks).forEach(([id, streak]) =>
+      streaks.set(id, streak),
+    );
+  } catch (error) {
+    if (error.code !== "ENOENT") throw error;
+  }
+};
+
+// Lists incidents newest first
+export const listIncidents = () =>
+  [...incidents.values()].sort((a, b) =>
+    b.startedAt.localeCompare(a.startedAt),
+  );
+
+export const getIncident = (id) => incidents.get(id);
+
+// The incident still open for a monitor, if there is one
+export const findActiveIncident = (monitorId) =>
+  [...incidents.values()].find(
+    (incident) =>
+      incident.monitorId === monitorId && incident.status !== "resolved",
+  );
+
+export const createIncident = async (fields) => {
+  const incident = { id: randomUUID(), ...fields };
+  incidents.set(incident.id, incident);
+  await saveNow();
+  return incident;
+};
+
+export const updateIncident = async (id, fields) => {
+  const incident = incidents.get(id);
+  if (!incident) return undefined;
+
+  const updated = { ...incident, ...fields };
+  incidents.set(id, updated);
+  if (updated.status === "resolved") pruneResolved();
+  await saveNow();
+  return updated;
+};
+
+export const getStreak = (monitorId) => streaks.get(monitorId);
+
+export const setStreak = (monitorId, streak) => {
+  if (streak) streaks.set(monitorId, streak);
+  else streaks.delete(monitorId);
+  saveSoon();
+};
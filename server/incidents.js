@@ -0,0 +1,298 @@
+import {
+  createIncident,
+  findActiveIncident,
+  getStreak,
+  setStreak,
+  updateIncident,
+} from "./incidentStore.js";
+
+// An incident opens after failureThreshold failed checks in a row and
+// resolves after recoveryThreshold passing checks in a row. A monitor whose
+// last flapWindow checks changed between up and down flapThreshold times
+// or more is flapping; confirmFailures re-checks a failure straight away
+// before it counts. With degradedOpensIncidents, DEGRADED checks count as
+// failures too.
+export const DEFAULT_INCIDENT_POLICY = {
+  failureThreshold: 3,
+  recoveryThreshold: 2,
+  confirmFailures: false,
+  degradedOpensIncidents: false,
+  flapDetection: true,
+  flapWindow: 10,
+  flapThreshold: 4,
+};
+
+export const MAX_INCIDENT_THRESHOLD = 20;
+export const MAX_FLAP_WINDOW = 50;
+
+// A long outage whose error keeps changing stops noting each change once
+// its timeline has this many entries
+const MAX_TIMELINE_EVENTS = 50;
+
+export const normalizeIncidentPolicy = (policy = {}) => ({
+  ...DEFAULT_INCIDENT_POLICY,
+  ...policy,
+});
+
+// Returns why an incident policy can't be used, if it can't
+export const findInvalidIncidentPolicy = (policy) => {
+  if (policy === undefined) return null;
+  if (typeof policy !== "object" || policy === null) {
+    return "Incident policy must be an object";
+  }
+
+  for (const key of ["failureThreshold", "recoveryThreshold"]) {
+    const value = policy[key];
+    if (
+      value !== undefined &&
+      (!Number.isInteger(value) || value < 1 || value > MAX_INCIDENT_THRESHOLD)
+    ) {
+      return `Incident ${key} must be between 1 and ${MAX_INCIDENT_THRESHOLD}`;
+    }
+  }
+  for (const key of [
+    "confirmFailures",
+    "degradedOpensIncidents",
+    "flapDetection",
+  ]) {
+    if (policy[key] !== undefined && typeof policy[key] !== "boolean") {
+      return `Incident ${key} must be true or false`;
+    }
+  }
+
+  const { flapWindow, flapThreshold } = normalizeIncidentPolicy(policy);
+  if (
+    !Number.isInteger(flapWindow) ||
+    flapWindow < 2 ||
+    flapWindow > MAX_FLAP_WINDOW
+  ) {
+    return `Flap window must be between 2 and ${MAX_FLAP_WINDOW} checks`;
+  }
+  if (
+    !Number.isInteger(flapThreshold) ||
+    flapThreshold < 1 ||
+    flapThreshold >= flapWindow
+  ) {
+    return "Flap threshold must be at least 1 and fewer than the checks in the flap window";
+  }
+  return null;
+};
+
+// What went wrong with a failed check, or why a passing one was degraded
+const getProblem = (result) =>
+  result.errorMessage || result.degradedReasons?.join("; ");
+
+// Helper function to describe a failed check for the timeline
+const describeFailure = (result) =>
+  [
+    result.failedStage && `${result.failedStage.name}:`,
+    getProblem(result) || "Check failed",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+// Adds an entry to the end of an incident's timeline
+export const addEvent = (timeline, type, timestamp, message) => [
+  ...timeline,
+  { type, timestamp, message },
+];
+
+// Counts how often a run of outcomes switches between up and down
+const countStateChanges = (outcomes) =>
+  outcomes.filter((outcome, i) => i > 0 && outcome !== outcomes[i - 1]).length;
+
+/**
+ * Works out whether a monitor is flapping from its most recent outcomes.
+ * Flapping starts once the changes in the window reach the threshold and
+ * only stops once they fall below half of it, so a monitor hovering at
+ * the threshold doesn't keep flipping in and out.
+ */
+const detectFlapping = (recent, wasFlapping, policy) => {
+  if (!policy.flapDetection) return false;
+
+  const changes = countStateChanges(recent);
+  return wasFlapping
+    ? changes >= policy.flapThreshold / 2
+    : changes >= policy.flapThreshold;
+};
+
+/**
+ * Feeds a scheduled check's result into its monitor's streak, opening an
+ * incident once enough checks in a row have failed and resolving it once
+ * enough in a row have passed. Cancelled checks say nothing about the site
+ * and are skipped; degraded ones count as passing unless the policy says
+ * otherwise.
+ *
+ * The streak also keeps the monitor's last few outcomes for flap
+ * detection. Incidents still open and resolve while a monitor flaps, but
+ * are marked so notifications about them are held back.
+ *
+ * Returns { type: "opened" | "resolved", incident } when the check opened
+ * or resolved an incident, for notifications, and undefined otherwise.
+ */
+export const trackResult = async (monitor, result) => {
+  if (result.outcome === "cancelled") return;
+
+  const policy = normalizeIncidentPolicy(monitor.incidentPolicy);
+  const state =
+    result.outcome === "down" ||
+    (result.outcome === "degraded" && policy.degradedOpensIncidents)
+      ? "down"
+      : "up";
+  const streak = getStreak(monitor.id);
+  const recent = [...(streak?.recent || []), state].slice(-policy.flapWindow);
+  const wasFlapping = Boolean(streak?.flapping);
+  const flapping = detectFlapping(recent, wasFlapping, policy);
+  const current = {
+    ...(streak?.outcome === state
+      ? { outcome: state, count: streak.count + 1, first: streak.first }
+      : { outcome: state, count: 1, first: result }),
+    recent,
+    flapping,
+    ...(flapping && {
+      flappingSince: streak?.flappingSince || result.timestamp,
+    }),
+  };
+  setStreak(monitor.id, current);
+
+  let active = findActiveIncident(monitor.id);
+
+  // An open incident notes when its monitor starts and stops flapping
+  if (active && flapping !== wasFlapping) {
+    active = await updateIncident(active.id, {
+      flapping,
+      timeline: addEvent(
+        active.timeline,
+        flapping ? "flapping" : "flapping-stopped",
+        result.timestamp,
+        flapping
+          ? `Flapping: ${countStateChanges(recent)} state changes in the last ${recent.length} checks; notifications held back`
+          : "Stopped flapping; notifications resume",
+      ),
+    });
+  }
+
+  if (state === "down") {
+    if (!active && current.count >= policy.failureThreshold) {
+      const { first } = current;
+      let timeline = addEvent(
+        [],
+        "failing",
+        first.timestamp,
+        describeFailure(first),
+      );
+      timeline = addEvent(
+        timeline,
+        "opened",
+        result.timestamp,
+        `Opened after ${current.count} ${policy.degradedOpensIncidents ? "failed or degraded" : "failed"} checks in a row`,
+      );
+
+      const incident = await createIncident({
+        monitorId: monitor.id,
+        monitorName: monitor.name,
+        url: monitor.url,
+        status: "open",
+        startedAt: first.timestamp,
+        openedAt: result.timestamp,
+        endedAt: null,
+        resolvedAt: null,
+        durationMs: null,
+        firstError: {
+          errorMessage: getProblem(first),
+          stage: first.failedStage,
+        },
+        lastErrorMessage: getProblem(result),
+        failedChecks: current.count,
+        acknowledgedBy: null,
+        acknowledgedAt: null,
+        flapping,
+        timeline,
+      });
+      return { type: "opened", incident };
+    } else if (active) {
+      // Keep counting, and note when the site starts failing differently
+      await updateIncident(active.id, {
+        failedChecks: active.failedChecks + 1,
+        lastErrorMessage: getProblem(result),
+        timeline:
+          getProblem(result) !== active.lastErrorMessage &&
+          active.timeline.length < MAX_TIMELINE_EVENTS
+            ? addEvent(
+                active.timeline,
+                "error-changed",
+                result.timestamp,
+                describeFailure(result),
+              )
+            : active.timeline,
+      });
+    }
+  } else if (active && current.count >= policy.recoveryThreshold) {
+    // The outage ended with the first of the passing checks
+    const endedAt = current.first.timestamp;
+    let timeline = addEvent(
+      active.timeline,
+      "recovered",
+      endedAt,
+      "Checks passing again",
+    );
+    timeline = addEvent(
+      timeline,
+      "resolved",
+      result.timestamp,
+      `Resolved after ${current.count} passing checks in a row`,
+    );
+
+    const incident = await updateIncident(active.id, {
+      status: "resolved",
+      endedAt,
+      resolvedAt: result.timestamp,
+      durationMs: Date.parse(endedAt) - Date.parse(active.startedAt),
+      timeline,
+    });
+    return { type: "resolved", incident };
+  }
+};
+
+/**
+ * Records that someone is looking at an open incident. The route checks
+ * it hasn't been acknowledged or resolved already.
+ */
+export const acknowledgeIncident = (incident, name) => {
+  const now = new Date().toISOString();
+  return updateIncident(incident.id, {
+    status: "acknowledged",
+    acknowledgedBy: name,
+    acknowledgedAt: now,
+    timeline: addEvent(
+      incident.timeline,
+      "acknowledged",
+      now,
+      `Acknowledged by ${name}`,
+    ),
+  });
+};
+
+// Whether a monitor's recent checks are changing state too often to alert on
+export const isMonitorFlapping = (monitorId) =>
+  Boolean(getStreak(monitorId)?.flapping);
+
+/**
+ * Closes a deleted monitor's open incident, since no check will ever
+ * resolve it, and forgets its streak.
+ */
+export const closeMonitorIncidents = async (monitorId) => {
+  setStreak(monitorId, null);
+
+  const active = findActiveIncident(monitorId);
+  if (!active) return;
+
+  const now = new Date().toISOString();
+  await updateIncident(active.id, {
+    status: "resolved",
+    endedAt: now,
+    resolvedAt: now,
+    durationMs: Date.parse(now) - Date.parse(active.startedAt),
+    timeline: addEvent(active.timeline, "resolved", now, "Monitor deleted"),
+  });
+};
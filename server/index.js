@@ -1,10 +1,29 @@
 import express from "express";
 import cors from "cors";
-import dns from "dns";
-import https from "https";
-import http from "http";
 import { URL } from "url";
 import axios from "axios";
+import { runCheck } from "./checkEngine.js";
+import { findInvalidCheck, pickCheckOptions } from "./checkOptions.js";
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_SIZE,
+  assignBatchIds,
+  runBatch,
+} from "./batchRunner.js";
+import monitorRoutes from "./monitorRoutes.js";
+import incidentRoutes from "./incidentRoutes.js";
+import reportRoutes from "./reportRoutes.js";
+import notificationRoutes from "./notificationRoutes.js";
+import escalationRoutes from "./escalationRoutes.js";
+import { loadMonitors } from "./monitorStore.js";
+import { loadIncidents } from "./incidentStore.js";
+import { loadChannels } from "./notificationStore.js";
+import { loadDeliveries } from "./deliveryStore.js";
+import { loadPolicies } from "./escalationStore.js";
+import { resumeEscalations } from "./escalations.js";
+import { startScheduler } from "./scheduler.js";
+import { asyncRoute } from "./asyncRoute.js";
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -12,30 +31,11 @@ const PORT = process.env.PORT || 3001;
 app.use(cors());
 app.use(express.json());
 
-// Helper function to ensure URL has protocol
-const ensureProtocol = (url) => {
-  if (!url) return "";
-  if (!/^https?:\/\//i.test(url)) {
-    return `https://${url}`;
-  }
-  return url;
-};
-
-// Helper function to extract domain from URL
-const extractDomain = (url) => {
-  try {
-    const urlObj = new URL(ensureProtocol(url));
-    return urlObj.hostname;
-  } catch (e) {
-    return url;
-  }
-};
-
 // Function to get location from IP
-async function getLocationFromIP() {
+async function getLocationFromIP(signal) {
   try {
     // Using ipinfo.io service to get location data
-    const response = await axios.get("https://ipinfo.io/json");
+    const response = await axios.get("https://ipinfo.io/json", { signal });
     return {
       ip: response.data.ip,
       city: response.data.city,
@@ -55,418 +55,137 @@ async function getLocationFromIP() {
   }
 }
 
-// Endpoint to check website status
-app.post("/api/check-website", async (req, res) => {
-  const { url } = req.body;
-  if (!url) {
-    return res.status(400).json({ error: "URL is required" });
-  }
-
-  // Get location information
-  const locationInfo = await getLocationFromIP();
-
-  const processedUrl = ensureProtocol(url);
-  const domain = extractDomain(processedUrl);
-  const results = {
-    stages: [
-      { id: "dns", name: "DNS Resolution", status: "idle" },
-      { id: "connection", name: "Connection Establishment", status: "idle" },
-      { id: "tls", name: "TLS Handshake", status: "idle" },
-      { id: "firstByte", name: "First Byte Received", status: "idle" },
-      { id: "download", name: "Complete Download", status: "idle" },
-    ],
-    isComplete: false,
-    isSuccess: false,
-    totalResponseTime: 0,
-    errorMessage: "",
-    checkLocation: locationInfo.location,
-    checkIP: locationInfo.ip,
-  };
-
-  const startTime = Date.now();
-  let cumulativeTime = 0;
-
-  try {
-    // DNS Resolution Check
-    results.stages[0].status = "loading";
-    // Send initial update to client
-    res.write(JSON.stringify({ type: "update", data: results }) + "\n");
-
-    const dnsStartTime = Date.now();
-    try {
-      await new Promise((resolve, reject) => {
-<<<<<<< HEAD
-        dns.lookup(domain, (err) => {
-          if (err) {
-            reject(new Error("Domain not resolvable"));
-          } else {
-            resolve();
-=======
-        // Set a timeout for DNS resolution to prevent hanging
-        const dnsTimeout = setTimeout(() => {
-          reject(new Error("DNS resolution timed out after 5 seconds"));
-        }, 5000);
-
-        dns.lookup(domain, { all: true }, (err, addresses) => {
-          clearTimeout(dnsTimeout);
-          if (err || !addresses || addresses.length === 0) {
-            reject(new Error(err ? err.message : "Domain not resolvable"));
-          } else {
-            resolve(addresses);
->>>>>>> parent of 5ca6bf6 (made changes)
-          }
-        });
-      });
-
-      const dnsTime = Date.now() - dnsStartTime;
-      cumulativeTime += dnsTime;
-      results.stages[0].status = "success";
-      results.stages[0].timestamp = new Date().toLocaleTimeString([], {
-        hour: "2-digit",
-        minute: "2-digit",
-        second: "2-digit",
-      });
-      results.stages[0].durationMs = dnsTime;
-
-      // Send update to client
-      res.write(JSON.stringify({ type: "update", data: results }) + "\n");
-    } catch (error) {
-      const dnsTime = Date.now() - dnsStartTime;
-      cumulativeTime += dnsTime;
-      results.stages[0].status = "error";
-      results.stages[0].timestamp = new Date().toLocaleTimeString([], {
-        hour: "2-digit",
-        minute: "2-digit",
-        second: "2-digit",
-      });
-      results.stages[0].durationMs = dnsTime;
-      results.stages[0].errorDetails = error.message || "Failed to resolve DNS";
-
-      results.isComplete = true;
-      results.isSuccess = false;
-      results.totalResponseTime = cumulativeTime;
-      results.errorMessage =
-        "DNS resolution failed: " + (error.message || "Failed to resolve DNS");
+// Stops a request's checks if the client goes away before they finish
+const abortOnClose = (res) => {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+};
 
-      // Send final update to client
-      res.write(JSON.stringify({ type: "update", data: results }) + "\n");
-      res.end();
-      return;
+// Endpoint to check website status
+app.post(
+  "/api/check-website",
+  asyncRoute(async (req, res) => {
+    const invalidCheck = findInvalidCheck(req.body);
+    if (invalidCheck) {
+      return res.status(400).json({ error: invalidCheck });
     }
 
-    // Connection Establishment Check
-    results.stages[1].status = "loading";
-    res.write(JSON.stringify({ type: "update", data: results }) + "\n");
-
-    const connStartTime = Date.now();
-    try {
-      const protocol = processedUrl.startsWith("https") ? https : http;
-      await new Promise((resolve, reject) => {
-        const req = protocol.request(
-          processedUrl,
-          { method: "HEAD", timeout: 8000 },
-          (response) => {
-            resolve(response);
-          },
-        );
-
-        req.on("error", (error) => {
-          reject(error);
-        });
+    const signal = abortOnClose(res);
 
-        req.on("timeout", () => {
-          req.destroy();
-          reject(new Error("Connection timed out"));
-        });
+    // Get location information
+    const locationInfo = await getLocationFromIP(signal);
+    if (signal.aborted) return;
 
-        req.end();
-      });
-
-      const connTime = Date.now() - connStartTime;
-      cumulativeTime += connTime;
-      results.stages[1].status = "success";
-      results.stages[1].timestamp = new Date().toLocaleTimeString([], {
-        hour: "2-digit",
-        minute: "2-digit",
-        second: "2-digit",
-      });
-      results.stages[1].durationMs = connTime;
-
-      res.write(JSON.stringify({ type: "update", data: results }) + "\n");
-    } catch (error) {
-      const connTime = Date.now() - connStartTime;
-      cumulativeTime += connTime;
-
-      let errorMsg = "Connection failed - network may be down";
-      if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
-        errorMsg = "Connection timed out";
-      } else if (error.message) {
-        errorMsg = `Connection failed: ${error.message.split("\n")[0]}`;
-      }
-
-      results.stages[1].status = "error";
-      results.stages[1].timestamp = new Date().toLocaleTimeString([], {
-        hour: "2-digit",
-        minute: "2-digit",
-        second: "2-digit",
+    const results = await runCheck(req.body.url, pickCheckOptions(req.body), {
+      locationInfo,
+      signal,
+      onUpdate: (data) => {
+        if (signal.aborted) return;
+        res.write(JSON.stringify({ type: "update", data }) + "\n");
+      },
+    });
+    if (signal.aborted) return;
+
+    // Send final update
+    res.write(JSON.stringify({ type: "final", data: results }) + "\n");
+    res.end();
+  }),
+);
+
+// Endpoint to check a list of websites, streaming each result as it lands
+app.post(
+  "/api/check-batch",
+  asyncRoute(async (req, res) => {
+    const { items, concurrency = DEFAULT_BATCH_CONCURRENCY } = req.body;
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ error: "Batch needs a list of items" });
+    }
+    if (items.length > MAX_BATCH_SIZE) {
+      return res
+        .status(400)
+        .json({ error: `Batch is limited to ${MAX_BATCH_SIZE} items` });
+    }
+    if (
+      !Number.isInteger(concurrency) ||
+      concurrency < 1 ||
+      concurrency > MAX_BATCH_CONCURRENCY
+    ) {
+      return res.status(400).json({
+        error: `Concurrency must be between 1 and ${MAX_BATCH_CONCURRENCY}`,
       });
-      results.stages[1].durationMs = connTime;
-      results.stages[1].errorDetails = errorMsg;
-
-      results.isComplete = true;
-      results.isSuccess = false;
-      results.totalResponseTime = cumulativeTime;
-      results.errorMessage = errorMsg;
-
-      res.write(JSON.stringify({ type: "update", data: results }) + "\n");
-      res.end();
-      return;
     }
 
-    // TLS Handshake Check (only for HTTPS)
-    if (processedUrl.startsWith("https")) {
-      results.stages[2].status = "loading";
-      res.write(JSON.stringify({ type: "update", data: results }) + "\n");
-
-      const tlsStartTime = Date.now();
-      try {
-        await new Promise((resolve, reject) => {
-          const req = https.request(
-            processedUrl,
-            { method: "HEAD", timeout: 8000 },
-            (response) => {
-              resolve(response);
-            },
-          );
-
-          req.on("error", (error) => {
-            reject(error);
-          });
-
-          req.on("timeout", () => {
-            req.destroy();
-            reject(new Error("TLS handshake timed out"));
-          });
-
-          req.end();
-        });
-
-        const tlsTime = Date.now() - tlsStartTime;
-        cumulativeTime += tlsTime;
-        results.stages[2].status = "success";
-        results.stages[2].timestamp = new Date().toLocaleTimeString([], {
-          hour: "2-digit",
-          minute: "2-digit",
-          second: "2-digit",
-        });
-        results.stages[2].durationMs = tlsTime;
-
-        res.write(JSON.stringify({ type: "update", data: results }) + "\n");
-      } catch (error) {
-        const tlsTime = Date.now() - tlsStartTime;
-        cumulativeTime += tlsTime;
-
-        let errorMsg = "TLS handshake failed";
-        if (error.message) {
-          errorMsg = `TLS handshake failed: ${error.message.split("\n")[0]}`;
-        }
-
-        results.stages[2].status = "error";
-        results.stages[2].timestamp = new Date().toLocaleTimeString([], {
-          hour: "2-digit",
-          minute: "2-digit",
-          second: "2-digit",
-        });
-        results.stages[2].durationMs = tlsTime;
-        results.stages[2].errorDetails = errorMsg;
-
-        results.isComplete = true;
-        results.isSuccess = false;
-        results.totalResponseTime = cumulativeTime;
-        results.errorMessage = errorMsg;
-
-        res.write(JSON.stringify({ type: "update", data: results }) + "\n");
-        res.end();
-        return;
+    const batchItems = assignBatchIds(items);
+    const ids = new Set();
+    for (const item of batchItems) {
+      if (ids.has(item.id)) {
+        return res.status(400).json({ error: `Duplicate item id: ${item.id}` });
       }
-    } else {
-      // Skip TLS for HTTP
-      results.stages[2].status = "success";
-      results.stages[2].timestamp = new Date().toLocaleTimeString([], {
-        hour: "2-digit",
-        minute: "2-digit",
-        second: "2-digit",
-      });
-      results.stages[2].durationMs = 0;
-      results.stages[2].errorDetails = "Skipped (HTTP)";
+      ids.add(item.id);
 
-      res.write(JSON.stringify({ type: "update", data: results }) + "\n");
+      const invalidCheck = findInvalidCheck(item);
+      if (invalidCheck) {
+        return res
+          .status(400)
+          .json({ error: `Item ${item.id}: ${invalidCheck}` });
+      }
     }
 
-    // First Byte and Download Check
-    results.stages[3].status = "loading";
-    res.write(JSON.stringify({ type: "update", data: results }) + "\n");
-
-    const fbStartTime = Date.now();
-    try {
-      const protocol = processedUrl.startsWith("https") ? https : http;
-      let receivedFirstByte = false;
-
-      await new Promise((resolve, reject) => {
-        const req = protocol.request(
-          processedUrl,
-          { timeout: 15000 },
-          (response) => {
-            response.once("data", () => {
-              if (!receivedFirstByte) {
-                receivedFirstByte = true;
-                const fbTime = Date.now() - fbStartTime;
-                cumulativeTime += fbTime;
-                results.stages[3].status = "success";
-                results.stages[3].timestamp = new Date().toLocaleTimeString(
-                  [],
-                  {
-                    hour: "2-digit",
-                    minute: "2-digit",
-                    second: "2-digit",
-                  },
-                );
-                results.stages[3].durationMs = fbTime;
-
-                // Start download check
-                results.stages[4].status = "loading";
-                res.write(
-                  JSON.stringify({ type: "update", data: results }) + "\n",
-                );
-              }
-            });
-
-            let data = [];
-            response.on("data", (chunk) => {
-              data.push(chunk);
-            });
-
-            response.on("end", () => {
-              // If we didn't get any data but got a response, mark first byte as success
-              if (!receivedFirstByte) {
-                receivedFirstByte = true;
-                const fbTime = Date.now() - fbStartTime;
-                cumulativeTime += fbTime;
-                results.stages[3].status = "success";
-                results.stages[3].timestamp = new Date().toLocaleTimeString(
-                  [],
-                  {
-                    hour: "2-digit",
-                    minute: "2-digit",
-                    second: "2-digit",
-                  },
-                );
-                results.stages[3].durationMs = fbTime;
-
-                // Start download check
-                results.stages[4].status = "loading";
-                res.write(
-                  JSON.stringify({ type: "update", data: results }) + "\n",
-                );
-              }
-
-              const dlTime =
-                Date.now() -
-                (fbStartTime + (results.stages[3].durationMs || 0));
-              cumulativeTime += dlTime;
-              results.stages[4].status = "success";
-              results.stages[4].timestamp = new Date().toLocaleTimeString([], {
-                hour: "2-digit",
-                minute: "2-digit",
-                second: "2-digit",
-              });
-              results.stages[4].durationMs = dlTime;
-
-              results.isComplete = true;
-              results.isSuccess = true;
-              results.totalResponseTime = cumulativeTime;
+    const signal = abortOnClose(res);
+    const write = (line) => {
+      if (!signal.aborted) res.write(JSON.stringify(line) + "\n");
+    };
 
-              res.write(
-                JSON.stringify({ type: "update", data: results }) + "\n",
-              );
-              resolve();
-            });
-          },
-        );
+    // Every item is checked from the same place, so look it up once
+    const locationInfo = await getLocationFromIP(signal);
+    if (signal.aborted) return;
 
-        req.on("error", (error) => {
-          reject(error);
-        });
+    const summary = await runBatch(
+      batchItems,
+      { concurrency, locationInfo, signal },
+      {
+        onStart: (item) => write({ type: "start", id: item.id, url: item.url }),
+        onResult: (item, data) => write({ type: "result", id: item.id, data }),
+      },
+    );
+    if (signal.aborted) return;
 
-        req.on("timeout", () => {
-          req.destroy();
-          reject(new Error("Request timed out"));
-        });
+    write({ type: "summary", data: summary });
+    res.end();
+  }),
+);
 
-        req.end();
-      });
-    } catch (error) {
-      let errorMsg = "Request failed";
-      if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
-        errorMsg = "Request timed out";
-      } else if (error.message) {
-        errorMsg = error.message.split("\n")[0];
-      }
+// Scheduled monitors and their stored results
+app.use("/api/monitors", monitorRoutes);
 
-      if (results.stages[3].status === "loading") {
-        const fbTime = Date.now() - fbStartTime;
-        cumulativeTime += fbTime;
-        results.stages[3].status = "error";
-        results.stages[3].timestamp = new Date().toLocaleTimeString([], {
-          hour: "2-digit",
-          minute: "2-digit",
-          second: "2-digit",
-        });
-        results.stages[3].durationMs = fbTime;
-        results.stages[3].errorDetails = errorMsg;
-      } else {
-        const dlTime =
-          Date.now() - (fbStartTime + (results.stages[3].durationMs || 0));
-        cumulativeTime += dlTime;
-        results.stages[4].status = "error";
-        results.stages[4].timestamp = new Date().toLocaleTimeString([], {
-          hour: "2-digit",
-          minute: "2-digit",
-          second: "2-digit",
-        });
-        results.stages[4].durationMs = dlTime;
-        results.stages[4].errorDetails = errorMsg;
-      }
+// Incidents opened and resolved from monitors' results
+app.use("/api/incidents", incidentRoutes);
 
-      results.isComplete = true;
-      results.isSuccess = false;
-      results.totalResponseTime = cumulativeTime;
-      results.errorMessage = errorMsg;
-    }
-  } catch (error) {
-    const errorTime = Date.now() - startTime;
-    const errorMsg = error.message
-      ? error.message.split("\n")[0]
-      : "An unexpected error occurred";
+// Uptime summaries and monthly SLA reports built from monitors' results
+app.use("/api/reports", reportRoutes);
 
-    results.isComplete = true;
-    results.isSuccess = false;
-    results.totalResponseTime = errorTime;
-    results.errorMessage = errorMsg;
-  }
+// Channels that are told when incidents open and resolve
+app.use("/api/notifications", notificationRoutes);
 
-  // Send final update
-  res.write(JSON.stringify({ type: "final", data: results }) + "\n");
-  res.end();
-});
+// Policies that notify channels in levels until an incident is acknowledged
+app.use("/api/escalation-policies", escalationRoutes);
 
 // Simple health check endpoint
 app.get("/api/health", (req, res) => {
   res.json({ status: "ok" });
 });
 
-<<<<<<< HEAD
-=======
+// Unexpected errors from the routes above; a streamed response that has
+// already started is left for Express to close
+app.use((error, req, res, next) => {
+  console.error(`Error handling ${req.method} ${req.originalUrl}:`, error);
+  if (res.headersSent) return next(error);
+  res.status(500).json({ error: "Something went wrong on the server" });
+});
+
 // Serve static files if in production
 if (process.env.NODE_ENV === "production") {
   import("path").then((path) => {
@@ -488,7 +207,18 @@ if (process.env.NODE_ENV === "production") {
   });
 }
 
->>>>>>> parent of 5ca6bf6 (made changes)
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
+// Monitors are loaded before listening so the API never sees an empty list
+loadMonitors().then(async (monitors) => {
+  await loadIncidents();
+  await loadChannels();
+  await loadDeliveries();
+  await loadPolicies();
+  resumeEscalations();
+
+  startScheduler({ getLocation: () => getLocationFromIP() });
+  console.log(`Scheduled ${monitors.length} monitors`);
+
+  app.listen(PORT, () => {
+    console.log(`Server running on port ${PORT}`);
+  });
 });
@@ -0,0 +1,143 @@
+import express from "express";
+import {
+  findInvalidMonitor,
+  findInvalidSchedule,
+  pickMonitorFields,
+  pickSchedule,
+  trackPausedPeriods,
+} from "./monitors.js";
+import { previewRunTimes } from "./schedule.js";
+import { closeMonitorIncidents, isMonitorFlapping } from "./incidents.js";
+import {
+  createMonitor,
+  deleteMonitor,
+  getMonitor,
+  listMonitors,
+  readResults,
+  updateMonitor,
+} from "./monitorStore.js";
+import {
+  getNextRunAt,
+  isMonitorRunning,
+  scheduleMonitor,
+  unscheduleMonitor,
+} from "./scheduler.js";
+import { asyncRoute } from "./asyncRoute.js";
+
+// Most results returned from the results endpoint in one go
+const MAX_RESULTS_LIMIT = 1000;
+
+const router = express.Router();
+
+// Adds what the scheduler and incident tracking know about a monitor to
+// the stored record
+const withSchedule = (monitor) => ({
+  ...monitor,
+  nextRunAt: getNextRunAt(monitor.id),
+  isRunning: isMonitorRunning(monitor.id),
+  isFlapping: isMonitorFlapping(monitor.id),
+});
+
+router.get("/", (req, res) => {
+  res.json(listMonitors().map(withSchedule));
+});
+
+router.post(
+  "/",
+  asyncRoute(async (req, res) => {
+    const invalidMonitor = findInvalidMonitor(req.body);
+    if (invalidMonitor) {
+      return res.status(400).json({ error: invalidMonitor });
+    }
+
+    const fields = pickMonitorFields(req.body);
+    const monitor = await createMonitor({
+      ...fields,
+      pausedPeriods: trackPausedPeriods(null, fields.paused),
+    });
+    scheduleMonitor(monitor.id);
+    res.status(201).json(withSchedule(monitor));
+  }),
+);
+
+// Lists the next run times a schedule would give, for the monitor editor.
+// Pass the id when editing so interval runs land in the monitor's own slot.
+router.post("/schedule-preview", (req, res) => {
+  // The id places interval runs, so editing a monitor previews its own
+  if (req.body.id !== undefined && typeof req.body.id !== "string") {
+    return res.status(400).json({ error: "Monitor id must be text" });
+  }
+  const invalidSchedule = findInvalidSchedule(req.body);
+  if (invalidSchedule) {
+    return res.status(400).json({ error: invalidSchedule });
+  }
+
+  const runs = previewRunTimes({
+    id: req.body.id || "",
+    ...pickSchedule(req.body),
+  });
+  res.json({ runs: runs.map((runAt) => new Date(runAt).toISOString()) });
+});
+
+router.get("/:id", (req, res) => {
+  const monitor = getMonitor(req.params.id);
+  if (!monitor) {
+    return res.status(404).json({ error: "Monitor not found" });
+  }
+  res.json(withSchedule(monitor));
+});
+
+// Replaces a monitor's settings; pausing and resuming go through here too
+router.put(
+  "/:id",
+  asyncRoute(async (req, res) => {
+    const existing = getMonitor(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: "Monitor not found" });
+    }
+    const invalidMonitor = findInvalidMonitor(req.body);
+    if (invalidMonitor) {
+      return res.status(400).json({ error: invalidMonitor });
+    }
+
+    unscheduleMonitor(req.params.id);
+    const fields = pickMonitorFields(req.body);
+    const monitor = await updateMonitor(req.params.id, {
+      ...fields,
+      pausedPeriods: trackPausedPeriods(existing, fields.paused),
+    });
+    scheduleMonitor(monitor.id);
+    res.json(withSchedule(monitor));
+  }),
+);
+
+router.delete(
+  "/:id",
+  asyncRoute(async (req, res) => {
+    unscheduleMonitor(req.params.id);
+    if (!(await deleteMonitor(req.params.id))) {
+      return res.status(404).json({ error: "Monitor not found" });
+    }
+    await closeMonitorIncidents(req.params.id);
+    res.status(204).end();
+  }),
+);
+
+router.get(
+  "/:id/results",
+  asyncRoute(async (req, res) => {
+    if (!getMonitor(req.params.id)) {
+      return res.status(404).json({ error: "Monitor not found" });
+    }
+
+    const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RESULTS_LIMIT) {
+      return res.status(400).json({
+        error: `Limit must be between 1 and ${MAX_RESULTS_LIMIT}`,
+      });
+    }
+    res.json(await readResults(req.params.id, { limit }));
+  }),
+);
+
+export default router;
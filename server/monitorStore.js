@@ -0,0 +1,206 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { fileURLToPath } from "url";
+
+// Monitors live in one JSON file; each monitor's results are appended to
+// their own NDJSON file so a check never rewrites the whole history
+export const DATA_DIR =
+  process.env.MONITOR_DATA_DIR ||
+  path.join(path.dirname(fileURLToPath(import.meta.url)), "../data");
+const MONITORS_FILE = path.join(DATA_DIR, "monitors.json");
+const RESULTS_DIR = path.join(DATA_DIR, "results");
+
+// How long to wait after a change before writing monitors.json, so a burst
+// of check results costs one write
+const SAVE_DELAY_MS = 1000;
+
+// Results older than this are pruned; the default keeps a year of monthly
+// SLA reports
+const RESULT_RETENTION_DAYS = Number(process.env.RESULT_RETENTION_DAYS) || 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Results files are read backwards in chunks this big
+const READ_CHUNK_BYTES = 64 * 1024;
+
+const monitors = new Map();
+let saveTimer = null;
+let pendingWrite = Promise.resolve();
+// Appends and prunes of each monitor's results file, in order
+const resultWrites = new Map();
+const lastPrunedAt = new Map();
+
+const resultsFile = (id) => path.join(RESULTS_DIR, `${id}.ndjson`);
+
+// Helper function to write monitors.json without leaving it half-written
+const writeMonitors = async () => {
+  const tempFile = `${MONITORS_FILE}.tmp`;
+  await fs.writeFile(
+    tempFile,
+    JSON.stringify([...monitors.values()], null, 2) + "\n",
+  );
+  await fs.rename(tempFile, MONITORS_FILE);
+};
+
+// Writes are chained so two saves never race on the temp file
+const saveNow = () => {
+  clearTimeout(saveTimer);
+  saveTimer = null;
+  pendingWrite = pendingWrite
+    .then(writeMonitors)
+    .catch((error) => console.error("Error saving monitors:", error));
+  return pendingWrite;
+};
+
+const saveSoon = () => {
+  if (!saveTimer) saveTimer = setTimeout(saveNow, SAVE_DELAY_MS);
+};
+
+/**
+ * Reads saved monitors from disk. Must finish before anything else in this
+ * module is used; a missing data directory just means no monitors yet.
+ */
+export const loadMonitors = async () => {
+  await fs.mkdir(RESULTS_DIR, { recursive: true });
+  try {
+    const saved = JSON.parse(await fs.readFile(MONITORS_FILE, "utf8"));
+    saved.forEach((monitor) => monitors.set(monitor.id, monitor));
+  } catch (error) {
+    if (error.code !== "ENOENT") throw error;
+  }
+  return [...monitors.values()];
+};
+
+export const listMonitors = () => [...monitors.values()];
+
+export const getMonitor = (id) => monitors.get(id);
+
+export const createMonitor = async (fields) => {
+  const now = new Date().toISOString();
+  const monitor = {
+    id: randomUUID(),
+    ...fields,
+    createdAt: now,
+    updatedAt: now,
+    lastResult: null,
+  };
+  monitors.set(monitor.id, monitor);
+  await saveNow();
+  return monitor;
+};
+
+export const updateMonitor = async (id, fields) => {
+  const monitor = monitors.get(id);
+  if (!monitor) return undefined;
+
+  const updated = {
+    ...monitor,
+    ...fields,
+    updatedAt: new Date().toISOString(),
+  };
+  monitors.set(id, updated);
+  await saveNow();
+  return updated;
+};
+
+export const deleteMonitor = async (id) => {
+  if (!monitors.delete(id)) return false;
+  await saveNow();
+  await fs.rm(resultsFile(id), { force: true });
+  return true;
+};
+
+// Helper function to drop results past the retention period, rewriting
+// the file without leaving it half-written
+const pruneResults = async (id) => {
+  const cutoff = Date.now() - RESULT_RETENTION_DAYS * DAY_MS;
+  const file = resultsFile(id);
+  const lines = (await fs.readFile(file, "utf8")).split("\n").filter(Boolean);
+  const kept = lines.filter(
+    (line) => Date.parse(JSON.parse(line).timestamp) >= cutoff,
+  );
+  if (kept.length === lines.length) return;
+
+  const tempFile = `${file}.tmp`;
+  await fs.writeFile(tempFile, kept.map((line) => line + "\n").join(""));
+  await fs.rename(tempFile, file);
+};
+
+/**
+ * Stores one scheduled check's result: appended to the monitor's history
+ * and kept as its lastResult. Results for a monitor deleted while its
+ * check was running are dropped. Once a day, appending also prunes
+ * results older than RESULT_RETENTION_DAYS.
+ */
+export const recordResult = async (id, result) => {
+  const monitor = monitors.get(id);
+  if (!monitor) return;
+
+  monitors.set(id, { ...monitor, lastResult: result });
+  saveSoon();
+
+  const prune = Date.now() - (lastPrunedAt.get(id) || 0) >= DAY_MS;
+  if (prune) lastPrunedAt.set(id, Date.now());
+  const write = (resultWrites.get(id) || Promise.resolve())
+    .catch(() => {})
+    .then(async () => {
+      await fs.appendFile(resultsFile(id), JSON.stringify(result) + "\n");
+      if (prune) await pruneResults(id);
+    });
+  resultWrites.set(id, write);
+  await write;
+};
+
+/**
+ * Reads a monitor's stored results, newest first. The file is read from
+ * its end, stopping once `limit` results are read or after the first
+ * result `until` returns true for, so recent results cost the same however
+ * long the history is.
+ */
+export const readResults = async (id, { limit, until } = {}) => {
+  let handle;
+  try {
+    handle = await fs.open(resultsFile(id), "r");
+  } catch (error) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+
+  try {
+    const results = [];
+    let position = (await handle.stat()).size;
+    // Start of the line that runs on into the chunk read before
+    let partial = Buffer.alloc(0);
+
+    while (position > 0) {
+      const length = Math.min(READ_CHUNK_BYTES, position);
+      position -= length;
+      const chunk = Buffer.alloc(length);
+      await handle.read(chunk, 0, length, position);
+      const data = Buffer.concat([chunk, partial]);
+
+      // Bytes before the first newline may be the end of an earlier line
+      const start = position > 0 ? data.indexOf(0x0a) + 1 : 0;
+      partial = data.subarray(0, start);
+      if (position > 0 && start === 0) {
+        partial = data;
+        continue;
+      }
+
+      const lines = data
+        .subarray(start)
+        .toString("utf8")
+        .split("\n")
+        .filter(Boolean)
+        .reverse();
+      for (const line of lines) {
+        const result = JSON.parse(line);
+        results.push(result);
+        if (results.length === limit || until?.(result)) return results;
+      }
+    }
+    return results;
+  } finally {
+    await handle.close();
+  }
+};
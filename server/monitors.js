@@ -0,0 +1,219 @@
+import { extractDomain } from "./checkEngine.js";
+import { findInvalidCheck, pickCheckOptions } from "./checkOptions.js";
+import {
+  DEFAULT_TIMEZONE,
+  findInvalidActiveWindows,
+  findInvalidCron,
+  getNextRunTime,
+  isValidTimezone,
+} from "./schedule.js";
+import {
+  findInvalidIncidentPolicy,
+  normalizeIncidentPolicy,
+} from "./incidents.js";
+
+// Shortest and longest gap allowed between a monitor's checks
+export const MIN_INTERVAL_SECONDS = 10;
+export const MAX_INTERVAL_SECONDS = 24 * 60 * 60;
+
+export const DEFAULT_INTERVAL_SECONDS = 60;
+
+// Most maintenance windows a monitor keeps
+const MAX_MAINTENANCE_WINDOWS = 100;
+
+const MAX_GROUP_LENGTH = 100;
+
+// Returns why a monitor's schedule can't be used, if it can't
+export const findInvalidSchedule = ({
+  intervalSeconds = DEFAULT_INTERVAL_SECONDS,
+  cron,
+  timezone = DEFAULT_TIMEZONE,
+  activeWindows,
+}) => {
+  if (
+    !Number.isInteger(intervalSeconds) ||
+    intervalSeconds < MIN_INTERVAL_SECONDS ||
+    intervalSeconds > MAX_INTERVAL_SECONDS
+  ) {
+    return `Interval must be a whole number of seconds between ${MIN_INTERVAL_SECONDS} and ${MAX_INTERVAL_SECONDS}`;
+  }
+  if (cron !== undefined && cron !== null && cron !== "") {
+    const invalidCron = findInvalidCron(cron);
+    if (invalidCron) return invalidCron;
+  }
+  if (!isValidTimezone(timezone)) {
+    return `Unknown time zone: ${timezone}`;
+  }
+
+  const invalidWindows = findInvalidActiveWindows(activeWindows);
+  if (invalidWindows) return invalidWindows;
+
+  // Catches schedules like "0 0 31 2 *", or cron times that never fall in
+  // an active window
+  const runAt = getNextRunTime(
+    {
+      id: "",
+      ...pickSchedule({ intervalSeconds, cron, timezone, activeWindows }),
+    },
+    Date.now(),
+    { jitter: false },
+  );
+  return runAt === null
+    ? "Schedule never runs: no run time falls within the next five years"
+    : null;
+};
+
+// Picks the schedule fields out of a request body
+export const pickSchedule = ({
+  intervalSeconds = DEFAULT_INTERVAL_SECONDS,
+  cron,
+  timezone = DEFAULT_TIMEZONE,
+  activeWindows = [],
+}) => ({
+  intervalSeconds,
+  // A cron expression takes over from the interval
+  cron: cron?.trim() || null,
+  timezone,
+  activeWindows: activeWindows.map(({ days, start, end }) => ({
+    days,
+    start,
+    end,
+  })),
+});
+
+// Returns why a monitor's maintenance windows can't be used, if they can't
+export const findInvalidMaintenanceWindows = (windows) => {
+  if (windows === undefined) return null;
+  if (!Array.isArray(windows)) return "Maintenance windows must be a list";
+  if (windows.length > MAX_MAINTENANCE_WINDOWS) {
+    return `A monitor can have at most ${MAX_MAINTENANCE_WINDOWS} maintenance windows`;
+  }
+
+  for (const window of windows) {
+    const start = Date.parse(window?.start);
+    const end = Date.parse(window?.end);
+    if (Number.isNaN(start) || Number.isNaN(end)) {
+      return "Maintenance windows need a start and end time";
+    }
+    if (start >= end) return "A maintenance window must end after it starts";
+    if (window.note !== undefined && typeof window.note !== "string") {
+      return "Maintenance window notes must be text";
+    }
+  }
+  return null;
+};
+
+// Whether a time falls in one of a monitor's maintenance windows
+export const isInMaintenance = (monitor, time) =>
+  (monitor.maintenanceWindows || []).some(
+    (window) =>
+      time >= Date.parse(window.start) && time < Date.parse(window.end),
+  );
+
+/**
+ * Keeps the list of periods a monitor spent paused up to date, so uptime
+ * reports can leave them out. The last period stays open until resumed.
+ */
+export const trackPausedPeriods = (
+  monitor,
+  paused,
+  now = new Date().toISOString(),
+) => {
+  const periods = monitor?.pausedPeriods || [];
+  if (paused === Boolean(monitor?.paused)) return periods;
+
+  return paused
+    ? [...periods, { start: now, end: null }]
+    : periods.map((period) =>
+        period.end === null ? { ...period, end: now } : period,
+      );
+};
+
+// Returns why a monitor with these fields can't be saved, if it can't
+export const findInvalidMonitor = ({
+  name,
+  url,
+  group,
+  options = {},
+  paused,
+  incidentPolicy,
+  maintenanceWindows,
+  ...schedule
+}) => {
+  if (name !== undefined && typeof name !== "string") {
+    return "Monitor name must be text";
+  }
+  if (group !== undefined && group !== null && typeof group !== "string") {
+    return "Monitor group must be text";
+  }
+  if (group?.trim().length > MAX_GROUP_LENGTH) {
+    return `Monitor group must be under ${MAX_GROUP_LENGTH} characters`;
+  }
+  if (paused !== undefined && typeof paused !== "boolean") {
+    return "Paused must be true or false";
+  }
+  if (typeof options !== "object" || options === null) {
+    return "Monitor options must be an object";
+  }
+  return (
+    findInvalidCheck({ ...options, url }) ||
+    findInvalidSchedule(schedule) ||
+    findInvalidIncidentPolicy(incidentPolicy) ||
+    findInvalidMaintenanceWindows(maintenanceWindows)
+  );
+};
+
+// Picks the fields a client may set on a monitor out of a request body
+export const pickMonitorFields = ({
+  name,
+  url,
+  group,
+  options = {},
+  paused = false,
+  incidentPolicy,
+  maintenanceWindows = [],
+  ...schedule
+}) => ({
+  name: name?.trim() || extractDomain(url),
+  url,
+  // Monitors sharing a group can share an escalation policy
+  group: group?.trim() || null,
+  options: pickCheckOptions(options),
+  ...pickSchedule(schedule),
+  incidentPolicy: normalizeIncidentPolicy(incidentPolicy),
+  maintenanceWindows: maintenanceWindows
+    .map(({ start, end, note }) => ({
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      ...(note?.trim() && { note: note.trim() }),
+    }))
+    .sort((a, b) => a.start.localeCompare(b.start)),
+  paused,
+});
+
+/**
+ * Boils a check's full results down to the record kept for every scheduled
+ * run: enough to chart response times and work out uptime, without the
+ * per-stage detail.
+ */
+export const summarizeResult = (results, timestamp) => {
+  const failedStage = results.stages.find((s) => s.status === "error");
+  return {
+    timestamp,
+    outcome: results.isCancelled
+      ? "cancelled"
+      : !results.isSuccess
+        ? "down"
+        : results.isDegraded
+          ? "degraded"
+          : "up",
+    statusCode: results.statusCode,
+    responseTime: results.totalResponseTime,
+    errorMessage: results.errorMessage || undefined,
+    degradedReasons: results.isDegraded ? results.degradedReasons : undefined,
+    checkLocation: results.checkLocation,
+    failedStage: failedStage
+      ? { id: failedStage.id, name: failedStage.name }
+      : undefined,
+  };
+};
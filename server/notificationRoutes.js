@@ -0,0 +1,96 @@
+import express from "express";
+import {
+  findInvalidChannel,
+  pickChannelFields,
+  redactChannel,
+  sendTestNotification,
+} from "./notifications.js";
+import { deleteChannelDeliveries, listDeliveries } from "./deliveryStore.js";
+import {
+  createChannel,
+  deleteChannel,
+  getChannel,
+  listChannels,
+  updateChannel,
+} from "./notificationStore.js";
+import { asyncRoute } from "./asyncRoute.js";
+
+const router = express.Router();
+
+router.get("/channels", (req, res) => {
+  res.json(listChannels().map(redactChannel));
+});
+
+router.post(
+  "/channels",
+  asyncRoute(async (req, res) => {
+    const invalidChannel = findInvalidChannel(req.body);
+    if (invalidChannel) {
+      return res.status(400).json({ error: invalidChannel });
+    }
+
+    const channel = await createChannel(pickChannelFields(req.body));
+    res.status(201).json(redactChannel(channel));
+  }),
+);
+
+// Sends a test notification with the settings given, which needn't be
+// saved yet. Pass the id when editing so saved secrets are used.
+router.post(
+  "/channels/test",
+  asyncRoute(async (req, res) => {
+    const existing = req.body.id ? getChannel(req.body.id) : undefined;
+    const invalidChannel = findInvalidChannel(req.body, existing);
+    if (invalidChannel) {
+      return res.status(400).json({ error: invalidChannel });
+    }
+
+    try {
+      await sendTestNotification(pickChannelFields(req.body, existing));
+      res.json({ sent: true });
+    } catch (error) {
+      res.status(502).json({ error: error.message || "Sending failed" });
+    }
+  }),
+);
+
+router.put(
+  "/channels/:id",
+  asyncRoute(async (req, res) => {
+    const existing = getChannel(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: "Channel not found" });
+    }
+    const invalidChannel = findInvalidChannel(req.body, existing);
+    if (invalidChannel) {
+      return res.status(400).json({ error: invalidChannel });
+    }
+
+    const channel = await updateChannel(
+      req.params.id,
+      pickChannelFields(req.body, existing),
+    );
+    res.json(redactChannel(channel));
+  }),
+);
+
+router.delete(
+  "/channels/:id",
+  asyncRoute(async (req, res) => {
+    if (!(await deleteChannel(req.params.id))) {
+      return res.status(404).json({ error: "Channel not found" });
+    }
+    deleteChannelDeliveries(req.params.id);
+    res.status(204).end();
+  }),
+);
+
+// A webhook channel's recent deliveries, newest first, with every attempt
+router.get("/channels/:id/deliveries", (req, res) => {
+  if (!getChannel(req.params.id)) {
+    return res.status(404).json({ error: "Channel not found" });
+  }
+  res.json(listDeliveries(req.params.id));
+});
+
+export default router;
@@ -0,0 +1,82 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { DATA_DIR } from "./monitorStore.js";
+
+// Notification channels, including their credentials, so keep the data
+// directory private
+const CHANNELS_FILE = path.join(DATA_DIR, "notifications.json");
+
+const channels = new Map();
+let pendingWrite = Promise.resolve();
+
+// Helper function to write notifications.json without leaving it half-written
+const writeChannels = async () => {
+  const tempFile = `${CHANNELS_FILE}.tmp`;
+  const data = { channels: [...channels.values()] };
+  await fs.writeFile(tempFile, JSON.stringify(data, null, 2) + "\n", {
+    mode: 0o600,
+  });
+  await fs.rename(tempFile, CHANNELS_FILE);
+};
+
+// Writes are chained so two saves never race on the temp file
+const saveNow = () => {
+  pendingWrite = pendingWrite
+    .then(writeChannels)
+    .catch((error) => console.error("Error saving notifications:", error));
+  return pendingWrite;
+};
+
+/**
+ * Reads saved notification channels from disk. Call after loadMonitors,
+ * which creates the data directory.
+ */
+export const loadChannels = async () => {
+  try {
+    const saved = JSON.parse(await fs.readFile(CHANNELS_FILE, "utf8"));
+    saved.channels.forEach((channel) => channels.set(channel.id, channel));
+  } catch (error) {
+    if (error.code !== "ENOENT") throw error;
+  }
+  return [...channels.values()];
+};
+
+// Lists channels in the order they were added
+export const listChannels = () =>
+  [...channels.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+export const getChannel = (id) => channels.get(id);
+
+export const createChannel = async (fields) => {
+  const now = new Date().toISOString();
+  const channel = {
+    id: randomUUID(),
+    ...fields,
+    createdAt: now,
+    updatedAt: now,
+  };
+  channels.set(channel.id, channel);
+  await saveNow();
+  return channel;
+};
+
+export const updateChannel = async (id, fields) => {
+  const channel = channels.get(id);
+  if (!channel) return undefined;
+
+  const updated = {
+    ...channel,
+    ...fields,
+    updatedAt: new Date().toISOString(),
+  };
+  channels.set(id, updated);
+  await saveNow();
+  return updated;
+};
+
+export const deleteChannel = async (id) => {
+  if (!channels.delete(id)) return false;
+  await saveNow();
+  return true;
+};
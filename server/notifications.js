@@ -0,0 +1,732 @@
+import { SMTP_SECURITY_MODES, sendMail } from "./smtpClient.js";
+import {
+  postWebhook,
+  toDiscordMessage,
+  toSlackMessage,
+  toTeamsMessage,
+} from "./chatWebhooks.js";
+import {
+  DEFAULT_WEBHOOK_TEMPLATE,
+  MIN_SECRET_LENGTH,
+  deliverWebhook,
+  findInvalidTemplate,
+  sendSignedWebhook,
+} from "./webhookDelivery.js";
+import {
+  DEFAULT_OPSGENIE_API_URL,
+  DEFAULT_PAGERDUTY_EVENTS_URL,
+  sendOpsgenieAlert,
+  sendPagerDutyEvent,
+} from "./alertRouting.js";
+import { formatDuration } from "./reports.js";
+import { escapeHtml } from "./html.js";
+import { listChannels } from "./notificationStore.js";
+import { findMonitorPolicy } from "./escalationStore.js";
+
+// What a channel can be told about: an incident opening because checks
+// failed, a monitor turning degraded, someone acknowledging an incident,
+// and its monitor recovering
+export const NOTIFICATION_EVENTS = [
+  "down",
+  "degraded",
+  "acknowledged",
+  "recovered",
+];
+
+const MAX_EMAIL_RECIPIENTS = 20;
+const EMAIL_PATTERN = /^[^\s@<>,;]+@[^\s@<>,;]+$/;
+
+// Limits on a channel's rate limit: at most so many messages in a window
+const MAX_RATE_LIMIT_MESSAGES = 1000;
+const MAX_RATE_LIMIT_WINDOW_MINUTES = 24 * 60;
+
+// Where links in notifications point; set APP_URL when the client is
+// served from somewhere other than this server
+const APP_URL = (
+  process.env.APP_URL || `http://localhost:${process.env.PORT || 3001}`
+).replace(/\/+$/, "");
+
+// Link that opens the app on a monitor's results
+export const getMonitorLink = (monitorId) =>
+  `${APP_URL}/?tab=monitors&monitor=${encodeURIComponent(monitorId)}`;
+
+const EVENT_TITLES = {
+  down: "is DOWN",
+  degraded: "is DEGRADED",
+  acknowledged: "was ACKNOWLEDGED",
+  recovered: "has RECOVERED",
+};
+
+// The monitor's status once the event has happened
+const EVENT_STATUSES = {
+  down: "down",
+  degraded: "degraded",
+  acknowledged: "acknowledged",
+  recovered: "up",
+  test: "test",
+};
+
+/**
+ * Describes an incident change once, for every channel to format its own
+ * way: a title, label/value fields and a link back to the monitor's
+ * results, plus raw variables for webhook templates. Fields with no value
+ * are left out. Stages are the full check's, which results don't keep.
+ * An acknowledgement isn't prompted by a check, so it has no result; a
+ * monitor turning DEGRADED without opening an incident has no incident.
+ */
+export const buildNotification = (
+  event,
+  { monitor, incident = {}, result = {}, stages = [] },
+) => {
+  const timestamp = new Date().toISOString();
+  const fields =
+    event === "acknowledged"
+      ? [
+          ["URL", monitor.url],
+          ["Acknowledged by", incident.acknowledgedBy],
+          ["Acknowledged at", incident.acknowledgedAt],
+          ["Started", incident.startedAt],
+          ["Failed checks", incident.failedChecks],
+        ]
+      : event === "recovered"
+        ? [
+            ["URL", monitor.url],
+            ["Down for", formatDuration(incident.durationMs)],
+            ["Started", incident.startedAt],
+            ["Recovered", incident.endedAt],
+            ["Failed checks", incident.failedChecks],
+            ["Checked from", result.checkLocation],
+          ]
+        : [
+            ["URL", monitor.url],
+            ["Failing stage", result.failedStage?.name],
+            ["Error", result.errorMessage],
+            ["Degraded because", result.degradedReasons?.join("; ")],
+            ["Checked from", result.checkLocation],
+            ["Checked at", result.timestamp],
+            ["Failed checks in a row", incident.failedChecks],
+          ];
+
+  const title = `${monitor.name} ${EVENT_TITLES[event]}`;
+  const link = getMonitorLink(monitor.id);
+
+  return {
+    event,
+    title,
+    fields: fields
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([label, value]) => ({ label, value: String(value) })),
+    link,
+    monitorId: monitor.id,
+    incidentId: incident.id ?? null,
+    timestamp: result.timestamp ?? timestamp,
+    variables: {
+      event,
+      status: EVENT_STATUSES[event],
+      title,
+      monitorId: monitor.id,
+      monitorName: monitor.name,
+      url: monitor.url,
+      statusCode: result.statusCode ?? null,
+      responseTime: result.responseTime ?? null,
+      errorMessage: result.errorMessage ?? null,
+      failedStage: result.failedStage?.name ?? null,
+      degradedReasons: result.degradedReasons ?? [],
+      stages: stages.map(({ id, name, status, durationMs }) => ({
+        id,
+        name,
+        status,
+        durationMs: durationMs ?? null,
+      })),
+      checkLocation: result.checkLocation ?? null,
+      checkedAt: result.timestamp ?? null,
+      incidentId: incident.id ?? null,
+      startedAt: incident.startedAt ?? null,
+      endedAt: incident.endedAt ?? null,
+      durationMs: incident.durationMs ?? null,
+      failedChecks: incident.failedChecks ?? null,
+      acknowledgedBy: incident.acknowledgedBy ?? null,
+      link,
+      timestamp,
+    },
+  };
+};
+
+// A made-up notification for checking a channel's settings; its
+// variables are samples so a webhook template can be tried out
+const buildTestNotification = () => {
+  const title = "Test notification from Website Status Checker";
+  const timestamp = new Date().toISOString();
+  return {
+    event: "test",
+    title,
+    fields: [
+      {
+        label: "Message",
+        value: "This channel is set up correctly and will receive alerts.",
+      },
+    ],
+    link: APP_URL,
+    timestamp,
+    variables: {
+      event: "test",
+      status: EVENT_STATUSES.test,
+      title,
+      monitorId: "test",
+      monitorName: "Example monitor",
+      url: "https://example.com/health",
+      statusCode: 503,
+      responseTime: 1234,
+      errorMessage: "Unexpected status 503 Service Unavailable",
+      failedStage: "HTTP Status",
+      degradedReasons: [],
+      stages: [
+        { id: "dns", name: "DNS Lookup", status: "success", durationMs: 12 },
+        { id: "status", name: "HTTP Status", status: "error", durationMs: 0 },
+      ],
+      checkLocation: "Test",
+      checkedAt: timestamp,
+      incidentId: "test",
+      startedAt: timestamp,
+      endedAt: null,
+      durationMs: null,
+      failedChecks: 1,
+      acknowledgedBy: null,
+      link: APP_URL,
+      timestamp,
+    },
+  };
+};
+
+// Helper function to lay a notification out as an email
+const toEmail = (notification) => ({
+  subject: notification.title,
+  text: [
+    notification.title,
+    "",
+    ...notification.fields.map(({ label, value }) => `${label}: ${value}`),
+    "",
+    `View results: ${notification.link}`,
+  ].join("\n"),
+  html: `<h2>${escapeHtml(notification.title)}</h2>
+<table cellpadding="4">
+${notification.fields
+  .map(
+    ({ label, value }) =>
+      `<tr><td><strong>${escapeHtml(label)}</strong></td><td>${escapeHtml(value)}</td></tr>`,
+  )
+  .join("\n")}
+</table>
+<p><a href="${escapeHtml(notification.link)}">View results</a></p>`,
+});
+
+// Returns why an email channel's settings can't be used, if they can't
+const findInvalidEmailConfig = ({
+  host,
+  port,
+  security = "starttls",
+  verifyCertificate = true,
+  username,
+  password,
+  from,
+  to,
+}) => {
+  if (typeof host !== "string" || !host.trim()) {
+    return "SMTP host is required";
+  }
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    return "SMTP port must be between 1 and 65535";
+  }
+  if (!SMTP_SECURITY_MODES.includes(security)) {
+    return `SMTP security must be one of ${SMTP_SECURITY_MODES.join(", ")}`;
+  }
+  if (typeof verifyCertificate !== "boolean") {
+    return "Verify certificate must be true or false";
+  }
+  if (username !== undefined && typeof username !== "string") {
+    return "SMTP username must be text";
+  }
+  if (password !== undefined && typeof password !== "string") {
+    return "SMTP password must be text";
+  }
+  if (typeof from !== "string" || !EMAIL_PATTERN.test(from.trim())) {
+    return "From must be an email address";
+  }
+  if (!Array.isArray(to) || to.length === 0) {
+    return "Add at least one recipient";
+  }
+  if (to.length > MAX_EMAIL_RECIPIENTS) {
+    return `An email channel can have at most ${MAX_EMAIL_RECIPIENTS} recipients`;
+  }
+  const invalid = to.find(
+    (address) =>
+      typeof address !== "string" || !EMAIL_PATTERN.test(address.trim()),
+  );
+  return invalid === undefined ? null : `Not an email address: ${invalid}`;
+};
+
+// Returns why a URL setting can't be used, if it can't
+const findInvalidUrl = (url, label) => {
+  if (typeof url !== "string" || !url.trim()) {
+    return `${label} is required`;
+  }
+  try {
+    const { protocol } = new URL(url.trim());
+    if (protocol !== "https:" && protocol !== "http:") {
+      return `${label} must start with https://`;
+    }
+  } catch {
+    return `${label} is not a valid URL`;
+  }
+  return null;
+};
+
+// Returns why a chat webhook channel's settings can't be used, if they can't
+const findInvalidWebhookConfig = ({ webhookUrl }) =>
+  findInvalidUrl(webhookUrl, "Webhook URL");
+
+// Helper function to register a chat service that takes JSON posted to a
+// webhook URL; the URL is its only setting, and is kept secret since
+// anyone with it can post
+const webhookChannel = (toMessage) => ({
+  secrets: ["webhookUrl"],
+  // The secret URL is where messages go, so keeping it can't move them
+  destination: () => [],
+  findInvalidConfig: findInvalidWebhookConfig,
+  pickConfig: ({ webhookUrl }) => ({ webhookUrl: webhookUrl?.trim() }),
+  send: (config, notification) =>
+    postWebhook(config.webhookUrl, toMessage(notification)),
+});
+
+// Returns why a signed webhook channel's settings can't be used, if they
+// can't
+const findInvalidSignedWebhookConfig = ({
+  url,
+  secret,
+  template = DEFAULT_WEBHOOK_TEMPLATE,
+}) => {
+  const invalidUrl = findInvalidUrl(url, "Webhook URL");
+  if (invalidUrl) return invalidUrl;
+  if (typeof secret !== "string" || secret.length < MIN_SECRET_LENGTH) {
+    return `Signing secret must be at least ${MIN_SECRET_LENGTH} characters`;
+  }
+  return findInvalidTemplate(template);
+};
+
+// Returns why a PagerDuty channel's settings can't be used, if they can't
+const findInvalidPagerDutyConfig = ({
+  routingKey,
+  eventsUrl = DEFAULT_PAGERDUTY_EVENTS_URL,
+}) => {
+  if (typeof routingKey !== "string" || !routingKey.trim()) {
+    return "Integration key is required";
+  }
+  return findInvalidUrl(eventsUrl, "Events API URL");
+};
+
+// Returns why an Opsgenie channel's settings can't be used, if they can't
+const findInvalidOpsgenieConfig = ({
+  apiKey,
+  apiUrl = DEFAULT_OPSGENIE_API_URL,
+}) => {
+  if (typeof apiKey !== "string" || !apiKey.trim()) {
+    return "API key is required";
+  }
+  return findInvalidUrl(apiUrl, "API URL");
+};
+
+/**
+ * How each type of channel is checked, stored and sent to. Secrets are
+ * kept on the server: they're left out of API responses, and an update
+ * without them keeps the saved ones unless the settings destination picks
+ * out, which say where they're sent, have changed. send is given the
+ * saved channel, except for tests. Types that keep alerts open until
+ * they're resolved only hear about incidents.
+ */
+const CHANNEL_TYPES = {
+  email: {
+    secrets: ["password"],
+    destination: ({ host, port }) => [String(host).trim(), port],
+    findInvalidConfig: findInvalidEmailConfig,
+    pickConfig: ({
+      host,
+      port,
+      security = "starttls",
+      verifyCertificate = true,
+      username,
+      password,
+      from,
+      to,
+    }) => ({
+      host: host.trim(),
+      port,
+      security,
+      verifyCertificate,
+      username: username?.trim() || undefined,
+      password: password || undefined,
+      from: from.trim(),
+      to: to.map((address) => address.trim()),
+    }),
+    send: (config, notification) =>
+      sendMail(config, {
+        from: config.from,
+        to: config.to,
+        ...toEmail(notification),
+      }),
+  },
+  slack: webhookChannel(toSlackMessage),
+  discord: webhookChannel(toDiscordMessage),
+  teams: webhookChannel(toTeamsMessage),
+  webhook: {
+    secrets: ["secret"],
+    destination: ({ url }) => [String(url).trim()],
+    findInvalidConfig: findInvalidSignedWebhookConfig,
+    pickConfig: ({ url, secret, template = DEFAULT_WEBHOOK_TEMPLATE }) => ({
+      url: url.trim(),
+      secret,
+      template,
+    }),
+    // Tests send once and report back; real notifications are retried and
+    // logged
+    send: (config, notification, channel) =>
+      channel
+        ? deliverWebhook(channel, notification)
+        : sendSignedWebhook(config, notification),
+  },
+  pagerduty: {
+    secrets: ["routingKey"],
+    destination: ({ eventsUrl = DEFAULT_PAGERDUTY_EVENTS_URL }) => [
+      String(eventsUrl).trim(),
+    ],
+    findInvalidConfig: findInvalidPagerDutyConfig,
+    pickConfig: ({ routingKey, eventsUrl = DEFAULT_PAGERDUTY_EVENTS_URL }) => ({
+      routingKey: routingKey.trim(),
+      eventsUrl: eventsUrl.trim(),
+    }),
+    send: sendPagerDutyEvent,
+    incidentsOnly: true,
+  },
+  opsgenie: {
+    secrets: ["apiKey"],
+    destination: ({ apiUrl = DEFAULT_OPSGENIE_API_URL }) => [
+      String(apiUrl).trim().replace(/\/+$/, ""),
+    ],
+    findInvalidConfig: findInvalidOpsgenieConfig,
+    // Request paths are added to the API URL, so it has no trailing slash
+    pickConfig: ({ apiKey, apiUrl = DEFAULT_OPSGENIE_API_URL }) => ({
+      apiKey: apiKey.trim(),
+      apiUrl: apiUrl.trim().replace(/\/+$/, ""),
+    }),
+    send: sendOpsgenieAlert,
+    incidentsOnly: true,
+  },
+};
+
+export const CHANNEL_TYPE_NAMES = Object.keys(CHANNEL_TYPES);
+
+// What each secret is called in messages asking for it again
+const SECRET_LABELS = {
+  webhookUrl: "Webhook URL",
+  password: "Password",
+  secret: "Signing secret",
+  routingKey: "Integration key",
+  apiKey: "API key",
+};
+
+// Whether new settings still send where the saved channel's do, so its
+// secrets may go there too
+const isSameDestination = (type, config, existing) =>
+  existing?.type === type &&
+  JSON.stringify(CHANNEL_TYPES[type].destination(config)) ===
+    JSON.stringify(CHANNEL_TYPES[type].destination(existing.config));
+
+// Fills in secrets left blank from the saved channel, when it's the same
+// type sending to the same place, so they can be edited without being
+// sent back
+const withSavedSecrets = (type, config, existing) => {
+  if (!isSameDestination(type, config, existing)) return config;
+  const merged = { ...config };
+  CHANNEL_TYPES[type].secrets.forEach((key) => {
+    if (!merged[key]) merged[key] = existing.config[key];
+  });
+  return merged;
+};
+
+// Returns why a rate limit can't be used, if it can't; null means none
+const findInvalidRateLimit = (rateLimit) => {
+  if (rateLimit === null || rateLimit === undefined) return null;
+  const { maxMessages, windowMinutes } = rateLimit;
+  if (
+    !Number.isInteger(maxMessages) ||
+    maxMessages < 1 ||
+    maxMessages > MAX_RATE_LIMIT_MESSAGES
+  ) {
+    return `Rate limit must allow 1 to ${MAX_RATE_LIMIT_MESSAGES} messages`;
+  }
+  if (
+    !Number.isInteger(windowMinutes) ||
+    windowMinutes < 1 ||
+    windowMinutes > MAX_RATE_LIMIT_WINDOW_MINUTES
+  ) {
+    return `Rate limit window must be 1 to ${MAX_RATE_LIMIT_WINDOW_MINUTES} minutes`;
+  }
+  return null;
+};
+
+/**
+ * Returns why a channel with these fields can't be saved, if it can't.
+ * Pass the saved channel when editing so blank secrets count as kept.
+ */
+export const findInvalidChannel = (
+  {
+    name,
+    type,
+    enabled,
+    events = NOTIFICATION_EVENTS,
+    monitorIds = [],
+    rateLimit,
+    config,
+  },
+  existing,
+) => {
+  if (!CHANNEL_TYPES[type]) {
+    return `Channel type must be one of ${CHANNEL_TYPE_NAMES.join(", ")}`;
+  }
+  if (name !== undefined && typeof name !== "string") {
+    return "Channel name must be text";
+  }
+  if (enabled !== undefined && typeof enabled !== "boolean") {
+    return "Enabled must be true or false";
+  }
+  if (
+    !Array.isArray(events) ||
+    events.some((event) => !NOTIFICATION_EVENTS.includes(event))
+  ) {
+    return `Events must be a list of ${NOTIFICATION_EVENTS.join(", ")}`;
+  }
+  if (
+    !Array.isArray(monitorIds) ||
+    monitorIds.some((id) => typeof id !== "string")
+  ) {
+    return "Monitor ids must be a list of ids";
+  }
+  const invalidRateLimit = findInvalidRateLimit(rateLimit);
+  if (invalidRateLimit) return invalidRateLimit;
+  // Skipping a resolve or acknowledgement would leave the alert open
+  if (rateLimit && CHANNEL_TYPES[type].incidentsOnly) {
+    return "Alert channels can't be rate limited";
+  }
+  if (typeof config !== "object" || config === null) {
+    return "Channel settings must be an object";
+  }
+  // A saved secret is never sent somewhere the user didn't enter it for
+  const blankSavedSecret =
+    existing?.type === type &&
+    CHANNEL_TYPES[type].secrets.find(
+      (key) => !config[key] && existing.config[key],
+    );
+  if (blankSavedSecret && !isSameDestination(type, config, existing)) {
+    return `${SECRET_LABELS[blankSavedSecret]} must be entered again when changing where the channel sends`;
+  }
+  return CHANNEL_TYPES[type].findInvalidConfig(
+    withSavedSecrets(type, config, existing),
+  );
+};
+
+/**
+ * Picks the fields a client may set on a channel out of a request body.
+ * Secrets left blank keep the existing channel's. No monitor ids means
+ * the channel hears about every monitor.
+ */
+export const pickChannelFields = (
+  {
+    name,
+    type,
+    enabled = true,
+    events = NOTIFICATION_EVENTS,
+    monitorIds = [],
+    rateLimit = null,
+    config,
+  },
+  existing,
+) => ({
+  name: name?.trim() || `${type} channel`,
+  type,
+  enabled,
+  events: NOTIFICATION_EVENTS.filter((event) => events.includes(event)),
+  monitorIds: [...new Set(monitorIds)],
+  rateLimit: rateLimit && {
+    maxMessages: rateLimit.maxMessages,
+    windowMinutes: rateLimit.windowMinutes,
+  },
+  config: CHANNEL_TYPES[type].pickConfig(
+    withSavedSecrets(type, config, existing),
+  ),
+});
+
+/**
+ * Leaves a channel's secrets out of what the API returns, noting which
+ * are set: a saved password shows up as hasPassword.
+ */
+export const redactChannel = (channel) => {
+  const config = { ...channel.config };
+  CHANNEL_TYPES[channel.type].secrets.forEach((key) => {
+    config[`has${key[0].toUpperCase()}${key.slice(1)}`] = Boolean(config[key]);
+    delete config[key];
+  });
+  return { ...channel, config };
+};
+
+// When each channel last sent, oldest first, and how many notifications
+// its rate limit has held back since
+const sendTimes = new Map();
+const heldBackCounts = new Map();
+
+// Takes one of a channel's messages for its rate limit window, or returns
+// false if they're all used. Alert channels saved with a rate limit before
+// those were turned away send everything.
+const takeRateLimitSlot = (channel, now) => {
+  if (!channel.rateLimit || CHANNEL_TYPES[channel.type].incidentsOnly) {
+    return true;
+  }
+
+  const { maxMessages, windowMinutes } = channel.rateLimit;
+  const windowStart = now - windowMinutes * 60 * 1000;
+  const recent = (sendTimes.get(channel.id) || []).filter(
+    (time) => time > windowStart,
+  );
+  const allowed = recent.length < maxMessages;
+  sendTimes.set(channel.id, allowed ? [...recent, now] : recent);
+  return allowed;
+};
+
+// Helper function to send to one channel, respecting its rate limit. The
+// first message after some were held back says how many.
+const sendToChannel = async (channel, notification) => {
+  if (!takeRateLimitSlot(channel, Date.now())) {
+    heldBackCounts.set(channel.id, (heldBackCounts.get(channel.id) || 0) + 1);
+    console.warn(
+      `Rate limit held back a ${notification.event} notification to ${channel.name}`,
+    );
+    return;
+  }
+
+  const heldBack = heldBackCounts.get(channel.id) || 0;
+  heldBackCounts.delete(channel.id);
+  await CHANNEL_TYPES[channel.type].send(
+    channel.config,
+    heldBack > 0
+      ? {
+          ...notification,
+          fields: [
+            ...notification.fields,
+            {
+              label: "Held back by rate limit",
+              value: `${heldBack} earlier notification${heldBack === 1 ? "" : "s"}`,
+            },
+          ],
+        }
+      : notification,
+    channel,
+  );
+};
+
+/**
+ * Sends a notification to each channel, respecting their rate limits. A
+ * channel that fails doesn't stop the others; its error is logged.
+ */
+export const sendToChannels = (channels, notification) =>
+  Promise.all(
+    channels.map((channel) =>
+      sendToChannel(channel, notification).catch((error) =>
+        console.error(
+          `Error sending ${notification.event} notification to ${channel.name}:`,
+          error.message,
+        ),
+      ),
+    ),
+  );
+
+/**
+ * Tells every enabled channel that wants to hear about it that a monitor's
+ * incident opened, was acknowledged or resolved. An incident opened by
+ * DEGRADED checks is sent as "degraded"; an acknowledgement has no result.
+ * Incidents of a flapping monitor are left quiet, and a channel past its
+ * rate limit skips the message.
+ *
+ * Channels in the monitor's escalation policy are left to it: they hear
+ * about an incident opening when their level is reached, and about the
+ * rest only if it was.
+ */
+export const notifyIncidentChange = async (
+  { type, incident },
+  monitor,
+  result,
+  stages,
+) => {
+  if (incident.flapping) return;
+
+  const event =
+    type === "resolved"
+      ? "recovered"
+      : type === "acknowledged"
+        ? "acknowledged"
+        : result.outcome === "degraded"
+          ? "degraded"
+          : "down";
+  const notification = buildNotification(event, {
+    monitor,
+    incident,
+    result,
+    stages,
+  });
+  const escalated = new Set(
+    findMonitorPolicy(monitor)?.levels.flatMap(({ channelIds }) => channelIds),
+  );
+  const notified =
+    type === "opened" ? [] : incident.escalation?.notifiedChannelIds || [];
+
+  await sendToChannels(
+    listChannels().filter(
+      (channel) =>
+        channel.enabled &&
+        channel.events.includes(event) &&
+        (notified.includes(channel.id) ||
+          (!escalated.has(channel.id) &&
+            (!channel.monitorIds?.length ||
+              channel.monitorIds.includes(monitor.id)))),
+    ),
+    notification,
+  );
+};
+
+/**
+ * Tells channels that want to hear about it that a monitor which was UP
+ * turned DEGRADED without opening an incident, as it does unless its
+ * policy has degraded checks open incidents. Channels left to an
+ * escalation policy, and ones that would open an alert nothing resolves,
+ * aren't told.
+ */
+export const notifyDegraded = async (monitor, result, stages) => {
+  const escalated = new Set(
+    findMonitorPolicy(monitor)?.levels.flatMap(({ channelIds }) => channelIds),
+  );
+
+  await sendToChannels(
+    listChannels().filter(
+      (channel) =>
+        channel.enabled &&
+        channel.events.includes("degraded") &&
+        !CHANNEL_TYPES[channel.type].incidentsOnly &&
+        !escalated.has(channel.id) &&
+        (!channel.monitorIds?.length ||
+          channel.monitorIds.includes(monitor.id)),
+    ),
+    buildNotification("degraded", { monitor, result, stages }),
+  );
+};
+
+// Sends a test notification through a channel, whatever its rate limit;
+// rejects if it can't
+export const sendTestNotification = (channel) =>
+  CHANNEL_TYPES[channel.type].send(channel.config, buildTestNotification());
@@ -0,0 +1,102 @@
+import express from "express";
+import {
+  UPTIME_PERIODS,
+  buildUptimeReport,
+  parseReportMonth,
+  slaReportToCsv,
+  slaReportToHtml,
+} from "./reports.js";
+import { getMonitor, listMonitors, readResults } from "./monitorStore.js";
+import { asyncRoute } from "./asyncRoute.js";
+
+const REPORT_FORMATS = ["json", "csv", "html"];
+
+const router = express.Router();
+
+// Results are read back until a counted one before the report starts
+// that isn't DOWN, so an outage already going at the start is measured
+const startsBefore = (from) => (result) =>
+  Date.parse(result.timestamp) < from &&
+  (result.outcome === "up" || result.outcome === "degraded") &&
+  !result.inMaintenance;
+
+// Uptime for every monitor over each rolling period, without the outages
+router.get(
+  "/uptime",
+  asyncRoute(async (req, res) => {
+    const now = Date.now();
+    const from = now - Math.max(...Object.values(UPTIME_PERIODS));
+    const reports = await Promise.all(
+      listMonitors().map(async (monitor) => {
+        const results = await readResults(monitor.id, {
+          until: startsBefore(from),
+        });
+        const periods = Object.fromEntries(
+          Object.entries(UPTIME_PERIODS).map(([period, ms]) => {
+            const { outages, ...report } = buildUptimeReport(monitor, results, {
+              from: now - ms,
+              to: now,
+            });
+            return [period, { ...report, outageCount: outages.length }];
+          }),
+        );
+        return {
+          monitorId: monitor.id,
+          name: monitor.name,
+          url: monitor.url,
+          periods,
+        };
+      }),
+    );
+    res.json(reports);
+  }),
+);
+
+// One monitor's SLA report for a calendar month (UTC), as JSON, CSV or a
+// printable HTML page
+router.get(
+  "/sla/:monitorId",
+  asyncRoute(async (req, res) => {
+    const monitor = getMonitor(req.params.monitorId);
+    if (!monitor) {
+      return res.status(404).json({ error: "Monitor not found" });
+    }
+
+    const month = parseReportMonth(req.query.month);
+    if (!month) {
+      return res.status(400).json({ error: "Month must be given as YYYY-MM" });
+    }
+    const format = req.query.format ?? "json";
+    if (!REPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        error: `Format must be one of ${REPORT_FORMATS.join(", ")}`,
+      });
+    }
+
+    // A month still in progress is reported up to now
+    const results = await readResults(monitor.id, {
+      until: startsBefore(month.from),
+    });
+    const report = buildUptimeReport(monitor, results, {
+      from: month.from,
+      to: Math.min(month.to, Date.now()),
+    });
+
+    if (format === "csv") {
+      res.attachment(`sla-${monitor.name}-${req.query.month}.csv`);
+      return res.type("text/csv").send(slaReportToCsv(monitor, month, report));
+    }
+    if (format === "html") {
+      return res.type("html").send(slaReportToHtml(monitor, month, report));
+    }
+    res.json({
+      monitorId: monitor.id,
+      name: monitor.name,
+      url: monitor.url,
+      month: req.query.month,
+      ...report,
+    });
+  }),
+);
+
+export default router;
@@ -0,0 +1,321 @@
+import { escapeHtml } from "./html.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rolling periods the uptime summary covers, newest data last
+export const UPTIME_PERIODS = {
+  "24h": DAY_MS,
+  "7d": 7 * DAY_MS,
+  "30d": 30 * DAY_MS,
+  "90d": 90 * DAY_MS,
+};
+
+// Merges overlapping time ranges so no stretch is counted twice
+const mergeRanges = (ranges) =>
+  [...ranges]
+    .sort((a, b) => a.start - b.start)
+    .reduce((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+
+// Milliseconds between start and end that fall outside every excluded range
+const countIncludedMs = (start, end, excluded) =>
+  Math.max(
+    excluded.reduce(
+      (total, range) =>
+        total -
+        Math.max(Math.min(end, range.end) - Math.max(start, range.start), 0),
+      end - start,
+    ),
+    0,
+  );
+
+/**
+ * Gets the stretches a monitor wasn't being measured: while paused and
+ * during its maintenance windows. A pause still in effect runs to `now`.
+ */
+const getExcludedRanges = (monitor, now) =>
+  mergeRanges([
+    ...(monitor.pausedPeriods || []).map((period) => ({
+      start: Date.parse(period.start),
+      end: period.end ? Date.parse(period.end) : now,
+    })),
+    ...(monitor.maintenanceWindows || []).map((window) => ({
+      start: Date.parse(window.start),
+      end: Date.parse(window.end),
+    })),
+  ]);
+
+// What went wrong with a failed check, or why a passing one was degraded
+const getProblem = (result) =>
+  result.errorMessage || result.degradedReasons?.join("; ");
+
+/**
+ * Works out a monitor's uptime between `from` and `to` (epoch ms) from its
+ * stored results, in any order.
+ *
+ * Each result's outcome is taken to hold until the next result. Time
+ * before the first result, while paused and in maintenance windows isn't
+ * counted; cancelled results and those taken during maintenance are
+ * skipped. Degraded time counts as up but is reported on its own.
+ *
+ * An outage is a run of DOWN results, ending at the first result that
+ * isn't. Outages overlapping the period are listed with the part of their
+ * duration that falls in it; MTTR averages the ones that have ended and
+ * MTBF is the up time per outage.
+ */
+export const buildUptimeReport = (monitor, results, { from, to }) => {
+  const excluded = getExcludedRanges(monitor, to);
+  const checks = results
+    .filter((result) => result.outcome !== "cancelled" && !result.inMaintenance)
+    .map((result) => ({ ...result, time: Date.parse(result.timestamp) }))
+    .filter((result) => result.time < to)
+    .sort((a, b) => a.time - b.time);
+
+  const counts = { up: 0, degraded: 0, down: 0 };
+  let monitoredMs = 0;
+  let downtimeMs = 0;
+  let degradedMs = 0;
+  const outages = [];
+  let outage = null;
+
+  checks.forEach((check, index) => {
+    if (check.time >= from) counts[check.outcome] += 1;
+
+    if (check.outcome === "down") {
+      if (!outage) {
+        outage = {
+          start: check.time,
+          end: null,
+          failedChecks: 0,
+          errorMessage: getProblem(check),
+        };
+      }
+      outage.failedChecks += 1;
+    } else if (outage) {
+      outage.end = check.time;
+      outages.push(outage);
+      outage = null;
+    }
+
+    const start = Math.max(check.time, from);
+    const end = Math.min(checks[index + 1]?.time ?? to, to);
+    if (end <= start) return;
+
+    const includedMs = countIncludedMs(start, end, excluded);
+    monitoredMs += includedMs;
+    if (check.outcome === "down") downtimeMs += includedMs;
+    else if (check.outcome === "degraded") degradedMs += includedMs;
+  });
+  if (outage) outages.push(outage);
+
+  const periodOutages = outages
+    .filter((o) => o.start < to && (o.end ?? to) > from)
+    .map((o) => ({
+      start: new Date(o.start).toISOString(),
+      end: o.end === null ? null : new Date(o.end).toISOString(),
+      durationMs: countIncludedMs(
+        Math.max(o.start, from),
+        Math.min(o.end ?? to, to),
+        excluded,
+      ),
+      failedChecks: o.failedChecks,
+      errorMessage: o.errorMessage,
+    }));
+  const endedOutages = periodOutages.filter((o) => o.end !== null);
+
+  return {
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    checks: counts,
+    monitoredMs,
+    excludedMs: Math.max(to - from, 0) - countIncludedMs(from, to, excluded),
+    downtimeMs,
+    degradedMs,
+    // Null until some of the period has been measured
+    uptimePercent:
+      monitoredMs > 0 ? ((monitoredMs - downtimeMs) / monitoredMs) * 100 : null,
+    outages: periodOutages,
+    mttrMs:
+      endedOutages.length > 0
+        ? endedOutages.reduce((sum, o) => sum + o.durationMs, 0) /
+          endedOutages.length
+        : null,
+    mtbfMs:
+      periodOutages.length > 0
+        ? (monitoredMs - downtimeMs) / periodOutages.length
+        : null,
+  };
+};
+
+// Parses a "YYYY-MM" month into its UTC start and end, or null
+export const parseReportMonth = (text) => {
+  const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(text || "");
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = Number(match[2]) - 1;
+  return {
+    from: Date.UTC(year, month, 1),
+    to: Date.UTC(year, month + 1, 1),
+    label: new Date(Date.UTC(year, month, 1)).toLocaleString("en-US", {
+      month: "long",
+      year: "numeric",
+      timeZone: "UTC",
+    }),
+  };
+};
+
+// Formats a duration as e.g. "2h 5m 3s"
+export const formatDuration = (ms) => {
+  if (ms === null) return "--";
+  const totalSeconds = Math.round(ms / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return (
+    [
+      days && `${days}d`,
+      hours && `${hours}h`,
+      minutes && `${minutes}m`,
+      seconds && `${seconds}s`,
+    ]
+      .filter(Boolean)
+      .join(" ") || "0s"
+  );
+};
+
+const formatPercent = (percent) =>
+  percent === null ? "--" : `${percent.toFixed(3)}%`;
+
+// Helper function to quote a CSV field when it needs it
+const csvField = (value) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (values) => values.map(csvField).join(",");
+
+// Helper function to stop text typed by users, such as a monitor's name,
+// from being run as a formula when the CSV is opened in a spreadsheet
+const csvText = (value) =>
+  typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+/**
+ * Writes a monthly SLA report as CSV: the summary as metric/value rows,
+ * a blank line, then one row per outage.
+ */
+export const slaReportToCsv = (monitor, month, report) =>
+  [
+    csvRow(["Metric", "Value"]),
+    csvRow(["Monitor", csvText(monitor.name)]),
+    csvRow(["URL", csvText(monitor.url)]),
+    csvRow(["Month (UTC)", month.label]),
+    csvRow(["Uptime", formatPercent(report.uptimePercent)]),
+    csvRow(["Monitored (s)", Math.round(report.monitoredMs / 1000)]),
+    csvRow(["Paused or maintenance (s)", Math.round(report.excludedMs / 1000)]),
+    csvRow(["Downtime (s)", Math.round(report.downtimeMs / 1000)]),
+    csvRow(["Degraded (s)", Math.round(report.degradedMs / 1000)]),
+    csvRow(["Outages", report.outages.length]),
+    csvRow([
+      "MTTR (s)",
+      report.mttrMs === null ? "" : Math.round(report.mttrMs / 1000),
+    ]),
+    csvRow([
+      "MTBF (s)",
+      report.mtbfMs === null ? "" : Math.round(report.mtbfMs / 1000),
+    ]),
+    csvRow(["Up checks", report.checks.up]),
+    csvRow(["Degraded checks", report.checks.degraded]),
+    csvRow(["Down checks", report.checks.down]),
+    "",
+    csvRow([
+      "Outage start",
+      "Outage end",
+      "Duration (s)",
+      "Failed checks",
+      "Error",
+    ]),
+    ...report.outages.map((o) =>
+      csvRow([
+        o.start,
+        o.end ?? "ongoing",
+        Math.round(o.durationMs / 1000),
+        o.failedChecks,
+        csvText(o.errorMessage),
+      ]),
+    ),
+  ].join("\n") + "\n";
+
+// Formats an ISO time for the printed report, in UTC like the month
+const formatTime = (iso) =>
+  iso ? iso.replace("T", " ").replace(/\.\d+Z$/, " UTC") : "ongoing";
+
+/**
+ * Writes a monthly SLA report as a standalone HTML page laid out for
+ * printing.
+ */
+export const slaReportToHtml = (monitor, month, report) => {
+  const summary = [
+    ["Uptime", formatPercent(report.uptimePercent)],
+    ["Downtime", formatDuration(report.downtimeMs)],
+    ["Degraded", formatDuration(report.degradedMs)],
+    ["Outages", report.outages.length],
+    ["MTTR", formatDuration(report.mttrMs)],
+    ["MTBF", formatDuration(report.mtbfMs)],
+    ["Monitored", formatDuration(report.monitoredMs)],
+    ["Paused or maintenance", formatDuration(report.excludedMs)],
+    [
+      "Checks",
+      `${report.checks.up} up, ${report.checks.degraded} degraded, ${report.checks.down} down`,
+    ],
+  ];
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>SLA report: ${escapeHtml(monitor.name)}, ${escapeHtml(month.label)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  .meta { color: #555; margin-top: 0; }
+  table { border-collapse: collapse; width: 100%; margin-top: 1.5rem; }
+  th, td { text-align: left; padding: 0.4rem 0.6rem; border-bottom: 1px solid #ddd; vertical-align: top; }
+  th { background: #f4f4f5; }
+  .summary td:first-child { font-weight: 600; width: 14rem; }
+  .none { color: #555; font-style: italic; }
+  @media print { body { margin: 0; } th { background: none; } }
+</style>
+</head>
+<body>
+<h1>SLA report: ${escapeHtml(monitor.name)}</h1>
+<p class="meta">${escapeHtml(monitor.url)} &middot; ${escapeHtml(month.label)} (UTC) &middot; generated ${escapeHtml(formatTime(new Date().toISOString()))}</p>
+<table class="summary">
+${summary.map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join("\n")}
+</table>
+<h2>Outages</h2>
+${
+  report.outages.length > 0
+    ? `<table>
+<tr><th>Start</th><th>End</th><th>Duration</th><th>Failed checks</th><th>Error</th></tr>
+${report.outages
+  .map(
+    (o) =>
+      `<tr><td>${escapeHtml(formatTime(o.start))}</td><td>${escapeHtml(formatTime(o.end))}</td><td>${escapeHtml(formatDuration(o.durationMs))}</td><td>${o.failedChecks}</td><td>${escapeHtml(o.errorMessage)}</td></tr>`,
+  )
+  .join("\n")}
+</table>`
+    : `<p class="none">No outages this month.</p>`
+}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,132 @@
+export const HTTP_METHODS = [
+  "GET",
+  "HEAD",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "OPTIONS",
+];
+
+// Methods that never carry a request body
+const BODYLESS_METHODS = ["GET", "HEAD"];
+
+// Headers that must not follow a redirect to another origin
+const CREDENTIAL_HEADERS = ["authorization", "cookie", "proxy-authorization"];
+
+// RFC 7230 token characters, the only ones allowed in a header name
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Fills in defaults for the request a check sends. Without a config the
+ * check is a bare GET.
+ */
+export const normalizeRequestConfig = (request = {}) => ({
+  method: String(request.method || "GET").toUpperCase(),
+  headers: request.headers || {},
+  body: request.body,
+  contentType: request.contentType,
+  auth: request.auth,
+  userAgent: request.userAgent,
+});
+
+// Returns why the request config can't be sent, if it can't
+export const findInvalidRequestConfig = (request) => {
+  if (!request) return null;
+  if (typeof request !== "object" || Array.isArray(request)) {
+    return "Request config must be an object";
+  }
+
+  if (request.method !== undefined && typeof request.method !== "string") {
+    return "Request method must be text";
+  }
+  const method = (request.method || "GET").toUpperCase();
+  if (!HTTP_METHODS.includes(method)) {
+    return `Unsupported request method: ${request.method}`;
+  }
+  if (request.headers !== undefined) {
+    if (
+      request.headers === null ||
+      typeof request.headers !== "object" ||
+      Array.isArray(request.headers)
+    ) {
+      return "Request headers must be an object of names to values";
+    }
+    for (const [name, value] of Object.entries(request.headers)) {
+      if (!HEADER_NAME.test(name)) return `Invalid header name: ${name}`;
+      if (typeof value !== "string" || /[\r\n]/.test(value)) {
+        return `Invalid value for header ${name}`;
+      }
+    }
+  }
+  if (request.body !== undefined && typeof request.body !== "string") {
+    return "Request body must be a string";
+  }
+  if (request.body && BODYLESS_METHODS.includes(method)) {
+    return `${method} requests cannot have a body`;
+  }
+  if (request.auth) {
+    const { type } = request.auth;
+    if (type === "basic" && typeof request.auth.username !== "string") {
+      return "Basic auth needs a username";
+    }
+    if (type === "bearer" && !request.auth.token) {
+      return "Bearer auth needs a token";
+    }
+    if (type !== "basic" && type !== "bearer") {
+      return `Unsupported auth type: ${type}`;
+    }
+  }
+  return null;
+};
+
+// Builds the outgoing headers for a normalized request config
+export const buildRequestHeaders = (request) => {
+  const headers = { ...request.headers };
+
+  if (request.userAgent) {
+    headers["User-Agent"] = request.userAgent;
+  }
+  if (request.auth?.type === "basic") {
+    const credentials = `${request.auth.username}:${request.auth.password || ""}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  } else if (request.auth?.type === "bearer") {
+    headers.Authorization = `Bearer ${request.auth.token}`;
+  }
+  if (request.body !== undefined) {
+    if (request.contentType) headers["Content-Type"] = request.contentType;
+    headers["Content-Length"] = Buffer.byteLength(request.body);
+  }
+
+  return headers;
+};
+
+/**
+ * Returns the request to send to a redirect target, following browser
+ * rules: 303, and 301/302 after a POST, become a bodyless GET, and
+ * credentials are dropped when the redirect leaves the origin.
+ */
+export const requestForRedirect = (request, statusCode, crossOrigin) => {
+  let next = request;
+
+  if (
+    (statusCode === 303 && request.method !== "HEAD") ||
+    ((statusCode === 301 || statusCode === 302) && request.method === "POST")
+  ) {
+    next = { ...next, method: "GET", body: undefined, contentType: undefined };
+  }
+
+  if (crossOrigin) {
+    next = {
+      ...next,
+      auth: undefined,
+      headers: Object.fromEntries(
+        Object.entries(next.headers).filter(
+          ([name]) => !CREDENTIAL_HEADERS.includes(name.toLowerCase()),
+        ),
+      ),
+    };
+  }
+
+  return next;
+};
@@ -0,0 +1,99 @@
+// How long each stage may take before the attempt is abandoned
+export const DEFAULT_STAGE_TIMEOUTS = {
+  dns: 5000,
+  connection: 8000,
+  tls: 8000,
+  firstByte: 15000,
+  download: 15000,
+};
+
+// Stages a failed attempt can be retried for
+export const RETRYABLE_STAGES = [
+  "dns",
+  "connection",
+  "tls",
+  "firstByte",
+  "download",
+  "httpStatus",
+];
+
+// A single attempt unless the check asks for retries
+export const DEFAULT_RETRY_POLICY = {
+  attempts: 1,
+  backoff: "fixed",
+  delayMs: 1000,
+  stages: ["dns", "connection", "tls", "firstByte", "download"],
+};
+
+const MAX_STAGE_TIMEOUT_MS = 120000;
+const MAX_ATTEMPTS = 5;
+const MAX_DELAY_MS = 30000;
+
+// Fills in the default timeout for every stage the check doesn't set
+export const normalizeTimeouts = (timeouts = {}) => ({
+  ...DEFAULT_STAGE_TIMEOUTS,
+  ...timeouts,
+});
+
+export const normalizeRetryPolicy = (retry = {}) => ({
+  ...DEFAULT_RETRY_POLICY,
+  ...retry,
+});
+
+// Returns why the stage timeouts can't be used, if they can't
+export const findInvalidTimeouts = (timeouts) => {
+  if (!timeouts) return null;
+
+  for (const [stageId, ms] of Object.entries(timeouts)) {
+    if (!(stageId in DEFAULT_STAGE_TIMEOUTS)) {
+      return `Unknown stage for timeout: ${stageId}`;
+    }
+    if (!Number.isInteger(ms) || ms <= 0 || ms > MAX_STAGE_TIMEOUT_MS) {
+      return `Timeout for ${stageId} must be between 1 and ${MAX_STAGE_TIMEOUT_MS} ms`;
+    }
+  }
+  return null;
+};
+
+// Returns why the retry policy can't be used, if it can't
+export const findInvalidRetryPolicy = (retry) => {
+  if (!retry) return null;
+
+  const { attempts, backoff, delayMs, stages } = retry;
+  if (
+    attempts !== undefined &&
+    (!Number.isInteger(attempts) || attempts < 1 || attempts > MAX_ATTEMPTS)
+  ) {
+    return `Retry attempts must be between 1 and ${MAX_ATTEMPTS}`;
+  }
+  if (
+    backoff !== undefined &&
+    backoff !== "fixed" &&
+    backoff !== "exponential"
+  ) {
+    return `Unsupported backoff: ${backoff}`;
+  }
+  if (
+    delayMs !== undefined &&
+    (!Number.isInteger(delayMs) || delayMs < 0 || delayMs > MAX_DELAY_MS)
+  ) {
+    return `Retry delay must be between 0 and ${MAX_DELAY_MS} ms`;
+  }
+  if (stages !== undefined) {
+    if (!Array.isArray(stages)) return "Retry stages must be a list";
+    const unknown = stages.find(
+      (stageId) => !RETRYABLE_STAGES.includes(stageId),
+    );
+    if (unknown !== undefined) return `Stage cannot be retried: ${unknown}`;
+  }
+  return null;
+};
+
+/**
+ * Returns how long to wait before the attempt after `attempt`. Exponential
+ * backoff doubles the delay each time, capped at MAX_DELAY_MS.
+ */
+export const getBackoffDelay = (policy, attempt) =>
+  policy.backoff === "exponential"
+    ? Math.min(policy.delayMs * 2 ** (attempt - 1), MAX_DELAY_MS)
+    : policy.delayMs;
@@ -0,0 +1,384 @@
+import { createHash } from "crypto";
+
+// Random delay added to each run, as a share of the interval and at most
+// MAX_JITTER_MS, so monitors sharing a slot don't stay in lock-step
+const JITTER_RATIO = 0.1;
+const MAX_JITTER_MS = 5000;
+
+// Cron runs start somewhere in the first CRON_SPREAD_MS of their minute, so
+// monitors sharing an expression don't all fire on the same second
+const CRON_SPREAD_MS = 30000;
+
+// How far ahead to look for a run before deciding a schedule never runs
+const SEARCH_HORIZON_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// The five cron fields in order. Weekday 7 is another way to write Sunday.
+const CRON_FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES },
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES },
+];
+
+const CRON_MACROS = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+// Helper function to read one value of a cron field, by number or name
+const parseCronValue = (text, field) => {
+  const nameIndex = field.names?.indexOf(text.toLowerCase()) ?? -1;
+  if (nameIndex !== -1) return nameIndex + (field.name === "month" ? 1 : 0);
+  if (!/^\d+$/.test(text)) return null;
+
+  const value = Number(text);
+  return value >= field.min && value <= field.max ? value : null;
+};
+
+/**
+ * Parses one cron field ("*", "1-5", "*\/15", "mon,wed,fri", ...) into the
+ * set of values it matches. Returns null if it doesn't parse.
+ */
+const parseCronField = (text, field) => {
+  const values = new Set();
+
+  for (const part of text.split(",")) {
+    const match = /^(\*|[a-z0-9]+)(?:-([a-z0-9]+))?(?:\/(\d+))?$/i.exec(part);
+    if (!match) return null;
+
+    const [, startText, endText, stepText] = match;
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let start = field.min;
+    let end = field.max;
+
+    if (startText !== "*") {
+      start = parseCronValue(startText, field);
+      // "5/15" means every 15 starting at 5
+      end =
+        endText !== undefined
+          ? parseCronValue(endText, field)
+          : stepText !== undefined
+            ? field.max
+            : start;
+    } else if (endText !== undefined) {
+      return null;
+    }
+    if (start === null || end === null || start > end || step < 1) {
+      return null;
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+};
+
+/**
+ * Parses a five-field cron expression (minute hour day-of-month month
+ * day-of-week) or one of the @daily-style macros. Returns null if it
+ * doesn't parse.
+ */
+export const parseCron = (expression) => {
+  const text = String(expression).trim().toLowerCase();
+  const parts = (CRON_MACROS[text] || text).split(/\s+/);
+  if (parts.length !== CRON_FIELDS.length) return null;
+
+  const fields = parts.map((part, i) => parseCronField(part, CRON_FIELDS[i]));
+  if (fields.includes(null)) return null;
+
+  const [minutes, hours, days, months, weekdays] = fields;
+  if (weekdays.has(7)) weekdays.add(0);
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    // When both day fields are restricted a day matching either one runs,
+    // as in every other cron
+    anyDay: parts[2].startsWith("*"),
+    anyWeekday: parts[4].startsWith("*"),
+  };
+};
+
+// Returns why a cron expression doesn't parse, if it doesn't
+export const findInvalidCron = (expression) => {
+  if (typeof expression !== "string") {
+    return "Cron expression must be text";
+  }
+
+  const text = expression.trim().toLowerCase();
+  const parts = (CRON_MACROS[text] || text).split(/\s+/);
+  if (parts.length !== CRON_FIELDS.length) {
+    return "Cron expression needs five fields: minute hour day-of-month month day-of-week";
+  }
+
+  const badIndex = parts.findIndex(
+    (part, i) => parseCronField(part, CRON_FIELDS[i]) === null,
+  );
+  return badIndex === -1
+    ? null
+    : `Invalid ${CRON_FIELDS[badIndex].name} field "${parts[badIndex]}" in cron expression`;
+};
+
+// Formatters are slow to create, so keep one per time zone
+const formatters = new Map();
+
+const getFormatter = (timezone) => {
+  if (!formatters.has(timezone)) {
+    formatters.set(
+      timezone,
+      new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        weekday: "short",
+      }),
+    );
+  }
+  return formatters.get(timezone);
+};
+
+export const isValidTimezone = (timezone) => {
+  if (typeof timezone !== "string" || !timezone) return false;
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Reads the wall-clock time in a time zone at the given instant, as
+ * { month, day, hour, minute, weekday } with weekday 0 for Sunday.
+ */
+const getZonedTime = (time, timezone) => {
+  const parts = Object.fromEntries(
+    getFormatter(timezone)
+      .formatToParts(new Date(time))
+      .map(({ type, value }) => [type, value]),
+  );
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+  };
+};
+
+// Helper functions to jump forward to the next local hour or day
+const startOfNextHour = (time, zoned) => time + (60 - zoned.minute) * MINUTE_MS;
+
+// A local day can be an hour short when clocks go forward, so this stops an
+// hour early and lets the caller look again rather than skip past midnight
+const startOfNextDay = (time, zoned) => {
+  const minutesLeft = (23 - zoned.hour) * 60 + (60 - zoned.minute);
+  return time + (minutesLeft > 60 ? minutesLeft - 60 : minutesLeft) * MINUTE_MS;
+};
+
+const floorToMinute = (time) => Math.floor(time / MINUTE_MS) * MINUTE_MS;
+
+/**
+ * Finds the first minute at or after `from` that the cron matches in the
+ * time zone. Returns null if there's none within the search horizon, as
+ * with "0 0 31 2 *".
+ */
+export const getNextCronTime = (cron, timezone, from) => {
+  const limit = from + SEARCH_HORIZON_MS;
+  let time = Math.ceil(from / MINUTE_MS) * MINUTE_MS;
+
+  while (time < limit) {
+    const zoned = getZonedTime(time, timezone);
+    const dayMatches =
+      cron.anyDay || cron.anyWeekday
+        ? cron.days.has(zoned.day) && cron.weekdays.has(zoned.weekday)
+        : cron.days.has(zoned.day) || cron.weekdays.has(zoned.weekday);
+
+    if (!cron.months.has(zoned.month) || !dayMatches) {
+      time = startOfNextDay(time, zoned);
+    } else if (!cron.hours.has(zoned.hour)) {
+      time = startOfNextHour(time, zoned);
+    } else if (!cron.minutes.has(zoned.minute)) {
+      time += MINUTE_MS;
+    } else {
+      return time;
+    }
+  }
+  return null;
+};
+
+// Reads "HH:MM" as minutes since midnight
+const parseTimeOfDay = (text) => {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(text);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+// Returns why a list of active windows can't be used, if it can't
+export const findInvalidActiveWindows = (windows) => {
+  if (windows === undefined) return null;
+  if (!Array.isArray(windows)) return "Active windows must be a list";
+
+  for (const window of windows) {
+    const { days, start, end } = window || {};
+    if (
+      !Array.isArray(days) ||
+      days.length === 0 ||
+      !days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+    ) {
+      return "Each active window needs days of the week from 0 (Sunday) to 6 (Saturday)";
+    }
+    const startMinute = parseTimeOfDay(start);
+    const endMinute = parseTimeOfDay(end);
+    if (startMinute === null || endMinute === null) {
+      return "Active window times must be HH:MM";
+    }
+    if (startMinute >= endMinute) {
+      return `Active window ending at ${end} must end after it starts at ${start}`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Finds the first moment at or after `from` that falls inside one of the
+ * active windows, in the time zone. Windows cover [start, end) on each of
+ * their days. With no windows every moment counts.
+ */
+export const getNextWindowTime = (windows, timezone, from) => {
+  if (!windows?.length) return from;
+
+  const limit = from + 8 * 24 * 60 * MINUTE_MS;
+  let time = from;
+
+  while (time < limit) {
+    const zoned = getZonedTime(time, timezone);
+    const minuteOfDay = zoned.hour * 60 + zoned.minute;
+    const today = windows
+      .filter((window) => window.days.includes(zoned.weekday))
+      .map((window) => ({
+        start: parseTimeOfDay(window.start),
+        end: parseTimeOfDay(window.end),
+      }));
+
+    if (
+      today.some(({ start, end }) => minuteOfDay >= start && minuteOfDay < end)
+    ) {
+      return time;
+    }
+
+    // Jump to the next window opening today, or else to tomorrow
+    const laterStarts = today
+      .map(({ start }) => start)
+      .filter((start) => start > minuteOfDay);
+    time = laterStarts.length
+      ? floorToMinute(time) +
+        (Math.min(...laterStarts) - minuteOfDay) * MINUTE_MS
+      : startOfNextDay(time, zoned);
+  }
+  return null;
+};
+
+// Helper function to give each monitor a fixed offset within a period.
+// Hashing the id spreads monitors evenly and keeps each one in the same
+// place across restarts and edits.
+const getPhaseOffset = (id, periodMs) =>
+  createHash("sha1").update(id).digest().readUInt32BE(0) % periodMs;
+
+// The first interval slot for the monitor at or after `from`
+const getNextIntervalSlot = (monitor, from) => {
+  const intervalMs = monitor.intervalSeconds * 1000;
+  const offset = getPhaseOffset(monitor.id, intervalMs);
+  return Math.ceil((from - offset) / intervalMs) * intervalMs + offset;
+};
+
+/**
+ * Works out when a monitor should next run after `now`: its next interval
+ * slot or cron match that falls inside its active windows, plus a little
+ * jitter. Returns null if the schedule never runs.
+ */
+export const getNextRunTime = (
+  monitor,
+  now = Date.now(),
+  { jitter = true } = {},
+) => {
+  const timezone = monitor.timezone || DEFAULT_TIMEZONE;
+  const cron = monitor.cron ? parseCron(monitor.cron) : null;
+  const nextScheduled = (from) =>
+    cron
+      ? getNextCronTime(cron, timezone, from)
+      : getNextIntervalSlot(monitor, from);
+
+  // Alternate between the schedule and the windows until a run lands in
+  // both; either can rule a schedule out by finding nothing
+  const limit = now + SEARCH_HORIZON_MS;
+  let time = nextScheduled(now + 1);
+  while (time !== null && time < limit) {
+    const windowTime = getNextWindowTime(monitor.activeWindows, timezone, time);
+    if (windowTime === null) return null;
+    if (windowTime === time) break;
+    time = nextScheduled(windowTime);
+  }
+  if (time === null || time >= limit) return null;
+
+  if (cron) {
+    const spread = getPhaseOffset(monitor.id, CRON_SPREAD_MS);
+    return time + spread + (jitter ? Math.round(Math.random() * 1000) : 0);
+  }
+  const intervalMs = monitor.intervalSeconds * 1000;
+  return (
+    time +
+    (jitter
+      ? Math.round(
+          Math.random() * Math.min(intervalMs * JITTER_RATIO, MAX_JITTER_MS),
+        )
+      : 0)
+  );
+};
+
+/**
+ * Lists the monitor's next few run times after `now`, without jitter, for
+ * previewing a schedule before it's saved.
+ */
+export const previewRunTimes = (monitor, count = 5, now = Date.now()) => {
+  const runs = [];
+  let from = now;
+  while (runs.length < count) {
+    const runAt = getNextRunTime(monitor, from, { jitter: false });
+    if (runAt === null) break;
+    runs.push(runAt);
+    from = runAt;
+  }
+  return runs;
+};
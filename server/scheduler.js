@@ -0,0 +1,190 @@
+import { runCheck } from "./checkEngine.js";
+import { pickCheckOptions } from "./checkOptions.js";
+import { isInMaintenance, summarizeResult } from "./monitors.js";
+import { getNextRunTime } from "./schedule.js";
+import {
+  isMonitorFlapping,
+  normalizeIncidentPolicy,
+  trackResult,
+} from "./incidents.js";
+import { notifyDegraded, notifyIncidentChange } from "./notifications.js";
+import { startEscalation, stopEscalation } from "./escalations.js";
+import { getMonitor, listMonitors, recordResult } from "./monitorStore.js";
+
+// Scheduled checks all run from this server, so its location is looked up
+// once in a while rather than before every check
+const LOCATION_TTL_MS = 60 * 60 * 1000;
+
+// Longest delay setTimeout can wait; runs further out wait in steps
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const timers = new Map();
+const nextRuns = new Map();
+const runningChecks = new Map();
+let getLocationInfo = async () => ({});
+let cachedLocation = null;
+
+const getCachedLocation = () => {
+  if (
+    !cachedLocation ||
+    Date.now() - cachedLocation.fetchedAt > LOCATION_TTL_MS
+  ) {
+    cachedLocation = { fetchedAt: Date.now(), info: getLocationInfo() };
+  }
+  return cachedLocation.info;
+};
+
+// Helper function to run one scheduled check and store its result
+const runMonitor = async (id) => {
+  const monitor = getMonitor(id);
+  if (!monitor || monitor.paused) return;
+
+  // The next run is booked before this one starts so slow checks don't
+  // push the schedule back
+  scheduleMonitor(id);
+
+  // A check still going from the last slot gets this slot too
+  if (runningChecks.has(id)) return;
+
+  const controller = new AbortController();
+  runningChecks.set(id, controller);
+  const startedAt = new Date().toISOString();
+  const check = async () =>
+    runCheck(monitor.url, pickCheckOptions(monitor.options), {
+      locationInfo: await getCachedLocation(),
+      signal: controller.signal,
+    });
+
+  try {
+    let details = await check();
+    let result = summarizeResult(details, startedAt);
+
+    // A failure can be checked again straight away before it counts, so a
+    // momentary blip doesn't take the monitor down. The check that decides
+    // is the confirmation; both are kept as its attempts.
+    if (
+      result.outcome === "down" &&
+      normalizeIncidentPolicy(monitor.incidentPolicy).confirmFailures
+    ) {
+      details = await check();
+      const confirmation = summarizeResult(details, new Date().toISOString());
+      result = {
+        ...confirmation,
+        timestamp: startedAt,
+        attempts: [
+          { ...result, attempt: 1 },
+          { ...confirmation, attempt: 2, isConfirmation: true },
+        ],
+      };
+    }
+
+    if (!controller.signal.aborted) {
+      // Checks keep running during maintenance, but what they find is
+      // expected and neither opens incidents nor counts against uptime
+      if (isInMaintenance(monitor, Date.parse(startedAt))) {
+        await recordResult(id, { ...result, inMaintenance: true });
+      } else {
+        await recordResult(id, result);
+        const change = await trackResult(monitor, result);
+        // Sent in the background so a slow mail server can't hold up the
+        // monitor's next check
+        if (change) {
+          notifyIncidentChange(change, monitor, result, details.stages).catch(
+            (error) =>
+              console.error(`Error notifying for monitor ${id}:`, error),
+          );
+          if (change.type === "opened") {
+            startEscalation(
+              change.incident,
+              monitor,
+              result,
+              details.stages,
+            ).catch((error) =>
+              console.error(`Error escalating for monitor ${id}:`, error),
+            );
+          } else {
+            stopEscalation(change.incident.id).catch((error) =>
+              console.error(
+                `Error stopping escalation for monitor ${id}:`,
+                error,
+              ),
+            );
+          }
+        } else if (
+          result.outcome === "degraded" &&
+          monitor.lastResult?.outcome === "up" &&
+          // A flapping monitor stays quiet until it settles, degraded or not
+          !isMonitorFlapping(id)
+        ) {
+          notifyDegraded(monitor, result, details.stages).catch((error) =>
+            console.error(`Error notifying for monitor ${id}:`, error),
+          );
+        }
+      }
+    }
+  } catch (error) {
+    console.error(`Error running monitor ${id}:`, error);
+  } finally {
+    if (runningChecks.get(id) === controller) runningChecks.delete(id);
+  }
+};
+
+// Helper function to wake up at runAt, even when that's months away
+const armTimer = (id, runAt) => {
+  const delay = runAt - Date.now();
+  timers.set(
+    id,
+    delay > MAX_TIMER_DELAY_MS
+      ? setTimeout(() => armTimer(id, runAt), MAX_TIMER_DELAY_MS)
+      : setTimeout(() => runMonitor(id), delay),
+  );
+};
+
+/**
+ * Books a monitor's next run, replacing any run already booked. Paused
+ * and deleted monitors, and schedules with no runs left, are just taken
+ * off the schedule.
+ */
+export const scheduleMonitor = (id) => {
+  clearTimeout(timers.get(id));
+  timers.delete(id);
+  nextRuns.delete(id);
+
+  const monitor = getMonitor(id);
+  if (!monitor || monitor.paused) return;
+
+  const runAt = getNextRunTime(monitor);
+  if (runAt === null) return;
+
+  armTimer(id, runAt);
+  nextRuns.set(id, runAt);
+};
+
+/**
+ * Takes a monitor off the schedule and stops its check if one is running,
+ * so an edited or paused monitor never records a result from its old
+ * settings.
+ */
+export const unscheduleMonitor = (id) => {
+  clearTimeout(timers.get(id));
+  timers.delete(id);
+  nextRuns.delete(id);
+  runningChecks.get(id)?.abort();
+  runningChecks.delete(id);
+};
+
+export const getNextRunAt = (id) => {
+  const runAt = nextRuns.get(id);
+  return runAt ? new Date(runAt).toISOString() : null;
+};
+
+export const isMonitorRunning = (id) => runningChecks.has(id);
+
+/**
+ * Schedules every saved monitor. `getLocation` resolves with the location
+ * info attached to scheduled checks' results.
+ */
+export const startScheduler = ({ getLocation } = {}) => {
+  if (getLocation) getLocationInfo = getLocation;
+  listMonitors().forEach((monitor) => scheduleMonitor(monitor.id));
+};
@@ -0,0 +1,205 @@
+// HSTS max-age we consider long enough: 180 days, in seconds
+const HSTS_MIN_MAX_AGE = 180 * 24 * 60 * 60;
+
+// Referrer policies that still send the full URL across origins
+const WEAK_REFERRER_POLICIES = ["unsafe-url", "no-referrer-when-downgrade"];
+
+// Headers that tell an attacker what the server is running
+const LEAKY_HEADERS = [
+  "server",
+  "x-powered-by",
+  "x-aspnet-version",
+  "x-aspnetmvc-version",
+  "x-generator",
+];
+
+// Points taken off for each leaking header
+const LEAK_PENALTY = 5;
+
+const GRADE_THRESHOLDS = [
+  { grade: "A", min: 90 },
+  { grade: "B", min: 75 },
+  { grade: "C", min: 60 },
+  { grade: "D", min: 45 },
+];
+
+// Helper function to read one CSP directive's sources
+const getCspDirective = (csp, name) => {
+  const directive = csp
+    .split(";")
+    .map((part) => part.trim())
+    .find((part) => part.toLowerCase().startsWith(`${name} `));
+  return directive ? directive.slice(name.length + 1).trim() : undefined;
+};
+
+const checkHsts = (headers, isHttps) => {
+  const value = headers["strict-transport-security"];
+  const result = { header: "Strict-Transport-Security", value, weight: 20 };
+
+  if (!isHttps) {
+    return {
+      ...result,
+      status: "fail",
+      message: "Site is not served over HTTPS",
+    };
+  }
+  if (!value) {
+    return { ...result, status: "fail", message: "Header is missing" };
+  }
+
+  const maxAge = Number(/max-age\s*=\s*"?(\d+)/i.exec(value)?.[1] || 0);
+  const includeSubDomains = /includesubdomains/i.test(value);
+  const preload = /preload/i.test(value);
+  const extras = [
+    includeSubDomains && "includeSubDomains",
+    preload && "preload",
+  ].filter(Boolean);
+
+  if (maxAge < HSTS_MIN_MAX_AGE) {
+    return {
+      ...result,
+      status: "warn",
+      message: `max-age ${maxAge}s is shorter than 180 days`,
+    };
+  }
+  return {
+    ...result,
+    status: "pass",
+    message: `max-age ${maxAge}s${extras.length ? `, ${extras.join(", ")}` : ""}${preload && !includeSubDomains ? " (preload requires includeSubDomains)" : ""}`,
+  };
+};
+
+const checkCsp = (headers) => {
+  const value = headers["content-security-policy"];
+  const result = { header: "Content-Security-Policy", value, weight: 25 };
+
+  if (!value) {
+    return { ...result, status: "fail", message: "Header is missing" };
+  }
+
+  const scriptSources =
+    getCspDirective(value, "script-src") ||
+    getCspDirective(value, "default-src") ||
+    "";
+  const unsafe = ["'unsafe-inline'", "'unsafe-eval'"].filter((source) =>
+    scriptSources.includes(source),
+  );
+  if (unsafe.length > 0) {
+    return {
+      ...result,
+      status: "warn",
+      message: `Scripts allow ${unsafe.join(" and ")}`,
+    };
+  }
+  return { ...result, status: "pass", message: "Policy is set" };
+};
+
+const checkFraming = (headers) => {
+  const value = headers["x-frame-options"];
+  const frameAncestors = headers["content-security-policy"]
+    ? getCspDirective(headers["content-security-policy"], "frame-ancestors")
+    : undefined;
+  const result = {
+    header: "X-Frame-Options / frame-ancestors",
+    value: frameAncestors ? `frame-ancestors ${frameAncestors}` : value,
+    weight: 15,
+  };
+
+  if (frameAncestors) {
+    return { ...result, status: "pass", message: "Set by CSP frame-ancestors" };
+  }
+  if (value && /^(deny|sameorigin)$/i.test(value.trim())) {
+    return { ...result, status: "pass", message: `Framing set to ${value}` };
+  }
+  if (value) {
+    return {
+      ...result,
+      status: "warn",
+      message: `Unrecognised value "${value}"`,
+    };
+  }
+  return { ...result, status: "fail", message: "Page can be framed" };
+};
+
+const checkContentTypeOptions = (headers) => {
+  const value = headers["x-content-type-options"];
+  const result = { header: "X-Content-Type-Options", value, weight: 10 };
+
+  if (value && value.trim().toLowerCase() === "nosniff") {
+    return { ...result, status: "pass", message: "MIME sniffing disabled" };
+  }
+  return {
+    ...result,
+    status: "fail",
+    message: value ? `Expected "nosniff"` : "Header is missing",
+  };
+};
+
+const checkReferrerPolicy = (headers) => {
+  const value = headers["referrer-policy"];
+  const result = { header: "Referrer-Policy", value, weight: 15 };
+
+  if (!value) {
+    return { ...result, status: "fail", message: "Header is missing" };
+  }
+  // The last recognised policy in the list wins
+  const policies = value.split(",").map((p) => p.trim().toLowerCase());
+  const effective = policies[policies.length - 1];
+  if (WEAK_REFERRER_POLICIES.includes(effective)) {
+    return {
+      ...result,
+      status: "warn",
+      message: `"${effective}" leaks full URLs to other sites`,
+    };
+  }
+  return { ...result, status: "pass", message: `Policy is "${effective}"` };
+};
+
+const checkPermissionsPolicy = (headers) => {
+  const value = headers["permissions-policy"];
+  const result = { header: "Permissions-Policy", value, weight: 15 };
+
+  if (!value) {
+    return { ...result, status: "fail", message: "Header is missing" };
+  }
+  return { ...result, status: "pass", message: "Policy is set" };
+};
+
+// Server names on their own are fine; versions are the leak
+const findLeaks = (headers) =>
+  LEAKY_HEADERS.filter((name) => headers[name] !== undefined)
+    .filter((name) => name !== "server" || /\d/.test(headers[name]))
+    .map((name) => ({ header: name, value: String(headers[name]) }));
+
+/**
+ * Audits the response headers for the common security headers and for
+ * headers that leak server software versions, and grades the result A–F.
+ * A passing header earns its full weight, a weak one half of it.
+ */
+export function auditSecurityHeaders(headers, { isHttps }) {
+  const checks = [
+    checkHsts(headers, isHttps),
+    checkCsp(headers),
+    checkFraming(headers),
+    checkContentTypeOptions(headers),
+    checkReferrerPolicy(headers),
+    checkPermissionsPolicy(headers),
+  ];
+  const leaks = findLeaks(headers);
+
+  const earned = checks.reduce(
+    (total, check) =>
+      total +
+      (check.status === "pass"
+        ? check.weight
+        : check.status === "warn"
+          ? check.weight / 2
+          : 0),
+    0,
+  );
+  const score = Math.max(Math.round(earned - leaks.length * LEAK_PENALTY), 0);
+  const grade =
+    GRADE_THRESHOLDS.find((threshold) => score >= threshold.min)?.grade || "F";
+
+  return { grade, score, checks, leaks };
+}
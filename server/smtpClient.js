@@ -0,0 +1,259 @@
+import net from "net";
+import tls from "tls";
+import os from "os";
+import { randomUUID } from "crypto";
+
+// How long to wait for the server to answer any one command
+const DEFAULT_SMTP_TIMEOUT_MS = 15000;
+
+// Ways of securing the connection: TLS from the start (usually port 465),
+// an upgrade with STARTTLS (usually 587), or none (local catchers on 25
+// or 1025)
+export const SMTP_SECURITY_MODES = ["tls", "starttls", "none"];
+
+/**
+ * Reads the server's replies off a socket. A reply can span several lines
+ * ("250-SIZE", "250-8BITMIME", "250 OK"); it's complete at the line whose
+ * code is followed by a space.
+ */
+const createReplyReader = () => {
+  let buffer = "";
+  let lines = [];
+  let waiting = null;
+  let failure = null;
+
+  const settle = () => {
+    if (!waiting) return;
+
+    let end;
+    while ((end = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line);
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = {
+          code: Number(line.slice(0, 3)),
+          lines: lines.map((l) => l.slice(4)),
+        };
+        lines = [];
+        waiting.resolve(reply);
+        waiting = null;
+        return;
+      }
+    }
+
+    // Only fail once every reply that did arrive has been read
+    if (failure) {
+      waiting.reject(failure);
+      waiting = null;
+    }
+  };
+
+  return {
+    push: (chunk) => {
+      buffer += chunk.toString("utf8");
+      settle();
+    },
+    fail: (error) => {
+      failure = failure || error;
+      settle();
+    },
+    next: () =>
+      new Promise((resolve, reject) => {
+        waiting = { resolve, reject };
+        settle();
+      }),
+  };
+};
+
+// Helper function to wire a socket up to a reply reader
+const attachSocket = (socket, reader, timeoutMs) => {
+  socket.setTimeout(timeoutMs);
+  socket.on("data", reader.push);
+  socket.on("timeout", () => {
+    reader.fail(new Error("SMTP server stopped responding"));
+    socket.destroy();
+  });
+  socket.on("error", reader.fail);
+  socket.on("close", () =>
+    reader.fail(new Error("SMTP server closed the connection")),
+  );
+};
+
+const openSocket = ({ host, port, security, verifyCertificate }) =>
+  new Promise((resolve, reject) => {
+    const socket =
+      security === "tls"
+        ? tls.connect({
+            host,
+            port,
+            servername: net.isIP(host) ? undefined : host,
+            rejectUnauthorized: verifyCertificate,
+          })
+        : net.connect({ host, port });
+    socket.once(security === "tls" ? "secureConnect" : "connect", () => {
+      socket.off("error", reject);
+      resolve(socket);
+    });
+    socket.once("error", reject);
+  });
+
+// Upgrades a plain connection after the server has agreed to STARTTLS
+const upgradeSocket = (socket, { host, verifyCertificate }) =>
+  new Promise((resolve, reject) => {
+    // The plain socket's error and close handlers stay, but only feed the
+    // old reader, which nothing waits on any more
+    socket.removeAllListeners("data");
+    socket.removeAllListeners("timeout");
+    const secure = tls.connect({
+      socket,
+      servername: net.isIP(host) ? undefined : host,
+      rejectUnauthorized: verifyCertificate,
+    });
+    secure.once("secureConnect", () => {
+      secure.off("error", reject);
+      resolve(secure);
+    });
+    secure.once("error", reject);
+  });
+
+// Encodes a header value that isn't plain ASCII, per RFC 2047. Line
+// breaks are dropped so a value can't add headers of its own.
+const encodeHeader = (value) => {
+  const line = value.replace(/[\r\n]+/g, " ");
+  return /^[\x20-\x7e]*$/.test(line)
+    ? line
+    : `=?UTF-8?B?${Buffer.from(line, "utf8").toString("base64")}?=`;
+};
+
+// Base64 with the line lengths mail servers expect
+const encodeBody = (text) =>
+  Buffer.from(text, "utf8")
+    .toString("base64")
+    .replace(/.{1,76}/g, "$&\r\n");
+
+/**
+ * Builds a MIME message with a plain text part and, if given, an HTML one
+ */
+export const buildMessage = ({ from, to, subject, text, html }) => {
+  const boundary = `alt-${randomUUID()}`;
+  const domain = from.split("@")[1] || os.hostname();
+  const headers = [
+    `From: ${from}`,
+    `To: ${to.join(", ")}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+  ];
+  const textPart = [
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(text),
+  ];
+
+  if (!html) return [...headers, ...textPart].join("\r\n");
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+};
+
+/**
+ * Sends one email over SMTP: EHLO, STARTTLS when asked for, AUTH when a
+ * username is set (PLAIN, or LOGIN if that's all the server offers), then
+ * the message. Rejects with the server's reply when a command fails.
+ */
+export const sendMail = async (
+  {
+    host,
+    port,
+    security = "starttls",
+    verifyCertificate = true,
+    username,
+    password,
+    timeoutMs = DEFAULT_SMTP_TIMEOUT_MS,
+  },
+  message,
+) => {
+  const options = { host, port, security, verifyCertificate };
+  let socket = await openSocket(options);
+  let reader = createReplyReader();
+  attachSocket(socket, reader, timeoutMs);
+
+  const expect = async (codes, step) => {
+    const reply = await reader.next();
+    if (!codes.includes(reply.code)) {
+      throw new Error(
+        `SMTP ${step} failed: ${reply.code} ${reply.lines.join(" ")}`.trim(),
+      );
+    }
+    return reply;
+  };
+  const command = (line, codes, step = line.split(" ")[0]) => {
+    socket.write(`${line}\r\n`);
+    return expect(codes, step);
+  };
+  const hello = async () => {
+    const reply = await command(`EHLO ${os.hostname()}`, [250]);
+    return reply.lines.slice(1).map((line) => line.toUpperCase());
+  };
+
+  try {
+    await expect([220], "greeting");
+    let capabilities = await hello();
+
+    if (security === "starttls") {
+      if (!capabilities.some((line) => line.startsWith("STARTTLS"))) {
+        throw new Error("SMTP server doesn't support STARTTLS");
+      }
+      await command("STARTTLS", [220]);
+      socket = await upgradeSocket(socket, options);
+      reader = createReplyReader();
+      attachSocket(socket, reader, timeoutMs);
+      capabilities = await hello();
+    }
+
+    if (username) {
+      const methods = capabilities.find((line) => line.startsWith("AUTH"));
+      if (methods && !/\bPLAIN\b/.test(methods) && /\bLOGIN\b/.test(methods)) {
+        await command("AUTH LOGIN", [334], "AUTH");
+        await command(Buffer.from(username).toString("base64"), [334], "AUTH");
+        await command(
+          Buffer.from(password || "").toString("base64"),
+          [235],
+          "AUTH",
+        );
+      } else {
+        const credentials = Buffer.from(
+          `\0${username}\0${password || ""}`,
+        ).toString("base64");
+        await command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+      }
+    }
+
+    await command(`MAIL FROM:<${message.from}>`, [250], "MAIL FROM");
+    for (const recipient of message.to) {
+      await command(`RCPT TO:<${recipient}>`, [250, 251], "RCPT TO");
+    }
+    await command("DATA", [354]);
+
+    // Lines starting with a dot are doubled so none ends the message early
+    const data = buildMessage(message).replace(/^\./gm, "..");
+    await command(`${data}\r\n.`, [250], "DATA");
+    await command("QUIT", [221]).catch(() => {});
+  } finally {
+    socket.destroy();
+  }
+};
@@ -0,0 +1,118 @@
+import dns from "dns";
+import net from "net";
+
+// Error code for requests the target policy refuses
+export const TARGET_BLOCKED = "ETARGETBLOCKED";
+
+// Ranges a check may not connect to unless TARGET_ALLOW_CIDRS lets it.
+// Metadata endpoints come first so they're named as such.
+const DEFAULT_BLOCKED_RANGES = [
+  { cidr: "169.254.169.254/32", label: "cloud metadata" },
+  { cidr: "fd00:ec2::254/128", label: "cloud metadata" },
+  { cidr: "0.0.0.0/8", label: "unspecified" },
+  { cidr: "127.0.0.0/8", label: "loopback" },
+  { cidr: "10.0.0.0/8", label: "private" },
+  { cidr: "172.16.0.0/12", label: "private" },
+  { cidr: "192.168.0.0/16", label: "private" },
+  { cidr: "100.64.0.0/10", label: "carrier-grade NAT" },
+  { cidr: "169.254.0.0/16", label: "link-local" },
+  { cidr: "224.0.0.0/4", label: "multicast" },
+  { cidr: "240.0.0.0/4", label: "reserved" },
+  { cidr: "::/128", label: "unspecified" },
+  { cidr: "::1/128", label: "loopback" },
+  { cidr: "fc00::/7", label: "unique local" },
+  { cidr: "fe80::/10", label: "link-local" },
+  { cidr: "ff00::/8", label: "multicast" },
+];
+
+// Builds a matcher for one CIDR; a bare address is a single-host range
+const parseCidr = (cidr, label) => {
+  const [address, prefixText] = cidr.trim().split("/");
+  const family = net.isIP(address);
+  const maxPrefix = family === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? maxPrefix : Number(prefixText);
+
+  if (
+    !family ||
+    !Number.isInteger(prefix) ||
+    prefix < 0 ||
+    prefix > maxPrefix
+  ) {
+    throw new Error(`Invalid CIDR in target policy: ${cidr}`);
+  }
+
+  const list = new net.BlockList();
+  list.addSubnet(address, prefix, family === 4 ? "ipv4" : "ipv6");
+  return { cidr: cidr.trim(), label, list };
+};
+
+// Reads a comma-separated CIDR list from the environment
+const parseCidrList = (value) =>
+  (value || "")
+    .split(",")
+    .filter((cidr) => cidr.trim())
+    .map((cidr) => parseCidr(cidr));
+
+// Explicit denies win over allows, and allows win over the defaults
+const deniedRanges = parseCidrList(process.env.TARGET_DENY_CIDRS);
+const allowedRanges = parseCidrList(process.env.TARGET_ALLOW_CIDRS);
+const defaultRanges = DEFAULT_BLOCKED_RANGES.map(({ cidr, label }) =>
+  parseCidr(cidr, label),
+);
+
+// IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+const normalizeAddress = (address) =>
+  address.replace(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i, "$1");
+
+const findRange = (ranges, address) => {
+  const type = net.isIPv4(address) ? "ipv4" : "ipv6";
+  return ranges.find((range) => range.list.check(address, type));
+};
+
+/**
+ * Returns why a check may not connect to the address, or null if it may.
+ * Configured with TARGET_DENY_CIDRS and TARGET_ALLOW_CIDRS on top of the
+ * default loopback, private, link-local and metadata ranges.
+ */
+export const getBlockReason = (rawAddress) => {
+  const address = normalizeAddress(rawAddress);
+  if (!net.isIP(address)) return null;
+
+  const denied = findRange(deniedRanges, address);
+  if (denied) return `${address} is in the denied range ${denied.cidr}`;
+  if (findRange(allowedRanges, address)) return null;
+
+  const blocked = findRange(defaultRanges, address);
+  return blocked
+    ? `${address} is in the ${blocked.label} range ${blocked.cidr}`
+    : null;
+};
+
+export const createBlockedError = (reason) => {
+  const error = new Error(reason);
+  error.code = TARGET_BLOCKED;
+  return error;
+};
+
+/**
+ * A drop-in for dns.lookup that refuses answers the target policy blocks.
+ * Passed to http.request, so the policy applies to the exact addresses the
+ * socket connects to and a rebinding DNS answer can't slip past it.
+ */
+export const policyLookup = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error);
+
+    // With `all` set the answer is a list of { address, family }
+    const answers = Array.isArray(address) ? address : [{ address }];
+    for (const answer of answers) {
+      const reason = getBlockReason(answer.address);
+      if (reason) {
+        return callback(
+          createBlockedError(`${reason} (resolved from ${hostname})`),
+        );
+      }
+    }
+    callback(null, address, family);
+  });
+};
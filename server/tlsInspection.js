@@ -0,0 +1,135 @@
+import { X509Certificate } from "crypto";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Signature algorithm OIDs we expect to see on web certificates
+const SIGNATURE_ALGORITHMS = {
+  "1.2.840.113549.1.1.5": "sha1WithRSAEncryption",
+  "1.2.840.113549.1.1.10": "RSASSA-PSS",
+  "1.2.840.113549.1.1.11": "sha256WithRSAEncryption",
+  "1.2.840.113549.1.1.12": "sha384WithRSAEncryption",
+  "1.2.840.113549.1.1.13": "sha512WithRSAEncryption",
+  "1.2.840.10045.4.3.2": "ecdsa-with-SHA256",
+  "1.2.840.10045.4.3.3": "ecdsa-with-SHA384",
+  "1.2.840.10045.4.3.4": "ecdsa-with-SHA512",
+  "1.3.101.112": "Ed25519",
+  "1.3.101.113": "Ed448",
+};
+
+// Reads a DER tag/length header and returns where its contents start and end
+const readDerHeader = (buf, pos) => {
+  let length = buf[pos + 1];
+  let start = pos + 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + buf[start + i];
+    }
+    start += lengthBytes;
+  }
+  return { tag: buf[pos], start, end: start + length };
+};
+
+const decodeOid = (bytes) => {
+  const parts = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let value = 0;
+  for (const byte of bytes.subarray(1)) {
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join(".");
+};
+
+// Node doesn't expose the signature algorithm, so read it from the DER:
+// Certificate ::= SEQUENCE { tbsCertificate, signatureAlgorithm, ... }
+const getSignatureAlgorithm = (raw) => {
+  try {
+    const certificate = readDerHeader(raw, 0);
+    const tbsCertificate = readDerHeader(raw, certificate.start);
+    const algorithm = readDerHeader(raw, tbsCertificate.end);
+    const oid = readDerHeader(raw, algorithm.start);
+    const oidString = decodeOid(raw.subarray(oid.start, oid.end));
+    return SIGNATURE_ALGORITHMS[oidString] || oidString;
+  } catch (e) {
+    return "Unknown";
+  }
+};
+
+const formatName = (name = {}) =>
+  Object.entries(name)
+    .map(
+      ([key, value]) =>
+        `${key}=${Array.isArray(value) ? value.join("+") : value}`,
+    )
+    .join(", ");
+
+const describeCertificate = (cert) => {
+  let keyType = "Unknown";
+  let keySize;
+  try {
+    const { publicKey } = new X509Certificate(cert.raw);
+    const details = publicKey.asymmetricKeyDetails || {};
+    keyType = publicKey.asymmetricKeyType.toUpperCase();
+    keySize = details.modulusLength || cert.bits;
+    if (details.namedCurve) keyType += ` (${details.namedCurve})`;
+  } catch (e) {
+    keySize = cert.bits;
+  }
+
+  return {
+    subject: formatName(cert.subject),
+    issuer: formatName(cert.issuer),
+    subjectAltNames: cert.subjectaltname
+      ? cert.subjectaltname.split(", ").map((san) => san.replace(/^DNS:/, ""))
+      : [],
+    validFrom: new Date(cert.valid_from).toISOString(),
+    validTo: new Date(cert.valid_to).toISOString(),
+    keyType,
+    keySize,
+    signatureAlgorithm: getSignatureAlgorithm(cert.raw),
+    fingerprint256: cert.fingerprint256,
+    serialNumber: cert.serialNumber,
+  };
+};
+
+/**
+ * Describes a connected TLS socket: the negotiated protocol and cipher and
+ * the peer's certificate chain, leaf first. Expiry is measured on the leaf
+ * and flagged when it falls within `expiryWarningDays`.
+ */
+export function inspectTlsSocket(socket, { expiryWarningDays }) {
+  const chain = [];
+  let cert = socket.getPeerCertificate(true);
+
+  // The root's issuerCertificate points back at itself
+  while (cert && cert.raw && !chain.some((c) => c.raw.equals(cert.raw))) {
+    chain.push(cert);
+    cert = cert.issuerCertificate;
+  }
+
+  const cipher = socket.getCipher();
+  const leaf = chain[0];
+  const daysUntilExpiry = leaf
+    ? Math.floor((new Date(leaf.valid_to).getTime() - Date.now()) / DAY_MS)
+    : undefined;
+
+  return {
+    protocol: socket.getProtocol(),
+    cipher: cipher
+      ? { name: cipher.name, standardName: cipher.standardName }
+      : undefined,
+    authorized: socket.authorized,
+    authorizationError: socket.authorizationError
+      ? String(socket.authorizationError)
+      : undefined,
+    daysUntilExpiry,
+    expiryWarningDays,
+    expiresSoon:
+      daysUntilExpiry !== undefined && daysUntilExpiry <= expiryWarningDays,
+    chain: chain.map(describeCertificate),
+  };
+}
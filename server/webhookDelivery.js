@@ -0,0 +1,249 @@
+import { createHmac, randomUUID } from "crypto";
+import { getChannel } from "./notificationStore.js";
+import { createDelivery, updateDelivery } from "./deliveryStore.js";
+
+// How long to wait for a receiver to answer one attempt
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Waits before each retry; a delivery gets one attempt more than there
+// are delays
+const RETRY_DELAYS_MS = [10 * 1000, 60 * 1000, 5 * 60 * 1000];
+
+const MAX_TEMPLATE_LENGTH = 10000;
+export const MIN_SECRET_LENGTH = 16;
+
+// What a payload template can use, each written as {{name}}
+export const WEBHOOK_VARIABLES = [
+  "event",
+  "status",
+  "title",
+  "monitorId",
+  "monitorName",
+  "url",
+  "statusCode",
+  "responseTime",
+  "errorMessage",
+  "failedStage",
+  "degradedReasons",
+  "stages",
+  "checkLocation",
+  "checkedAt",
+  "incidentId",
+  "startedAt",
+  "endedAt",
+  "durationMs",
+  "failedChecks",
+  "acknowledgedBy",
+  "link",
+  "timestamp",
+];
+
+export const DEFAULT_WEBHOOK_TEMPLATE = `{
+  "event": "{{event}}",
+  "status": "{{status}}",
+  "monitor": { "id": "{{monitorId}}", "name": "{{monitorName}}" },
+  "url": "{{url}}",
+  "statusCode": "{{statusCode}}",
+  "errorMessage": "{{errorMessage}}",
+  "failedStage": "{{failedStage}}",
+  "stages": "{{stages}}",
+  "incident": { "id": "{{incidentId}}", "startedAt": "{{startedAt}}" },
+  "link": "{{link}}",
+  "timestamp": "{{timestamp}}"
+}
+`;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*(\w+)\s*\}\}$/;
+
+// Returns why a payload template can't be used, if it can't
+export const findInvalidTemplate = (template) => {
+  if (typeof template !== "string" || !template.trim()) {
+    return "Payload template is required";
+  }
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    return `Payload template must be under ${MAX_TEMPLATE_LENGTH} characters`;
+  }
+  try {
+    JSON.parse(template);
+  } catch (error) {
+    return `Payload template isn't valid JSON: ${error.message}`;
+  }
+  const unknown = [...template.matchAll(PLACEHOLDER)]
+    .map(([, name]) => name)
+    .find((name) => !WEBHOOK_VARIABLES.includes(name));
+  return unknown === undefined
+    ? null
+    : `Unknown template variable {{${unknown}}}`;
+};
+
+// Helper function to fill in one value of a parsed template
+const renderValue = (value, variables) => {
+  if (typeof value === "string") {
+    // A string that's only a placeholder takes the variable as it is, so
+    // "{{stages}}" becomes an array and "{{statusCode}}" a number
+    const whole = value.match(WHOLE_PLACEHOLDER);
+    if (whole) return variables[whole[1]] ?? null;
+    return value.replace(PLACEHOLDER, (_, name) => {
+      const variable = variables[name];
+      if (variable === undefined || variable === null) return "";
+      return typeof variable === "object"
+        ? JSON.stringify(variable)
+        : String(variable);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => renderValue(item, variables));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        renderValue(item, variables),
+      ]),
+    );
+  }
+  return value;
+};
+
+/**
+ * Builds a payload from a template. The template is parsed as JSON first
+ * and placeholders are filled in inside its strings, so a value can never
+ * break out of the JSON it's in.
+ */
+export const renderTemplate = (template, variables) =>
+  JSON.stringify(renderValue(JSON.parse(template), variables));
+
+/**
+ * Signs a payload: an HMAC-SHA256 of the timestamp, a dot and the body,
+ * keyed with the channel's secret. Receivers recompute it to check the
+ * payload came from here and reject old timestamps to stop replays.
+ */
+export const signPayload = (secret, timestamp, body) =>
+  `sha256=${createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex")}`;
+
+// Receivers that are down or busy are worth trying again; ones that
+// reject the payload aren't
+const isRetryableStatus = (status) =>
+  status === 408 || status === 429 || status >= 500;
+
+// Helper function to make one signed POST and describe how it went
+const attemptDelivery = async (config, { id, event, body }) => {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+  const attempt = { at: new Date(startedAt).toISOString() };
+
+  try {
+    const response = await fetch(config.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Id": id,
+        "X-Webhook-Event": event,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signPayload(config.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    attempt.statusCode = response.status;
+    if (!response.ok) {
+      const reply = (await response.text().catch(() => "")).trim();
+      attempt.error = `Receiver returned ${response.status}${reply ? `: ${reply.slice(0, 200)}` : ""}`;
+      attempt.retryable = isRetryableStatus(response.status);
+    }
+  } catch (error) {
+    attempt.error =
+      error.name === "TimeoutError"
+        ? "Receiver didn't respond in time"
+        : `Request failed: ${error.cause?.message || error.message}`;
+    attempt.retryable = true;
+  }
+
+  attempt.durationMs = Date.now() - startedAt;
+  return attempt;
+};
+
+/**
+ * Sends a notification once, for a test; rejects if the receiver doesn't
+ * accept it
+ */
+export const sendSignedWebhook = async (config, notification) => {
+  const attempt = await attemptDelivery(config, {
+    id: randomUUID(),
+    event: notification.event,
+    body: renderTemplate(config.template, notification.variables),
+  });
+  if (attempt.error) throw new Error(attempt.error);
+};
+
+// Helper function to make a delivery's next attempt, and book the one
+// after if it fails in a way worth retrying. Each attempt uses the
+// channel's current URL and secret; the payload stays the same.
+const runDelivery = async (delivery) => {
+  const channel = getChannel(delivery.channelId);
+  if (!channel || channel.type !== "webhook") {
+    updateDelivery(delivery.id, {
+      status: "failed",
+      nextAttemptAt: undefined,
+      error: "The channel was deleted",
+    });
+    return;
+  }
+
+  const { retryable, ...attempt } = await attemptDelivery(
+    channel.config,
+    delivery,
+  );
+  const attempts = [...delivery.attempts, attempt];
+  const delay = RETRY_DELAYS_MS[attempts.length - 1];
+
+  if (!attempt.error) {
+    updateDelivery(delivery.id, {
+      status: "delivered",
+      attempts,
+      nextAttemptAt: undefined,
+      error: undefined,
+    });
+  } else if (retryable && delay !== undefined) {
+    const updated = updateDelivery(delivery.id, {
+      status: "retrying",
+      attempts,
+      nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+      error: attempt.error,
+    });
+    // Gone if the channel was deleted or the log pruned in the meantime
+    if (updated) setTimeout(() => runDelivery(updated), delay).unref();
+  } else {
+    updateDelivery(delivery.id, {
+      status: "failed",
+      attempts,
+      nextAttemptAt: undefined,
+      error: attempt.error,
+    });
+    console.error(
+      `Webhook delivery to ${channel.name} failed after ${attempts.length} attempt${attempts.length === 1 ? "" : "s"}:`,
+      attempt.error,
+    );
+  }
+};
+
+/**
+ * Delivers a notification to a webhook channel, retrying with backoff in
+ * the background. Each delivery and its attempts go in the channel's
+ * delivery log.
+ */
+export const deliverWebhook = async (channel, notification) => {
+  const delivery = createDelivery({
+    channelId: channel.id,
+    event: notification.event,
+    title: notification.title,
+    monitorId: notification.monitorId,
+    body: renderTemplate(channel.config.template, notification.variables),
+    status: "pending",
+    attempts: [],
+  });
+  await runDelivery(delivery);
+};
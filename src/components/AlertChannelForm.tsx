@@ -0,0 +1,179 @@
+import React from "react";
+import { UseFormReturn, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Input } from "./ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import {
+  AlertChannelType,
+  OpsgenieChannelConfig,
+  PagerDutyChannelConfig,
+} from "../utils/monitorApi";
+
+// What each service calls its key and endpoint, and where they come from.
+// The URLs mirror the server's defaults.
+const SERVICE_HELP: Record<
+  AlertChannelType,
+  {
+    keyLabel: string;
+    keyDescription: string;
+    urlLabel: string;
+    defaultUrl: string;
+    urlDescription: string;
+  }
+> = {
+  pagerduty: {
+    keyLabel: "Integration key",
+    keyDescription:
+      "Add an Events API v2 integration to a PagerDuty service and copy its key.",
+    urlLabel: "Events API URL",
+    defaultUrl: "https://events.pagerduty.com/v2/enqueue",
+    urlDescription:
+      "Change it to send events to a proxy or a mock receiver instead.",
+  },
+  opsgenie: {
+    keyLabel: "API key",
+    keyDescription:
+      "Add an API integration to an Opsgenie team and copy its key.",
+    urlLabel: "API URL",
+    defaultUrl: "https://api.opsgenie.com",
+    urlDescription:
+      "Use https://api.eu.opsgenie.com for the EU region, or point it at any service with the same Alert API.",
+  },
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// A blank key is allowed here so an edit can keep the saved one; the
+// editor asks for one when there's none saved
+const alertChannelSchema = z.object({
+  key: z.string(),
+  url: z.string().trim().refine(isHttpUrl, "Enter the https:// URL of the API"),
+});
+
+export type AlertChannelValues = z.infer<typeof alertChannelSchema>;
+
+export const defaultAlertChannelValues = (
+  service: AlertChannelType,
+): AlertChannelValues => ({
+  key: "",
+  url: SERVICE_HELP[service].defaultUrl,
+});
+
+// Turns a saved channel's settings back into form values. The key is
+// never sent back, so it starts blank.
+export const fromPagerDutyConfig = (
+  config: PagerDutyChannelConfig,
+): AlertChannelValues => ({ key: "", url: config.eventsUrl });
+
+export const fromOpsgenieConfig = (
+  config: OpsgenieChannelConfig,
+): AlertChannelValues => ({ key: "", url: config.apiUrl });
+
+export const useAlertChannelForm = () =>
+  useForm<AlertChannelValues>({
+    resolver: zodResolver(alertChannelSchema),
+    defaultValues: defaultAlertChannelValues("pagerduty"),
+  });
+
+// Converts form values into the settings the server expects. A blank key
+// is left out so the saved one is kept.
+export const toPagerDutyConfig = (
+  values: AlertChannelValues,
+): PagerDutyChannelConfig => ({
+  routingKey: values.key.trim() || undefined,
+  eventsUrl: values.url.trim(),
+});
+
+export const toOpsgenieConfig = (
+  values: AlertChannelValues,
+): OpsgenieChannelConfig => ({
+  apiKey: values.key.trim() || undefined,
+  apiUrl: values.url.trim(),
+});
+
+interface AlertChannelFormProps {
+  form: UseFormReturn<AlertChannelValues>;
+  service: AlertChannelType;
+  // Whether the channel being edited already has a saved key
+  hasKey?: boolean;
+  disabled?: boolean;
+}
+
+// The key and endpoint of an incident management service; rendered inside
+// the parent's <form>, so it has none of its own
+const AlertChannelForm = ({
+  form,
+  service,
+  hasKey = false,
+  disabled = false,
+}: AlertChannelFormProps) => (
+  <Form {...form}>
+    <div className="space-y-4">
+      <FormField
+        control={form.control}
+        name="key"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>{SERVICE_HELP[service].keyLabel}</FormLabel>
+            <FormControl>
+              <Input
+                type="password"
+                placeholder={hasKey ? "Unchanged" : ""}
+                autoComplete="off"
+                disabled={disabled}
+                {...field}
+              />
+            </FormControl>
+            <FormDescription>
+              {SERVICE_HELP[service].keyDescription} It's never shown again once
+              saved.
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="url"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>{SERVICE_HELP[service].urlLabel}</FormLabel>
+            <FormControl>
+              <Input
+                placeholder={SERVICE_HELP[service].defaultUrl}
+                disabled={disabled}
+                {...field}
+              />
+            </FormControl>
+            <FormDescription>
+              {SERVICE_HELP[service].urlDescription}
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <p className="text-sm text-muted-foreground">
+        Each monitor has one alert: failures while it's open don't page again,
+        acknowledging the incident here acknowledges it, and recovery resolves
+        it. Keep Acknowledged and Recovered on so alerts stay in step.
+      </p>
+    </div>
+  </Form>
+);
+
+export default AlertChannelForm;
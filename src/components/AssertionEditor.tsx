@@ -0,0 +1,374 @@
+import React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  BodyAssertion,
+  BodyAssertionType,
+  CheckAssertions,
+} from "../utils/networkUtils";
+
+// Editable form of a body assertion; values stay as typed until submit
+export interface BodyAssertionDraft {
+  type: BodyAssertionType;
+  value: string;
+  path: string;
+  operator: "exists" | "equals";
+  // A failing soft assertion marks the check DEGRADED instead of DOWN
+  soft: boolean;
+}
+
+export const emptyAssertionDraft = (): BodyAssertionDraft => ({
+  type: "contains",
+  value: "",
+  path: "$.",
+  operator: "exists",
+  soft: false,
+});
+
+// Editable form of the soft assertions that only ever degrade a check
+export interface SoftAssertionDraft {
+  // Milliseconds, or empty for no budget
+  latencyBudget: string;
+  // Comma-separated header names
+  requiredHeaders: string;
+}
+
+export const emptySoftAssertionDraft = (): SoftAssertionDraft => ({
+  latencyBudget: "",
+  requiredHeaders: "",
+});
+
+/**
+ * Converts the editor's drafts into the assertions sent with a check.
+ * Throws an Error with a user-facing message when a draft is invalid.
+ */
+export const buildAssertions = (
+  acceptedStatus: string,
+  drafts: BodyAssertionDraft[],
+  softDraft: SoftAssertionDraft = emptySoftAssertionDraft(),
+): CheckAssertions => {
+  const buildBodyAssertion = (draft: BodyAssertionDraft): BodyAssertion => {
+    if (draft.type === "jsonPath") {
+      if (!/^\$/.test(draft.path)) {
+        throw new Error(`JSON path must start with "$": ${draft.path}`);
+      }
+      if (draft.operator === "exists") {
+        return { type: "jsonPath", path: draft.path, operator: "exists" };
+      }
+      // Compare against JSON when the value parses, otherwise as a string
+      let value: unknown = draft.value;
+      try {
+        value = JSON.parse(draft.value);
+      } catch (e) {
+        // Keep the raw string
+      }
+      return { type: "jsonPath", path: draft.path, operator: "equals", value };
+    }
+
+    if (!draft.value) {
+      throw new Error("Every body assertion needs a value");
+    }
+    if (draft.type === "regex") {
+      try {
+        new RegExp(draft.value);
+      } catch (e) {
+        throw new Error(`Invalid regular expression: ${draft.value}`);
+      }
+    }
+    return { type: draft.type, value: draft.value };
+  };
+  const body = drafts.map((draft) => ({
+    ...buildBodyAssertion(draft),
+    ...(draft.soft && { soft: true }),
+  }));
+
+  const latencyBudget = softDraft.latencyBudget.trim();
+  if (
+    latencyBudget &&
+    !(Number.isInteger(Number(latencyBudget)) && Number(latencyBudget) > 0)
+  ) {
+    throw new Error("Latency budget must be a whole number of milliseconds");
+  }
+  const requiredHeaders = softDraft.requiredHeaders
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  return {
+    acceptedStatus: acceptedStatus
+      .split(",")
+      .map((rule) => rule.trim())
+      .filter(Boolean),
+    body,
+    ...(latencyBudget && { maxResponseTimeMs: Number(latencyBudget) }),
+    ...(requiredHeaders.length > 0 && { requiredHeaders }),
+  };
+};
+
+// Turns saved assertions back into editable drafts
+export const draftsFromAssertions = (
+  body: BodyAssertion[] = [],
+): BodyAssertionDraft[] =>
+  body.map((assertion) => {
+    if (assertion.type === "jsonPath") {
+      const operator = assertion.operator || "exists";
+      return {
+        ...emptyAssertionDraft(),
+        type: "jsonPath",
+        path: assertion.path || "$.",
+        operator,
+        value: operator === "equals" ? JSON.stringify(assertion.value) : "",
+        soft: Boolean(assertion.soft),
+      };
+    }
+    return {
+      ...emptyAssertionDraft(),
+      type: assertion.type,
+      value: String(assertion.value ?? ""),
+      soft: Boolean(assertion.soft),
+    };
+  });
+
+// Turns saved soft assertions back into an editable draft
+export const softDraftFromAssertions = (
+  assertions: CheckAssertions = {},
+): SoftAssertionDraft => ({
+  latencyBudget: assertions.maxResponseTimeMs
+    ? String(assertions.maxResponseTimeMs)
+    : "",
+  requiredHeaders: (assertions.requiredHeaders || []).join(", "),
+});
+
+// How many assertions are set, for the badge on the collapsed editor
+export const countAssertions = (
+  acceptedStatus: string,
+  drafts: BodyAssertionDraft[],
+  softDraft: SoftAssertionDraft,
+): number =>
+  drafts.length +
+  [acceptedStatus, softDraft.latencyBudget, softDraft.requiredHeaders].filter(
+    (value) => value.trim(),
+  ).length;
+
+interface AssertionEditorProps {
+  acceptedStatus?: string;
+  onAcceptedStatusChange?: (value: string) => void;
+  drafts?: BodyAssertionDraft[];
+  onDraftsChange?: (drafts: BodyAssertionDraft[]) => void;
+  softDraft?: SoftAssertionDraft;
+  onSoftDraftChange?: (draft: SoftAssertionDraft) => void;
+  disabled?: boolean;
+}
+
+const AssertionEditor = ({
+  acceptedStatus = "",
+  onAcceptedStatusChange = () => {},
+  drafts = [],
+  onDraftsChange = () => {},
+  softDraft = emptySoftAssertionDraft(),
+  onSoftDraftChange = () => {},
+  disabled = false,
+}: AssertionEditorProps) => {
+  const updateDraft = (index: number, changes: Partial<BodyAssertionDraft>) => {
+    onDraftsChange(
+      drafts.map((draft, idx) =>
+        idx === index ? { ...draft, ...changes } : draft,
+      ),
+    );
+  };
+
+  const removeDraft = (index: number) => {
+    onDraftsChange(drafts.filter((_, idx) => idx !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="accepted-status">Accepted status codes</Label>
+        <Input
+          id="accepted-status"
+          placeholder="2xx, 3xx"
+          value={acceptedStatus}
+          onChange={(e) => onAcceptedStatusChange(e.target.value)}
+          disabled={disabled}
+        />
+        <p className="text-xs text-muted-foreground">
+          Comma-separated classes (2xx), ranges (200-299) or codes (204).
+          Defaults to 2xx, 3xx.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Response body assertions</Label>
+        {drafts.map((draft, idx) => (
+          <div key={idx} className="flex items-center gap-2">
+            <Select
+              value={draft.type}
+              onValueChange={(type: BodyAssertionType) =>
+                updateDraft(idx, { type })
+              }
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-[170px] shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="contains">Contains</SelectItem>
+                <SelectItem value="notContains">Does not contain</SelectItem>
+                <SelectItem value="regex">Matches regex</SelectItem>
+                <SelectItem value="jsonPath">JSON path</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {draft.type === "jsonPath" && (
+              <>
+                <Input
+                  placeholder="$.status"
+                  value={draft.path}
+                  onChange={(e) => updateDraft(idx, { path: e.target.value })}
+                  disabled={disabled}
+                  className="font-mono"
+                />
+                <Select
+                  value={draft.operator}
+                  onValueChange={(operator: BodyAssertionDraft["operator"]) =>
+                    updateDraft(idx, { operator })
+                  }
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="w-[110px] shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="exists">exists</SelectItem>
+                    <SelectItem value="equals">equals</SelectItem>
+                  </SelectContent>
+                </Select>
+              </>
+            )}
+
+            {(draft.type !== "jsonPath" || draft.operator === "equals") && (
+              <Input
+                placeholder={
+                  draft.type === "regex"
+                    ? "^<!doctype html"
+                    : draft.type === "jsonPath"
+                      ? "true"
+                      : "Text"
+                }
+                value={draft.value}
+                onChange={(e) => updateDraft(idx, { value: e.target.value })}
+                disabled={disabled}
+                className={
+                  draft.type === "regex" || draft.type === "jsonPath"
+                    ? "font-mono"
+                    : ""
+                }
+              />
+            )}
+
+            <label
+              className="flex items-center gap-1.5 text-xs text-muted-foreground shrink-0"
+              title="Mark the check DEGRADED instead of DOWN when this fails"
+            >
+              <Checkbox
+                checked={draft.soft}
+                onCheckedChange={(checked) =>
+                  updateDraft(idx, { soft: checked === true })
+                }
+                disabled={disabled}
+              />
+              Soft
+            </label>
+
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => removeDraft(idx)}
+              disabled={disabled}
+              aria-label="Remove assertion"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onDraftsChange([...drafts, emptyAssertionDraft()])}
+          disabled={disabled}
+          className="flex items-center"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add assertion
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Degraded when</Label>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label
+              htmlFor="latency-budget"
+              className="text-xs text-muted-foreground"
+            >
+              Slower than (ms)
+            </Label>
+            <Input
+              id="latency-budget"
+              type="number"
+              min={1}
+              placeholder="No budget"
+              value={softDraft.latencyBudget}
+              onChange={(e) =>
+                onSoftDraftChange({
+                  ...softDraft,
+                  latencyBudget: e.target.value,
+                })
+              }
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label
+              htmlFor="required-headers"
+              className="text-xs text-muted-foreground"
+            >
+              Missing any of these headers
+            </Label>
+            <Input
+              id="required-headers"
+              placeholder="Strict-Transport-Security, Content-Security-Policy"
+              value={softDraft.requiredHeaders}
+              onChange={(e) =>
+                onSoftDraftChange({
+                  ...softDraft,
+                  requiredHeaders: e.target.value,
+                })
+              }
+              disabled={disabled}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Checks that pass but break these, fail a soft assertion or need
+          retries are marked DEGRADED.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default AssertionEditor;
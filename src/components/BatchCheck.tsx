@@ -0,0 +1,362 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  Layers,
+  Play,
+  Square,
+} from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Badge } from "./ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import {
+  CheckOutcome,
+  formatResponseTime,
+  getResultOutcome,
+} from "../utils/networkUtils";
+
+type BatchRowStatus = "pending" | "running" | CheckOutcome;
+
+interface BatchRow {
+  id: string;
+  url: string;
+  status: BatchRowStatus;
+  statusCode?: number;
+  responseTime?: number;
+  errorMessage?: string;
+  degradedReasons?: string[];
+}
+
+type SortKey = "url" | "status" | "statusCode" | "responseTime";
+
+// Order rows sort in by status: problems first
+const STATUS_ORDER: Record<BatchRowStatus, number> = {
+  down: 0,
+  degraded: 1,
+  cancelled: 2,
+  running: 3,
+  pending: 4,
+  up: 5,
+};
+
+const statusStyles: Record<BatchRowStatus, string> = {
+  up: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  degraded:
+    "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+  down: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  cancelled: "bg-muted text-muted-foreground",
+  running: "bg-primary/10 text-primary animate-pulse",
+  pending: "bg-muted text-muted-foreground",
+};
+
+const MAX_CONCURRENCY = 20;
+
+// What went wrong with a row's check, or why it was degraded
+const describeProblem = (row: BatchRow) =>
+  row.errorMessage || row.degradedReasons?.join("; ");
+
+const BatchCheck = () => {
+  const [urlText, setUrlText] = useState("");
+  const [concurrency, setConcurrency] = useState("5");
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState("");
+  const [sortKey, setSortKey] = useState<SortKey | null>(null);
+  const [sortAsc, setSortAsc] = useState(true);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop the batch on the server if the view goes away mid-run
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const updateRow = (id: string, changes: Partial<BatchRow>) => {
+    setRows((current) =>
+      current.map((row) => (row.id === id ? { ...row, ...changes } : row)),
+    );
+  };
+
+  const handleRun = async () => {
+    const urls = urlText
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean);
+    const limit = Number(concurrency);
+
+    if (urls.length === 0) {
+      setError("Enter at least one URL");
+      return;
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CONCURRENCY) {
+      setError(`Concurrency must be between 1 and ${MAX_CONCURRENCY}`);
+      return;
+    }
+
+    const items = urls.map((url, index) => ({ id: String(index + 1), url }));
+    setRows(items.map((item) => ({ ...item, status: "pending" })));
+    setError("");
+    setIsRunning(true);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
+      const response = await fetch("/api/check-batch", {
+        method: "POST",
+        signal: abortController.signal,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ items, concurrency: limit }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(
+          body.error || `Server responded with status ${response.status}`,
+        );
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new Error("Failed to get response reader");
+      }
+
+      // Results stream in as NDJSON, one line per event
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const { type, id, data } = JSON.parse(line);
+
+          if (type === "start") {
+            updateRow(id, { status: "running" });
+          } else if (type === "result") {
+            updateRow(id, {
+              status: getResultOutcome(data),
+              statusCode: data.statusCode,
+              responseTime: data.totalResponseTime,
+              errorMessage: data.errorMessage || undefined,
+              degradedReasons: data.isDegraded
+                ? data.degradedReasons
+                : undefined,
+            });
+          }
+        }
+      }
+    } catch (e: any) {
+      if (!abortController.signal.aborted) {
+        setError(e.message || "Failed to connect to server");
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+      // Anything that hadn't finished was cut off
+      setRows((current) =>
+        current.map((row) =>
+          row.status === "pending" || row.status === "running"
+            ? { ...row, status: "cancelled" }
+            : row,
+        ),
+      );
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (sortKey === key) {
+      setSortAsc((asc) => !asc);
+    } else {
+      setSortKey(key);
+      setSortAsc(true);
+    }
+  };
+
+  const compareRows = (a: BatchRow, b: BatchRow): number => {
+    switch (sortKey) {
+      case "url":
+        return a.url.localeCompare(b.url);
+      case "status":
+        return STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+      case "statusCode":
+        return (a.statusCode ?? Infinity) - (b.statusCode ?? Infinity);
+      case "responseTime":
+        return (a.responseTime ?? Infinity) - (b.responseTime ?? Infinity);
+      default:
+        return 0;
+    }
+  };
+
+  const sortedRows = sortKey
+    ? [...rows].sort((a, b) => (sortAsc ? 1 : -1) * compareRows(a, b))
+    : rows;
+
+  const counts = rows.reduce(
+    (total, row) => ({ ...total, [row.status]: total[row.status] + 1 }),
+    { pending: 0, running: 0, up: 0, degraded: 0, down: 0, cancelled: 0 },
+  );
+
+  const SortableHead = ({
+    label,
+    column,
+  }: {
+    label: string;
+    column: SortKey;
+  }) => (
+    <TableHead>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="-ml-3 h-8"
+        onClick={() => handleSort(column)}
+      >
+        {label}
+        {sortKey !== column ? (
+          <ArrowUpDown className="ml-2 h-4 w-4" />
+        ) : sortAsc ? (
+          <ArrowUp className="ml-2 h-4 w-4" />
+        ) : (
+          <ArrowDown className="ml-2 h-4 w-4" />
+        )}
+      </Button>
+    </TableHead>
+  );
+
+  return (
+    <div className="bg-card rounded-lg shadow-md border p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold flex items-center">
+          <Layers className="mr-2 h-5 w-5 text-primary" />
+          Batch Check
+        </h2>
+        {rows.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Badge className="bg-green-500 hover:bg-green-600">
+              {counts.up} passed
+            </Badge>
+            {counts.degraded > 0 && (
+              <Badge className="bg-orange-500 hover:bg-orange-600">
+                {counts.degraded} degraded
+              </Badge>
+            )}
+            <Badge variant="destructive">{counts.down} failed</Badge>
+            {counts.pending + counts.running > 0 && (
+              <Badge variant="outline">
+                {counts.pending + counts.running} remaining
+              </Badge>
+            )}
+            {counts.cancelled > 0 && (
+              <Badge variant="secondary">{counts.cancelled} cancelled</Badge>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="batch-urls">URLs, one per line</Label>
+        <Textarea
+          id="batch-urls"
+          placeholder={"https://example.com\nhttps://example.com/health"}
+          className="font-mono min-h-[140px]"
+          value={urlText}
+          onChange={(e) => setUrlText(e.target.value)}
+          disabled={isRunning}
+        />
+      </div>
+
+      <div className="flex items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="batch-concurrency">Concurrency</Label>
+          <Input
+            id="batch-concurrency"
+            type="number"
+            min={1}
+            max={MAX_CONCURRENCY}
+            className="w-[120px]"
+            value={concurrency}
+            onChange={(e) => setConcurrency(e.target.value)}
+            disabled={isRunning}
+          />
+        </div>
+        {isRunning ? (
+          <Button variant="outline" onClick={handleStop}>
+            <Square className="mr-2 h-4 w-4" />
+            Stop
+          </Button>
+        ) : (
+          <Button onClick={handleRun} disabled={!urlText.trim()}>
+            <Play className="mr-2 h-4 w-4" />
+            Run Batch
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-sm text-destructive font-medium">{error}</p>}
+
+      {rows.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <SortableHead label="URL" column="url" />
+              <SortableHead label="Status" column="status" />
+              <SortableHead label="HTTP" column="statusCode" />
+              <SortableHead label="Response Time" column="responseTime" />
+              <TableHead>Problem</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedRows.map((row) => (
+              <TableRow key={row.id}>
+                <TableCell className="truncate max-w-[240px]">
+                  {row.url}
+                </TableCell>
+                <TableCell>
+                  <span
+                    className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[row.status]}`}
+                  >
+                    {row.status.toUpperCase()}
+                  </span>
+                </TableCell>
+                <TableCell>{row.statusCode ?? "--"}</TableCell>
+                <TableCell>
+                  {row.responseTime !== undefined && row.status !== "cancelled"
+                    ? formatResponseTime(row.responseTime)
+                    : "--"}
+                </TableCell>
+                <TableCell
+                  className={`text-sm max-w-[280px] truncate ${row.errorMessage ? "text-destructive" : "text-orange-600 dark:text-orange-400"}`}
+                >
+                  <span title={describeProblem(row)}>
+                    {describeProblem(row)}
+                  </span>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default BatchCheck;
@@ -1,5 +1,6 @@
-import React from "react";
+import React, { useEffect, useRef, useState } from "react";
 import {
+  BarChartHorizontal,
   Check,
   X,
   Loader2,
@@ -8,14 +9,108 @@ import {
   Shield,
   Download,
   Zap,
+  ChevronDown,
+  CornerDownRight,
+  ListChecks,
+  ShieldCheck,
+  Ban,
+  List,
 } from "lucide-react";
 import { cn } from "../lib/utils";
+import { Button } from "./ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "./ui/collapsible";
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from "./ui/tooltip";
+import { niceMax } from "../utils/networkUtils";
+
+export type DnsAddressRecord = {
+  address: string;
+  ttl: number;
+};
+
+export type DnsRecords = {
+  hostname: string;
+  zone?: string;
+  a: DnsAddressRecord[];
+  aaaa: DnsAddressRecord[];
+  cnameChain: string[];
+  ns: string[];
+  mx: { exchange: string; priority: number }[];
+  txt: string[];
+  soa?: {
+    nsname: string;
+    hostmaster: string;
+    serial: number;
+    refresh: number;
+    retry: number;
+    expire: number;
+    minttl: number;
+  };
+  // Address answers straight from one of the zone's name servers
+  authoritative?: {
+    server: string;
+    a: DnsAddressRecord[];
+    aaaa: DnsAddressRecord[];
+  };
+  // Failed lookups keyed by record type
+  errors: Record<string, string>;
+};
+
+export type TlsCertificate = {
+  subject: string;
+  issuer: string;
+  subjectAltNames: string[];
+  validFrom: string;
+  validTo: string;
+  keyType: string;
+  keySize?: number;
+  signatureAlgorithm: string;
+  fingerprint256: string;
+  serialNumber: string;
+};
+
+export type TlsDetails = {
+  protocol: string | null;
+  cipher?: { name: string; standardName: string };
+  authorized: boolean;
+  authorizationError?: string;
+  daysUntilExpiry?: number;
+  expiryWarningDays: number;
+  expiresSoon: boolean;
+  // Peer certificate chain, leaf first
+  chain: TlsCertificate[];
+};
+
+export type SecurityHeaderCheck = {
+  header: string;
+  value?: string;
+  weight: number;
+  status: "pass" | "warn" | "fail";
+  message: string;
+};
+
+export type SecurityAudit = {
+  grade: "A" | "B" | "C" | "D" | "F";
+  score: number;
+  checks: SecurityHeaderCheck[];
+  // Headers that reveal server software or versions
+  leaks: { header: string; value: string }[];
+};
+
+export type StageAttempt = {
+  attempt: number;
+  status: "success" | "error";
+  durationMs: number;
+  errorDetails?: string;
+};
 
 export type CheckStage = {
   id: string;
@@ -24,11 +119,32 @@ export type CheckStage = {
   timestamp?: string;
   errorDetails?: string;
   durationMs?: number;
+  records?: DnsRecords;
+  tls?: TlsDetails;
+  audit?: SecurityAudit;
+  // How this stage went on every attempt of the final hop
+  attempts?: StageAttempt[];
+};
+
+type StageView = "list" | "waterfall";
+
+// Bar colours in the waterfall, matching each stage's icon
+const waterfallColors: Record<string, string> = {
+  redirects: "bg-sky-500",
+  policy: "bg-red-500",
+  dns: "bg-blue-500",
+  connection: "bg-yellow-500",
+  tls: "bg-green-500",
+  firstByte: "bg-purple-500",
+  download: "bg-orange-500",
+  httpStatus: "bg-indigo-500",
+  securityHeaders: "bg-teal-500",
 };
 
 interface CheckStageListProps {
   stages?: CheckStage[];
   isChecking?: boolean;
+  maxAttempts?: number;
 }
 
 const CheckStageList = ({
@@ -40,10 +156,17 @@ const CheckStageList = ({
     { id: "download", name: "Complete Download", status: "idle" },
   ],
   isChecking = false,
+  maxAttempts = 1,
 }: CheckStageListProps) => {
+  const [view, setView] = useState<StageView>("list");
+
   // Get stage descriptions for tooltips
   const getStageDescription = (stageId: string): string => {
     switch (stageId) {
+      case "redirects":
+        return "Following HTTP redirects to the final destination";
+      case "policy":
+        return "Checking the target's addresses against the allowed ranges";
       case "dns":
         return "Resolving domain name to IP address via DNS servers";
       case "connection":
@@ -54,6 +177,10 @@ const CheckStageList = ({
         return "Waiting for the server to send the first byte of data";
       case "download":
         return "Downloading the complete webpage content";
+      case "httpStatus":
+        return "Checking the response status code against the accepted ranges";
+      case "securityHeaders":
+        return "Auditing the response's security headers";
       default:
         return "";
     }
@@ -62,6 +189,10 @@ const CheckStageList = ({
   // Get stage icon
   const getStageIcon = (stageId: string) => {
     switch (stageId) {
+      case "redirects":
+        return <CornerDownRight className="h-5 w-5 text-sky-500" />;
+      case "policy":
+        return <Ban className="h-5 w-5 text-red-500" />;
       case "dns":
         return <Server className="h-5 w-5 text-blue-500" />;
       case "connection":
@@ -72,6 +203,10 @@ const CheckStageList = ({
         return <AlertCircle className="h-5 w-5 text-purple-500" />;
       case "download":
         return <Download className="h-5 w-5 text-orange-500" />;
+      case "httpStatus":
+        return <ListChecks className="h-5 w-5 text-indigo-500" />;
+      case "securityHeaders":
+        return <ShieldCheck className="h-5 w-5 text-teal-500" />;
       default:
         return null;
     }
@@ -79,87 +214,127 @@ const CheckStageList = ({
 
   return (
     <div className="w-full bg-background rounded-md border p-6 shadow-sm">
-      <h2 className="text-xl font-semibold mb-4">Status Checks</h2>
-      <div className="space-y-4">
-        <TooltipProvider>
-          {stages.map((stage) => (
-            <div
-              key={stage.id}
-              className={cn(
-                "flex items-center justify-between p-3 rounded-md border transition-colors",
-                stage.status === "loading"
-                  ? "bg-primary/5 border-primary/20"
-                  : "bg-card hover:bg-card/80",
-                stage.status === "error"
-                  ? "bg-destructive/5 border-destructive/20"
-                  : "",
-                stage.status === "success"
-                  ? "bg-green-50 border-green-100 dark:bg-green-950/20 dark:border-green-900/30"
-                  : "",
-              )}
-            >
-              <div className="flex items-center gap-3">
-                <div className="relative">
-                  <StatusIcon status={stage.status} />
-                  <div className="absolute -top-1 -right-1">
-                    {stage.status === "idle" && getStageIcon(stage.id)}
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Status Checks</h2>
+        <div className="flex gap-1">
+          <Button
+            variant={view === "list" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setView("list")}
+            className="flex items-center"
+          >
+            <List className="mr-2 h-4 w-4" />
+            List
+          </Button>
+          <Button
+            variant={view === "waterfall" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setView("waterfall")}
+            className="flex items-center"
+          >
+            <BarChartHorizontal className="mr-2 h-4 w-4" />
+            Waterfall
+          </Button>
+        </div>
+      </div>
+      {view === "waterfall" ? (
+        <StageWaterfall stages={stages} />
+      ) : (
+        <div className="space-y-4">
+          <TooltipProvider>
+            {stages.map((stage) => (
+              <div key={stage.id} className="space-y-2">
+                <div
+                  className={cn(
+                    "flex items-center justify-between p-3 rounded-md border transition-colors",
+                    stage.status === "loading"
+                      ? "bg-primary/5 border-primary/20"
+                      : "bg-card hover:bg-card/80",
+                    stage.status === "error"
+                      ? "bg-destructive/5 border-destructive/20"
+                      : "",
+                    stage.status === "success"
+                      ? "bg-green-50 border-green-100 dark:bg-green-950/20 dark:border-green-900/30"
+                      : "",
+                  )}
+                >
+                  <div className="flex items-center gap-3">
+                    <div className="relative">
+                      <StatusIcon status={stage.status} />
+                      <div className="absolute -top-1 -right-1">
+                        {stage.status === "idle" && getStageIcon(stage.id)}
+                      </div>
+                    </div>
+                    <div>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <p className="font-medium flex items-center gap-2">
+                            {stage.name}
+                            {stage.status === "loading" && (
+                              <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded-full animate-pulse">
+                                In progress
+                              </span>
+                            )}
+                          </p>
+                        </TooltipTrigger>
+                        <TooltipContent side="top">
+                          <p className="max-w-xs">
+                            {getStageDescription(stage.id)}
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                      {stage.errorDetails && (
+                        <p className="text-sm text-destructive mt-1 flex items-center gap-1 whitespace-pre-line">
+                          <AlertCircle className="h-3 w-3" />
+                          {stage.errorDetails}
+                        </p>
+                      )}
+                      {stage.attempts && (
+                        <StageAttempts
+                          attempts={stage.attempts}
+                          status={stage.status}
+                          maxAttempts={maxAttempts}
+                        />
+                      )}
+                    </div>
                   </div>
-                </div>
-                <div>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <p className="font-medium flex items-center gap-2">
-                        {stage.name}
-                        {stage.status === "loading" && (
-                          <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded-full animate-pulse">
-                            In progress
-                          </span>
-                        )}
+                  <div className="text-right">
+                    {stage.timestamp && (
+                      <p className="text-sm text-muted-foreground">
+                        {stage.timestamp}
                       </p>
-                    </TooltipTrigger>
-                    <TooltipContent side="top">
-                      <p className="max-w-xs">
-                        {getStageDescription(stage.id)}
+                    )}
+                    {stage.durationMs !== undefined && (
+                      <p
+                        className={cn(
+                          "text-sm font-medium",
+                          stage.durationMs < 300
+                            ? "text-green-600 dark:text-green-400"
+                            : "",
+                          stage.durationMs >= 300 && stage.durationMs < 800
+                            ? "text-yellow-600 dark:text-yellow-400"
+                            : "",
+                          stage.durationMs >= 800
+                            ? "text-orange-600 dark:text-orange-400"
+                            : "",
+                        )}
+                      >
+                        {stage.durationMs}ms
                       </p>
-                    </TooltipContent>
-                  </Tooltip>
-                  {stage.errorDetails && (
-                    <p className="text-sm text-destructive mt-1 flex items-center gap-1">
-                      <AlertCircle className="h-3 w-3" />
-                      {stage.errorDetails}
-                    </p>
-                  )}
+                    )}
+                  </div>
                 </div>
-              </div>
-              <div className="text-right">
-                {stage.timestamp && (
-                  <p className="text-sm text-muted-foreground">
-                    {stage.timestamp}
-                  </p>
+                {stage.id === "dns" && stage.records && (
+                  <DnsRecordsPanel records={stage.records} />
                 )}
-                {stage.durationMs !== undefined && (
-                  <p
-                    className={cn(
-                      "text-sm font-medium",
-                      stage.durationMs < 300
-                        ? "text-green-600 dark:text-green-400"
-                        : "",
-                      stage.durationMs >= 300 && stage.durationMs < 800
-                        ? "text-yellow-600 dark:text-yellow-400"
-                        : "",
-                      stage.durationMs >= 800
-                        ? "text-orange-600 dark:text-orange-400"
-                        : "",
-                    )}
-                  >
-                    {stage.durationMs}ms
-                  </p>
+                {stage.id === "tls" && stage.tls && (
+                  <TlsDetailsPanel tls={stage.tls} />
                 )}
               </div>
-            </div>
-          ))}
-        </TooltipProvider>
-      </div>
+            ))}
+          </TooltipProvider>
+        </div>
+      )}
       {!isChecking && stages.every((stage) => stage.status === "idle") && (
         <div className="mt-6 text-center p-8 border border-dashed rounded-md bg-muted/30">
           <Server className="h-10 w-10 text-muted-foreground/50 mx-auto mb-3" />
@@ -172,6 +347,333 @@ const CheckStageList = ({
   );
 };
 
+/**
+ * Draws the stages as bars on a shared time axis, like a browser's network
+ * waterfall. Stages run one after another, so each starts where the ones
+ * before it finished. The stage in flight grows as time passes until the
+ * server reports how long it took. Redirects stay loading while later hops
+ * run, so they're drawn from the time already spent on earlier hops.
+ */
+const StageWaterfall = ({ stages }: { stages: CheckStage[] }) => {
+  const loadingStage = stages.find(
+    (stage) => stage.status === "loading" && stage.id !== "redirects",
+  );
+  // When the stage in flight was first seen, by this browser's clock
+  const loadingSince = useRef<{ id: string; at: number } | null>(null);
+  const [now, setNow] = useState(Date.now);
+
+  if (loadingStage && loadingSince.current?.id !== loadingStage.id) {
+    loadingSince.current = { id: loadingStage.id, at: Date.now() };
+  } else if (!loadingStage) {
+    loadingSince.current = null;
+  }
+
+  useEffect(() => {
+    if (!loadingStage) return;
+    const timer = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [Boolean(loadingStage)]);
+
+  let offset = 0;
+  const bars = stages
+    .filter((stage) => stage.status !== "idle")
+    .map((stage) => {
+      const isLive = stage === loadingStage;
+      const durationMs = isLive
+        ? Math.max(now - (loadingSince.current?.at ?? now), 0)
+        : stage.durationMs || 0;
+      const bar = { stage, start: offset, durationMs, isLive };
+      offset += durationMs;
+      return bar;
+    });
+  const axisMs = niceMax(offset);
+  const percentOf = (ms: number) => (ms / axisMs) * 100;
+
+  // Before anything has run, the list's empty state covers it
+  if (bars.length === 0) return null;
+
+  return (
+    <TooltipProvider>
+      <div className="space-y-1.5">
+        <div className="flex text-xs text-muted-foreground">
+          <div className="w-48 shrink-0" />
+          <div className="relative flex-1 h-4">
+            {[0, 0.25, 0.5, 0.75, 1].map((fraction) => (
+              <span
+                key={fraction}
+                className={cn(
+                  "absolute",
+                  fraction === 0
+                    ? ""
+                    : fraction === 1
+                      ? "-translate-x-full"
+                      : "-translate-x-1/2",
+                )}
+                style={{ left: `${fraction * 100}%` }}
+              >
+                {Math.round(axisMs * fraction)}ms
+              </span>
+            ))}
+          </div>
+          <div className="w-20 shrink-0" />
+        </div>
+
+        {bars.map(({ stage, start, durationMs, isLive }) => (
+          <div key={stage.id} className="flex items-center text-sm">
+            <div className="w-48 shrink-0 flex items-center gap-2 pr-2">
+              <StatusIcon status={stage.status} />
+              <span className="truncate">{stage.name}</span>
+            </div>
+            <div className="relative flex-1 h-6 rounded bg-muted/40">
+              {[0.25, 0.5, 0.75].map((fraction) => (
+                <div
+                  key={fraction}
+                  className="absolute inset-y-0 border-l border-border/60"
+                  style={{ left: `${fraction * 100}%` }}
+                />
+              ))}
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <div
+                    className={cn(
+                      "absolute inset-y-1 min-w-[3px] rounded-sm transition-all duration-200 ease-linear",
+                      stage.status === "error"
+                        ? "bg-destructive"
+                        : waterfallColors[stage.id] || "bg-primary",
+                      isLive && "animate-pulse",
+                    )}
+                    style={{
+                      left: `${percentOf(start)}%`,
+                      width: `${percentOf(durationMs)}%`,
+                    }}
+                  />
+                </TooltipTrigger>
+                <TooltipContent side="top">
+                  <p className="font-medium">{stage.name}</p>
+                  <p>
+                    Starts at {start}ms, {isLive ? "running for" : "takes"}{" "}
+                    {durationMs}ms
+                    {!isLive && `, ends at ${start + durationMs}ms`}
+                  </p>
+                  {stage.timestamp && (
+                    <p className="text-muted-foreground">
+                      Finished {stage.timestamp}
+                    </p>
+                  )}
+                  {stage.errorDetails && (
+                    <p className="text-destructive whitespace-pre-line">
+                      {stage.errorDetails}
+                    </p>
+                  )}
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <div className="w-20 shrink-0 text-right text-muted-foreground">
+              {isLive ? "..." : `${durationMs}ms`}
+            </div>
+          </div>
+        ))}
+      </div>
+    </TooltipProvider>
+  );
+};
+
+// Shows how a flaky stage got to its result, if it needed retries
+const StageAttempts = ({
+  attempts,
+  status,
+  maxAttempts,
+}: {
+  attempts: StageAttempt[];
+  status: CheckStage["status"];
+  maxAttempts: number;
+}) => {
+  const failed = attempts.filter((a) => a.status === "error");
+  const last = attempts[attempts.length - 1];
+  if (failed.length === 0 || attempts.length < 2) return null;
+
+  // The last failure is already shown as the stage's error
+  const earlierFailures = status === "error" ? failed.slice(0, -1) : failed;
+
+  return (
+    <div className="mt-1 space-y-0.5">
+      <p className="text-xs font-medium text-yellow-600 dark:text-yellow-400">
+        {status === "success"
+          ? `Succeeded on attempt ${last.attempt} of ${maxAttempts}`
+          : status === "error"
+            ? `Failed after ${last.attempt} attempts`
+            : `Retrying (attempt ${last.attempt + 1} of ${maxAttempts})`}
+      </p>
+      {earlierFailures.map((a) => (
+        <p key={a.attempt} className="text-xs text-muted-foreground">
+          Attempt {a.attempt}: {a.errorDetails || "failed"} ({a.durationMs}ms)
+        </p>
+      ))}
+    </div>
+  );
+};
+
+const DnsRecordsPanel = ({ records }: { records: DnsRecords }) => {
+  const formatAddresses = (list: DnsAddressRecord[]) =>
+    list.map((r) => `${r.address} (TTL ${r.ttl}s)`);
+
+  const rows: { label: string; values: string[] }[] = [
+    { label: "A", values: formatAddresses(records.a) },
+    { label: "AAAA", values: formatAddresses(records.aaaa) },
+    {
+      label: "CNAME",
+      values:
+        records.cnameChain.length > 0
+          ? [[records.hostname, ...records.cnameChain].join(" → ")]
+          : [],
+    },
+    { label: "NS", values: records.ns },
+    {
+      label: "MX",
+      values: records.mx.map((r) => `${r.priority} ${r.exchange}`),
+    },
+    { label: "TXT", values: records.txt },
+    {
+      label: "SOA",
+      values: records.soa
+        ? [
+            `${records.soa.nsname} ${records.soa.hostmaster} serial ${records.soa.serial} (min TTL ${records.soa.minttl}s)`,
+          ]
+        : [],
+    },
+  ];
+
+  return (
+    <Collapsible className="rounded-md border bg-muted/30 px-3 py-2">
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full justify-between h-8 px-2 text-sm"
+        >
+          <span>
+            DNS records for {records.hostname}
+            {records.zone && records.zone !== records.hostname && (
+              <span className="text-muted-foreground">
+                {" "}
+                (zone {records.zone})
+              </span>
+            )}
+          </span>
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="pt-2 space-y-3 text-sm">
+        <table className="w-full">
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.label}
+                className="border-b last:border-b-0 align-top"
+              >
+                <td className="py-1 pr-4 font-medium w-20">{row.label}</td>
+                <td className="py-1 font-mono text-xs break-all">
+                  {row.values.length > 0 ? (
+                    row.values.map((value, idx) => <p key={idx}>{value}</p>)
+                  ) : (
+                    <span className="text-muted-foreground">
+                      {records.errors[row.label] || "No records"}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {records.authoritative && (
+          <div>
+            <p className="font-medium mb-1">
+              Authoritative answer from {records.authoritative.server}
+            </p>
+            <div className="font-mono text-xs break-all">
+              {formatAddresses([
+                ...records.authoritative.a,
+                ...records.authoritative.aaaa,
+              ]).map((value, idx) => (
+                <p key={idx}>{value}</p>
+              ))}
+            </div>
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+const TlsDetailsPanel = ({ tls }: { tls: TlsDetails }) => {
+  const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+  return (
+    <Collapsible className="rounded-md border bg-muted/30 px-3 py-2">
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full justify-between h-8 px-2 text-sm"
+        >
+          <span>
+            {tls.protocol} · {tls.cipher?.standardName || "Unknown cipher"}
+            {tls.daysUntilExpiry !== undefined && (
+              <span
+                className={cn(
+                  "ml-2",
+                  tls.expiresSoon
+                    ? "text-yellow-600 dark:text-yellow-400"
+                    : "text-muted-foreground",
+                )}
+              >
+                (certificate expires in {tls.daysUntilExpiry} days)
+              </span>
+            )}
+          </span>
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="pt-2 space-y-3 text-sm">
+        {tls.authorizationError && (
+          <p className="text-destructive">
+            Certificate not trusted: {tls.authorizationError}
+          </p>
+        )}
+        {tls.chain.map((cert, idx) => (
+          <div
+            key={cert.fingerprint256}
+            className="border-b last:border-b-0 pb-2"
+          >
+            <p className="font-medium">
+              {idx === 0 ? "Leaf" : `Issuer ${idx}`}: {cert.subject}
+            </p>
+            <div className="text-xs text-muted-foreground space-y-0.5 mt-1">
+              <p>Issued by {cert.issuer}</p>
+              <p>
+                Valid {formatDate(cert.validFrom)} – {formatDate(cert.validTo)}
+              </p>
+              <p>
+                {cert.keyType}
+                {cert.keySize ? ` ${cert.keySize}-bit` : ""} ·{" "}
+                {cert.signatureAlgorithm}
+              </p>
+              {cert.subjectAltNames.length > 0 && (
+                <p className="break-all">
+                  SANs: {cert.subjectAltNames.join(", ")}
+                </p>
+              )}
+              <p className="font-mono break-all">
+                SHA-256 {cert.fingerprint256}
+              </p>
+            </div>
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
 const StatusIcon = ({ status }: { status: CheckStage["status"] }) => {
   switch (status) {
     case "loading":
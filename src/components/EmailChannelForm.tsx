@@ -0,0 +1,317 @@
+import React from "react";
+import { UseFormReturn, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Input } from "./ui/input";
+import { Switch } from "./ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import { EmailChannelConfig } from "../utils/monitorApi";
+
+// Mirrors the server's limits
+const MAX_EMAIL_RECIPIENTS = 20;
+const EMAIL_PATTERN = /^[^\s@<>,;]+@[^\s@<>,;]+$/;
+
+// Usual port for each way of securing the connection
+const DEFAULT_PORTS = { tls: 465, starttls: 587, none: 25 };
+
+// Helper function to split a comma or newline separated recipient list
+const splitRecipients = (value: string): string[] =>
+  value
+    .split(/[,\n]/)
+    .map((address) => address.trim())
+    .filter(Boolean);
+
+const emailChannelSchema = z.object({
+  host: z.string().trim().min(1, "Enter the SMTP server's host name"),
+  port: z
+    .string()
+    .refine(
+      (value) =>
+        Number.isInteger(Number(value)) &&
+        Number(value) >= 1 &&
+        Number(value) <= 65535,
+      "Enter a port from 1 to 65535",
+    ),
+  security: z.enum(["tls", "starttls", "none"]),
+  verifyCertificate: z.boolean(),
+  username: z.string(),
+  password: z.string(),
+  from: z
+    .string()
+    .trim()
+    .refine((value) => EMAIL_PATTERN.test(value), "Enter an email address"),
+  to: z
+    .string()
+    .refine(
+      (value) => splitRecipients(value).length > 0,
+      "Add at least one recipient",
+    )
+    .refine(
+      (value) => splitRecipients(value).length <= MAX_EMAIL_RECIPIENTS,
+      `Add at most ${MAX_EMAIL_RECIPIENTS} recipients`,
+    )
+    .refine(
+      (value) =>
+        splitRecipients(value).every((address) => EMAIL_PATTERN.test(address)),
+      "Separate email addresses with commas",
+    ),
+});
+
+export type EmailChannelValues = z.infer<typeof emailChannelSchema>;
+
+export const defaultEmailChannelValues: EmailChannelValues = {
+  host: "",
+  port: String(DEFAULT_PORTS.starttls),
+  security: "starttls",
+  verifyCertificate: true,
+  username: "",
+  password: "",
+  from: "",
+  to: "",
+};
+
+// Turns a saved email channel's settings back into form values. The
+// password is never sent back, so it starts blank.
+export const fromEmailConfig = (
+  config: EmailChannelConfig,
+): EmailChannelValues => ({
+  host: config.host,
+  port: String(config.port),
+  security: config.security,
+  verifyCertificate: config.verifyCertificate,
+  username: config.username || "",
+  password: "",
+  from: config.from,
+  to: config.to.join(", "),
+});
+
+export const useEmailChannelForm = () =>
+  useForm<EmailChannelValues>({
+    resolver: zodResolver(emailChannelSchema),
+    defaultValues: defaultEmailChannelValues,
+  });
+
+// Converts form values into the settings the server expects. A blank
+// password is left out so the saved one is kept.
+export const toEmailConfig = (
+  values: EmailChannelValues,
+): EmailChannelConfig => ({
+  host: values.host.trim(),
+  port: Number(values.port),
+  security: values.security,
+  verifyCertificate: values.verifyCertificate,
+  username: values.username.trim() || undefined,
+  password: values.password || undefined,
+  from: values.from.trim(),
+  to: splitRecipients(values.to),
+});
+
+interface EmailChannelFormProps {
+  form: UseFormReturn<EmailChannelValues>;
+  // Whether the channel being edited already has a saved password
+  hasPassword?: boolean;
+  disabled?: boolean;
+}
+
+// Fields for sending through an SMTP server; rendered inside the parent's
+// <form>, so it has none of its own
+const EmailChannelForm = ({
+  form,
+  hasPassword = false,
+  disabled = false,
+}: EmailChannelFormProps) => {
+  const security = form.watch("security");
+
+  return (
+    <Form {...form}>
+      <div className="space-y-4">
+        <div className="grid grid-cols-[1fr_110px_150px] gap-3">
+          <FormField
+            control={form.control}
+            name="host"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>SMTP server</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="smtp.example.com"
+                    disabled={disabled}
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="port"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Port</FormLabel>
+                <FormControl>
+                  <Input type="number" disabled={disabled} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="security"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Security</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={(value: EmailChannelValues["security"]) => {
+                    // Follow the usual port unless one was picked by hand
+                    if (
+                      form.getValues("port") ===
+                      String(DEFAULT_PORTS[field.value])
+                    ) {
+                      form.setValue("port", String(DEFAULT_PORTS[value]));
+                    }
+                    field.onChange(value);
+                  }}
+                  disabled={disabled}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="starttls">STARTTLS</SelectItem>
+                    <SelectItem value="tls">TLS</SelectItem>
+                    <SelectItem value="none">None</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {security !== "none" && (
+          <FormField
+            control={form.control}
+            name="verifyCertificate"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between rounded-md border px-3 py-2">
+                <div>
+                  <FormLabel>Verify certificate</FormLabel>
+                  <FormDescription>
+                    Turn off only for servers with a self-signed certificate.
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    disabled={disabled}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <FormField
+            control={form.control}
+            name="username"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Username</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="Leave blank to send without logging in"
+                    autoComplete="off"
+                    disabled={disabled}
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Password</FormLabel>
+                <FormControl>
+                  <Input
+                    type="password"
+                    placeholder={hasPassword ? "Unchanged" : ""}
+                    autoComplete="new-password"
+                    disabled={disabled}
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="from"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>From</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="alerts@example.com"
+                  disabled={disabled}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="to"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>To</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="oncall@example.com, team@example.com"
+                  disabled={disabled}
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription>
+                Separate up to {MAX_EMAIL_RECIPIENTS} addresses with commas.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </Form>
+  );
+};
+
+export default EmailChannelForm;
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from "react";
+import { ListOrdered, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import EscalationPolicyEditor from "./EscalationPolicyEditor";
+import {
+  EscalationPolicy,
+  NotificationChannel,
+  deletePolicy,
+  fetchChannels,
+  fetchPolicies,
+} from "../utils/monitorApi";
+
+// One line per level: who's told, and how long until the next level
+const describeLevels = (
+  policy: EscalationPolicy,
+  channels: NotificationChannel[],
+): string[] =>
+  policy.levels.map(
+    (level, index) =>
+      `${index + 1}. ${
+        level.channelIds
+          .map(
+            (id) =>
+              channels.find((channel) => channel.id === id)?.name ||
+              "Deleted channel",
+          )
+          .join(", ") || "No channels"
+      }${
+        index < policy.levels.length - 1
+          ? `, then level ${index + 2} after ${level.escalateAfterMinutes}m`
+          : policy.repeatLimit > 0
+            ? `, then start over after ${level.escalateAfterMinutes}m (up to ${policy.repeatLimit}×)`
+            : ""
+      }`,
+  );
+
+// Which monitors a policy covers
+const describeAssignment = (policy: EscalationPolicy): string =>
+  [
+    policy.groups.length > 0 &&
+      `Group${policy.groups.length === 1 ? "" : "s"} ${policy.groups.join(", ")}`,
+    policy.monitorIds.length > 0 &&
+      `${policy.monitorIds.length} monitor${policy.monitorIds.length === 1 ? "" : "s"}`,
+  ]
+    .filter(Boolean)
+    .join(" · ") || "Not assigned to any monitors";
+
+interface EscalationPoliciesDialogProps {
+  open: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+const EscalationPoliciesDialog = ({
+  open,
+  onOpenChange = () => {},
+}: EscalationPoliciesDialogProps) => {
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<EscalationPolicy | null>(null);
+  const [deleting, setDeleting] = useState<EscalationPolicy | null>(null);
+
+  const loadPolicies = async () => {
+    try {
+      const [loadedPolicies, loadedChannels] = await Promise.all([
+        fetchPolicies(),
+        fetchChannels(),
+      ]);
+      setPolicies(loadedPolicies);
+      setChannels(loadedChannels);
+      setError("");
+    } catch (e: any) {
+      setError(e.message || "Failed to load escalation policies");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadPolicies();
+  }, [open]);
+
+  const handleCreate = () => {
+    setEditing(null);
+    setEditorOpen(true);
+  };
+
+  const handleEdit = (policy: EscalationPolicy) => {
+    setEditing(policy);
+    setEditorOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deletePolicy(deleting.id);
+      await loadPolicies();
+    } catch (e: any) {
+      setError(e.message || "Failed to delete escalation policy");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Escalation policies</DialogTitle>
+            <DialogDescription>
+              Notify channels in levels until someone acknowledges the incident.
+              Channels in a policy only hear about the monitors it covers
+              through it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleCreate}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add policy
+            </Button>
+          </div>
+          {error && (
+            <p className="text-sm text-destructive font-medium">{error}</p>
+          )}
+
+          {policies.length > 0 ? (
+            <div className="space-y-2">
+              {policies.map((policy) => (
+                <div
+                  key={policy.id}
+                  className="flex items-start gap-3 rounded-md border px-3 py-2"
+                >
+                  <ListOrdered className="h-4 w-4 mt-1 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <div className="font-medium truncate">{policy.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {describeAssignment(policy)}
+                    </div>
+                    {describeLevels(policy, channels).map((line) => (
+                      <div key={line} className="text-xs truncate">
+                        {line}
+                      </div>
+                    ))}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleEdit(policy)}
+                    title="Edit"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDeleting(policy)}
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center py-6 text-muted-foreground">
+              {isLoading
+                ? "Loading policies..."
+                : "No policies yet. Without one, every channel hears about an incident as soon as it opens."}
+            </p>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <EscalationPolicyEditor
+        open={editorOpen}
+        policy={editing}
+        onOpenChange={setEditorOpen}
+        onSaved={loadPolicies}
+      />
+
+      <AlertDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its monitors go back to notifying every channel at once, and
+              incidents it's escalating stop at their next level. This can't be
+              undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default EscalationPoliciesDialog;
@@ -0,0 +1,459 @@
+import React, { useEffect, useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Checkbox } from "./ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import { CHANNEL_TYPE_LABELS } from "./NotificationChannelEditor";
+import {
+  EscalationPolicy,
+  EscalationPolicyInput,
+  Monitor,
+  NotificationChannel,
+  createPolicy,
+  fetchChannels,
+  fetchMonitors,
+  updatePolicy,
+} from "../utils/monitorApi";
+
+// Mirrors the server's limits
+const MAX_LEVELS = 5;
+const MAX_REPEATS = 5;
+const MAX_ESCALATE_AFTER_MINUTES = 24 * 60;
+
+const wholeNumber = (min: number, max: number) =>
+  z
+    .string()
+    .refine(
+      (value) =>
+        Number.isInteger(Number(value)) &&
+        Number(value) >= min &&
+        Number(value) <= max,
+      `Enter ${min} to ${max}`,
+    );
+
+// Whether a level waits for an acknowledgement before moving on: all but
+// the last do, and the last only when the policy starts over
+const levelWaits = (index: number, levelCount: number, repeatLimit: string) =>
+  index < levelCount - 1 || Number(repeatLimit) > 0;
+
+const escalateAfterSchema = wholeNumber(1, MAX_ESCALATE_AFTER_MINUTES);
+
+const policySchema = z
+  .object({
+    name: z.string().max(100, "Keep the name under 100 characters"),
+    levels: z
+      .array(
+        z.object({
+          channelIds: z.array(z.string()).min(1, "Pick at least one channel"),
+          escalateAfterMinutes: z.string(),
+        }),
+      )
+      .min(1, "Add at least one level")
+      .max(MAX_LEVELS, `A policy can have at most ${MAX_LEVELS} levels`),
+    repeatLimit: wholeNumber(0, MAX_REPEATS),
+    monitorIds: z.array(z.string()),
+    // Comma-separated, as typed
+    groups: z.string(),
+  })
+  // The last level's wait is hidden, and not checked, unless it's used
+  .superRefine((values, ctx) => {
+    values.levels.forEach((level, index) => {
+      if (!levelWaits(index, values.levels.length, values.repeatLimit)) return;
+      const result = escalateAfterSchema.safeParse(level.escalateAfterMinutes);
+      if (!result.success) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["levels", index, "escalateAfterMinutes"],
+          message: result.error.issues[0].message,
+        });
+      }
+    });
+  });
+
+type PolicyValues = z.infer<typeof policySchema>;
+
+const emptyLevel = () => ({ channelIds: [], escalateAfterMinutes: "10" });
+
+const defaultPolicyValues: PolicyValues = {
+  name: "",
+  levels: [emptyLevel()],
+  repeatLimit: "0",
+  monitorIds: [],
+  groups: "",
+};
+
+// Turns a saved policy back into form values, leaving out channels that
+// have since been deleted
+const fromPolicy = (
+  policy: EscalationPolicy,
+  channels: NotificationChannel[],
+): PolicyValues => ({
+  name: policy.name,
+  levels: policy.levels.map((level) => ({
+    channelIds: level.channelIds.filter((id) =>
+      channels.some((channel) => channel.id === id),
+    ),
+    escalateAfterMinutes: String(
+      level.escalateAfterMinutes ?? emptyLevel().escalateAfterMinutes,
+    ),
+  })),
+  repeatLimit: String(policy.repeatLimit),
+  monitorIds: policy.monitorIds,
+  groups: policy.groups.join(", "),
+});
+
+// Converts form values into what the server expects
+const toPolicyInput = (values: PolicyValues): EscalationPolicyInput => ({
+  name: values.name.trim(),
+  levels: values.levels.map((level, index) => ({
+    channelIds: level.channelIds,
+    ...(levelWaits(index, values.levels.length, values.repeatLimit) && {
+      escalateAfterMinutes: Number(level.escalateAfterMinutes),
+    }),
+  })),
+  repeatLimit: Number(values.repeatLimit),
+  monitorIds: values.monitorIds,
+  groups: values.groups
+    .split(",")
+    .map((group) => group.trim())
+    .filter(Boolean),
+});
+
+interface EscalationPolicyEditorProps {
+  open: boolean;
+  // The policy being edited, or null to create one
+  policy?: EscalationPolicy | null;
+  onOpenChange?: (open: boolean) => void;
+  onSaved?: (policy: EscalationPolicy) => void;
+}
+
+const EscalationPolicyEditor = ({
+  open,
+  policy = null,
+  onOpenChange = () => {},
+  onSaved = () => {},
+}: EscalationPolicyEditorProps) => {
+  const form = useForm<PolicyValues>({
+    resolver: zodResolver(policySchema),
+    defaultValues: defaultPolicyValues,
+  });
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "levels",
+  });
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [monitors, setMonitors] = useState<Monitor[]>([]);
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const repeatLimit = form.watch("repeatLimit");
+
+  // Load the policy being edited, or a blank one, each time the dialog
+  // opens; saved channels are needed first to drop deleted ones
+  useEffect(() => {
+    if (!open) return;
+
+    form.reset(defaultPolicyValues);
+    setError("");
+    Promise.all([fetchChannels(), fetchMonitors()])
+      .then(([loadedChannels, loadedMonitors]) => {
+        setChannels(loadedChannels);
+        setMonitors(loadedMonitors);
+        if (policy) form.reset(fromPolicy(policy, loadedChannels));
+      })
+      .catch((e) => setError(e.message || "Failed to load channels"));
+  }, [open, policy]);
+
+  // Groups already used by monitors, to pick from
+  const knownGroups = [
+    ...new Set(monitors.map((monitor) => monitor.group).filter(Boolean)),
+  ].sort();
+
+  const handleSubmit = form.handleSubmit(async (values) => {
+    setIsSaving(true);
+    setError("");
+    try {
+      const input = toPolicyInput(values);
+      const saved = policy
+        ? await updatePolicy(policy.id, input)
+        : await createPolicy(input);
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (e: any) {
+      setError(e.message || "Failed to save escalation policy");
+    } finally {
+      setIsSaving(false);
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {policy ? `Edit ${policy.name}` : "New escalation policy"}
+          </DialogTitle>
+          <DialogDescription>
+            Level 1 is notified as soon as an incident opens. Each later level
+            is notified only if nobody acknowledges the incident in time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g. Production web"
+                      disabled={isSaving}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {fields.map((levelField, index) => (
+              <div
+                key={levelField.id}
+                className="rounded-md border p-3 space-y-3"
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Level {index + 1}</span>
+                  {fields.length > 1 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove(index)}
+                      disabled={isSaving}
+                      title="Remove level"
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+                <FormField
+                  control={form.control}
+                  name={`levels.${index}.channelIds`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="max-h-32 overflow-y-auto space-y-2">
+                        {channels.map((channel) => (
+                          <label
+                            key={channel.id}
+                            className="flex items-center gap-2 text-sm"
+                          >
+                            <Checkbox
+                              checked={field.value.includes(channel.id)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(
+                                  checked === true
+                                    ? [...field.value, channel.id]
+                                    : field.value.filter(
+                                        (id) => id !== channel.id,
+                                      ),
+                                )
+                              }
+                              disabled={isSaving}
+                            />
+                            <span className="truncate">{channel.name}</span>
+                            <span className="text-xs text-muted-foreground">
+                              {CHANNEL_TYPE_LABELS[channel.type]}
+                              {!channel.enabled && " (disabled)"}
+                            </span>
+                          </label>
+                        ))}
+                        {channels.length === 0 && (
+                          <p className="text-sm text-muted-foreground">
+                            Add a notification channel first.
+                          </p>
+                        )}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {levelWaits(index, fields.length, repeatLimit) && (
+                  <div className="flex items-start gap-2 text-sm">
+                    <span className="pt-2">
+                      {index < fields.length - 1
+                        ? `Escalate to level ${index + 2} if not acknowledged within`
+                        : "Start over if not acknowledged within"}
+                    </span>
+                    <FormField
+                      control={form.control}
+                      name={`levels.${index}.escalateAfterMinutes`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              className="w-24"
+                              disabled={isSaving}
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <span className="pt-2">minutes</span>
+                  </div>
+                )}
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => append(emptyLevel())}
+              disabled={isSaving || fields.length >= MAX_LEVELS}
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add level
+            </Button>
+
+            <div className="flex items-start gap-2 text-sm">
+              <span className="pt-2">Start over from level 1 up to</span>
+              <FormField
+                control={form.control}
+                name="repeatLimit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        className="w-20"
+                        disabled={isSaving}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <span className="pt-2">
+                times
+                {repeatLimit === "0" && ", so it stops after the last level"}
+              </span>
+            </div>
+
+            <div className="rounded-md border p-3 space-y-3">
+              <FormField
+                control={form.control}
+                name="groups"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Monitor groups</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder={knownGroups.join(", ") || "e.g. checkout"}
+                        disabled={isSaving}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Comma-separated. Covers every monitor in these groups,
+                      including ones added later.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="monitorIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Monitors</FormLabel>
+                    <div className="max-h-40 overflow-y-auto space-y-2">
+                      {monitors.map((monitor) => (
+                        <label
+                          key={monitor.id}
+                          className="flex items-center gap-2 text-sm"
+                        >
+                          <Checkbox
+                            checked={field.value.includes(monitor.id)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked === true
+                                  ? [...field.value, monitor.id]
+                                  : field.value.filter(
+                                      (id) => id !== monitor.id,
+                                    ),
+                              )
+                            }
+                            disabled={isSaving}
+                          />
+                          <span className="truncate">{monitor.name}</span>
+                          <span className="truncate text-xs text-muted-foreground">
+                            {monitor.group || monitor.url}
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormDescription>
+                      A policy picked here wins over one for the monitor's
+                      group.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-destructive font-medium">{error}</p>
+            )}
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSaving}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving
+                  ? "Saving..."
+                  : policy
+                    ? "Save changes"
+                    : "Create policy"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EscalationPolicyEditor;
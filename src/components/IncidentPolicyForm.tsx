@@ -0,0 +1,261 @@
+import React from "react";
+import { UseFormReturn, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Input } from "./ui/input";
+import { Switch } from "./ui/switch";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import { IncidentPolicy } from "../utils/monitorApi";
+
+// Mirrors the server's defaults and limits
+const DEFAULT_INCIDENT_POLICY: IncidentPolicy = {
+  failureThreshold: 3,
+  recoveryThreshold: 2,
+  confirmFailures: false,
+  degradedOpensIncidents: false,
+  flapDetection: true,
+  flapWindow: 10,
+  flapThreshold: 4,
+};
+const MAX_INCIDENT_THRESHOLD = 20;
+const MAX_FLAP_WINDOW = 50;
+
+const checkCount = (min: number, max: number, message: string) =>
+  z
+    .string()
+    .refine(
+      (value) =>
+        Number.isInteger(Number(value)) &&
+        Number(value) >= min &&
+        Number(value) <= max,
+      message,
+    );
+
+const incidentPolicySchema = z
+  .object({
+    failureThreshold: checkCount(
+      1,
+      MAX_INCIDENT_THRESHOLD,
+      `Enter 1 to ${MAX_INCIDENT_THRESHOLD} failed checks`,
+    ),
+    recoveryThreshold: checkCount(
+      1,
+      MAX_INCIDENT_THRESHOLD,
+      `Enter 1 to ${MAX_INCIDENT_THRESHOLD} passing checks`,
+    ),
+    confirmFailures: z.boolean(),
+    degradedOpensIncidents: z.boolean(),
+    flapDetection: z.boolean(),
+    flapWindow: checkCount(
+      2,
+      MAX_FLAP_WINDOW,
+      `Enter 2 to ${MAX_FLAP_WINDOW} checks`,
+    ),
+    flapThreshold: checkCount(1, MAX_FLAP_WINDOW, "Enter at least 1 change"),
+  })
+  .refine(
+    (values) => Number(values.flapThreshold) < Number(values.flapWindow),
+    {
+      message: "Must be fewer than the checks in the window",
+      path: ["flapThreshold"],
+    },
+  );
+
+export type IncidentPolicyValues = z.infer<typeof incidentPolicySchema>;
+
+// Turns a saved incident policy back into form values
+export const fromIncidentPolicy = (
+  policy: Partial<IncidentPolicy> = {},
+): IncidentPolicyValues => {
+  const merged = { ...DEFAULT_INCIDENT_POLICY, ...policy };
+  return {
+    failureThreshold: String(merged.failureThreshold),
+    recoveryThreshold: String(merged.recoveryThreshold),
+    confirmFailures: merged.confirmFailures,
+    degradedOpensIncidents: merged.degradedOpensIncidents,
+    flapDetection: merged.flapDetection,
+    flapWindow: String(merged.flapWindow),
+    flapThreshold: String(merged.flapThreshold),
+  };
+};
+
+export const defaultIncidentPolicyValues = fromIncidentPolicy();
+
+export const useIncidentPolicyForm = () =>
+  useForm<IncidentPolicyValues>({
+    resolver: zodResolver(incidentPolicySchema),
+    defaultValues: defaultIncidentPolicyValues,
+  });
+
+// Converts validated form values into the policy saved with a monitor
+export const toIncidentPolicy = (
+  values: IncidentPolicyValues,
+): IncidentPolicy => ({
+  failureThreshold: Number(values.failureThreshold),
+  recoveryThreshold: Number(values.recoveryThreshold),
+  confirmFailures: values.confirmFailures,
+  degradedOpensIncidents: values.degradedOpensIncidents,
+  flapDetection: values.flapDetection,
+  flapWindow: Number(values.flapWindow),
+  flapThreshold: Number(values.flapThreshold),
+});
+
+interface IncidentPolicyFormProps {
+  form: UseFormReturn<IncidentPolicyValues>;
+  disabled?: boolean;
+}
+
+// Fields only; the monitor editor owns submission, so there's no <form> here
+const IncidentPolicyForm = ({
+  form,
+  disabled = false,
+}: IncidentPolicyFormProps) => {
+  const detectingFlaps = form.watch("flapDetection");
+
+  const countField = (
+    name: "failureThreshold" | "recoveryThreshold" | "flapWindow",
+    label: string,
+    description: string,
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              min={1}
+              disabled={disabled || (name === "flapWindow" && !detectingFlaps)}
+              {...field}
+            />
+          </FormControl>
+          <FormDescription>{description}</FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          {countField(
+            "failureThreshold",
+            "Open an incident after",
+            "failed checks in a row",
+          )}
+          {countField(
+            "recoveryThreshold",
+            "Resolve it after",
+            "passing checks in a row",
+          )}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="confirmFailures"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-md border px-3 py-2">
+              <div>
+                <FormLabel>Confirm failures</FormLabel>
+                <FormDescription>
+                  Check again straight away before a failure counts; both checks
+                  are kept as attempts.
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                  disabled={disabled}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="degradedOpensIncidents"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-md border px-3 py-2">
+              <div>
+                <FormLabel>Alert on degraded</FormLabel>
+                <FormDescription>
+                  Count DEGRADED checks as failures, so a slow or retried site
+                  opens incidents too.
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                  disabled={disabled}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="flapDetection"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-md border px-3 py-2">
+              <div>
+                <FormLabel>Flap detection</FormLabel>
+                <FormDescription>
+                  Hold back notifications while the monitor keeps switching
+                  between up and down.
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                  disabled={disabled}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="flapThreshold"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Flapping at</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    disabled={disabled || !detectingFlaps}
+                    {...field}
+                  />
+                </FormControl>
+                <FormDescription>state changes or more</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {countField("flapWindow", "Within the last", "checks")}
+        </div>
+      </div>
+    </Form>
+  );
+};
+
+export default IncidentPolicyForm;
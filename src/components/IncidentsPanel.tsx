@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from "react";
+import {
+  format,
+  formatDistanceToNow,
+  formatDuration,
+  intervalToDuration,
+} from "date-fns";
+import {
+  AlertTriangle,
+  CheckCircle,
+  Eye,
+  Flag,
+  ListOrdered,
+  RefreshCw,
+  ShieldAlert,
+  Waves,
+  XCircle,
+} from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Badge } from "./ui/badge";
+import {
+  Incident,
+  IncidentEvent,
+  acknowledgeIncident,
+  fetchIncidents,
+} from "../utils/monitorApi";
+
+// How often the list is refreshed while it's on screen
+const REFRESH_INTERVAL_MS = 10000;
+
+// Remembers who last acknowledged an incident from this browser
+const ACK_NAME_KEY = "incidentAckName";
+
+type IncidentFilter = "active" | "resolved" | "all";
+
+const statusBadges = {
+  open: <Badge variant="destructive">OPEN</Badge>,
+  acknowledged: (
+    <Badge className="bg-amber-500 hover:bg-amber-600">ACKNOWLEDGED</Badge>
+  ),
+  resolved: <Badge className="bg-green-500 hover:bg-green-600">RESOLVED</Badge>,
+};
+
+const eventIcons: Record<IncidentEvent["type"], React.ReactNode> = {
+  failing: <XCircle className="h-4 w-4 text-destructive" />,
+  opened: <ShieldAlert className="h-4 w-4 text-destructive" />,
+  acknowledged: <Eye className="h-4 w-4 text-amber-500" />,
+  "error-changed": <AlertTriangle className="h-4 w-4 text-amber-500" />,
+  recovered: <RefreshCw className="h-4 w-4 text-green-500" />,
+  resolved: <CheckCircle className="h-4 w-4 text-green-500" />,
+  flapping: <Waves className="h-4 w-4 text-amber-500" />,
+  "flapping-stopped": <Waves className="h-4 w-4 text-muted-foreground" />,
+  escalated: <ListOrdered className="h-4 w-4 text-primary" />,
+};
+
+// Formats how long an incident lasted, or has lasted so far
+const formatIncidentDuration = (incident: Incident): string => {
+  const end = incident.endedAt ? new Date(incident.endedAt) : new Date();
+  const duration = intervalToDuration({
+    start: new Date(incident.startedAt),
+    end,
+  });
+  return formatDuration(duration) || "under a second";
+};
+
+const IncidentsPanel = () => {
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [filter, setFilter] = useState<IncidentFilter>("active");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [ackingId, setAckingId] = useState<string | null>(null);
+  const [ackName, setAckName] = useState(
+    () => localStorage.getItem(ACK_NAME_KEY) || "",
+  );
+
+  const loadIncidents = async () => {
+    try {
+      setIncidents(await fetchIncidents());
+      setError("");
+    } catch (e: any) {
+      setError(e.message || "Failed to load incidents");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadIncidents();
+    const timer = setInterval(loadIncidents, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleAcknowledge = async (incident: Incident) => {
+    const name = ackName.trim();
+    if (!name) {
+      setError("Enter your name to acknowledge the incident");
+      return;
+    }
+
+    try {
+      await acknowledgeIncident(incident.id, name);
+      localStorage.setItem(ACK_NAME_KEY, name);
+      setAckingId(null);
+      await loadIncidents();
+    } catch (e: any) {
+      setError(e.message || "Failed to acknowledge incident");
+    }
+  };
+
+  const activeCount = incidents.filter((i) => i.status !== "resolved").length;
+  const shownIncidents = incidents.filter((incident) =>
+    filter === "all"
+      ? true
+      : filter === "active"
+        ? incident.status !== "resolved"
+        : incident.status === "resolved",
+  );
+
+  return (
+    <div className="bg-card rounded-lg shadow-md border p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold flex items-center">
+          <Flag className="mr-2 h-5 w-5 text-primary" />
+          Incidents
+        </h2>
+        <div className="flex gap-1">
+          {(["active", "resolved", "all"] as IncidentFilter[]).map((value) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={filter === value ? "default" : "outline"}
+              onClick={() => setFilter(value)}
+            >
+              {value === "active"
+                ? `Active (${activeCount})`
+                : value === "resolved"
+                  ? "Resolved"
+                  : "All"}
+            </Button>
+          ))}
+        </div>
+      </div>
+      {error && <p className="text-sm text-destructive font-medium">{error}</p>}
+
+      {shownIncidents.length > 0 ? (
+        <div className="space-y-4">
+          {shownIncidents.map((incident) => (
+            <div key={incident.id} className="rounded-lg border p-4">
+              <div className="flex justify-between items-start gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-medium truncate">
+                      {incident.monitorName}
+                    </h3>
+                    {statusBadges[incident.status]}
+                    {incident.flapping && incident.status !== "resolved" && (
+                      <Badge variant="outline" title="Notifications held back">
+                        FLAPPING
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {incident.url}
+                  </p>
+                </div>
+                <div className="text-right text-sm shrink-0">
+                  <div className="font-medium">
+                    {formatIncidentDuration(incident)}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {incident.status === "resolved"
+                      ? `ended ${formatDistanceToNow(
+                          new Date(incident.endedAt!),
+                          { addSuffix: true },
+                        )}`
+                      : `started ${formatDistanceToNow(
+                          new Date(incident.startedAt),
+                          { addSuffix: true },
+                        )}`}
+                  </div>
+                </div>
+              </div>
+
+              <div className="mt-3 rounded-md bg-red-50 dark:bg-red-900/20 p-2 text-sm">
+                <span className="font-medium">
+                  First failure
+                  {incident.firstError.stage &&
+                    ` at ${incident.firstError.stage.name}`}
+                  :
+                </span>{" "}
+                {incident.firstError.errorMessage || "Check failed"}
+              </div>
+
+              <ol className="mt-3 border-l ml-2 space-y-2">
+                {incident.timeline.map((event, index) => (
+                  <li
+                    key={`${event.type}-${index}`}
+                    className="relative pl-5 text-sm"
+                  >
+                    <span className="absolute -left-2 top-0.5 bg-card">
+                      {eventIcons[event.type]}
+                    </span>
+                    <span className="font-mono text-xs text-muted-foreground mr-2">
+                      {format(new Date(event.timestamp), "d MMM HH:mm:ss")}
+                    </span>
+                    {event.message}
+                  </li>
+                ))}
+              </ol>
+
+              {incident.status === "open" && incident.escalation?.next && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  {incident.escalation.policyName} escalates to level{" "}
+                  {incident.escalation.next.level}{" "}
+                  {formatDistanceToNow(new Date(incident.escalation.next.at), {
+                    addSuffix: true,
+                  })}{" "}
+                  unless acknowledged
+                </p>
+              )}
+
+              {incident.status === "open" && (
+                <div className="mt-3 flex items-center gap-2">
+                  {ackingId === incident.id ? (
+                    <>
+                      <Input
+                        placeholder="Your name"
+                        className="h-8 max-w-[200px]"
+                        value={ackName}
+                        onChange={(e) => setAckName(e.target.value)}
+                        onKeyDown={(e) =>
+                          e.key === "Enter" && handleAcknowledge(incident)
+                        }
+                        autoFocus
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => handleAcknowledge(incident)}
+                        disabled={!ackName.trim()}
+                      >
+                        Acknowledge
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setAckingId(null)}
+                      >
+                        Cancel
+                      </Button>
+                    </>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setAckingId(incident.id)}
+                    >
+                      <Eye className="mr-2 h-4 w-4" />
+                      Acknowledge
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-8 text-muted-foreground">
+          <p>
+            {isLoading
+              ? "Loading incidents..."
+              : filter === "active"
+                ? "No active incidents."
+                : "No incidents yet."}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IncidentsPanel;
@@ -0,0 +1,142 @@
+import React from "react";
+import { format } from "date-fns";
+import { Plus, Trash2 } from "lucide-react";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+import { MaintenanceWindow } from "../utils/monitorApi";
+
+// Editable form of a maintenance window; times are datetime-local values
+// in the browser's time zone
+export interface MaintenanceWindowDraft {
+  start: string;
+  end: string;
+  note: string;
+}
+
+const LOCAL_TIME_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+// A new window starts on the next hour and lasts an hour
+export const emptyMaintenanceDraft = (): MaintenanceWindowDraft => {
+  const start = new Date();
+  start.setHours(start.getHours() + 1, 0, 0, 0);
+  return {
+    start: format(start, LOCAL_TIME_FORMAT),
+    end: format(start.getTime() + 60 * 60 * 1000, LOCAL_TIME_FORMAT),
+    note: "",
+  };
+};
+
+// Turns saved maintenance windows back into editable drafts
+export const draftsFromMaintenanceWindows = (
+  windows: MaintenanceWindow[] = [],
+): MaintenanceWindowDraft[] =>
+  windows.map((window) => ({
+    start: format(new Date(window.start), LOCAL_TIME_FORMAT),
+    end: format(new Date(window.end), LOCAL_TIME_FORMAT),
+    note: window.note || "",
+  }));
+
+/**
+ * Converts the editor's drafts into the windows saved with a monitor.
+ * Throws an Error with a user-facing message when a draft is invalid.
+ */
+export const buildMaintenanceWindows = (
+  drafts: MaintenanceWindowDraft[],
+): MaintenanceWindow[] =>
+  drafts.map((draft) => {
+    const start = new Date(draft.start);
+    const end = new Date(draft.end);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new Error("Every maintenance window needs a start and end time");
+    }
+    if (start >= end) {
+      throw new Error("A maintenance window must end after it starts");
+    }
+    return {
+      start: start.toISOString(),
+      end: end.toISOString(),
+      ...(draft.note.trim() && { note: draft.note.trim() }),
+    };
+  });
+
+interface MaintenanceWindowsEditorProps {
+  drafts?: MaintenanceWindowDraft[];
+  onDraftsChange?: (drafts: MaintenanceWindowDraft[]) => void;
+  disabled?: boolean;
+}
+
+const MaintenanceWindowsEditor = ({
+  drafts = [],
+  onDraftsChange = () => {},
+  disabled = false,
+}: MaintenanceWindowsEditorProps) => {
+  const updateDraft = (
+    index: number,
+    changes: Partial<MaintenanceWindowDraft>,
+  ) => {
+    onDraftsChange(
+      drafts.map((draft, idx) =>
+        idx === index ? { ...draft, ...changes } : draft,
+      ),
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Checks keep running during maintenance, but their results don't open
+        incidents or count against uptime.
+      </p>
+      {drafts.map((draft, idx) => (
+        <div key={idx} className="flex items-center gap-2">
+          <Input
+            type="datetime-local"
+            value={draft.start}
+            onChange={(e) => updateDraft(idx, { start: e.target.value })}
+            disabled={disabled}
+            aria-label="Maintenance start"
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            type="datetime-local"
+            value={draft.end}
+            onChange={(e) => updateDraft(idx, { end: e.target.value })}
+            disabled={disabled}
+            aria-label="Maintenance end"
+          />
+          <Input
+            placeholder="Note"
+            value={draft.note}
+            onChange={(e) => updateDraft(idx, { note: e.target.value })}
+            disabled={disabled}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() =>
+              onDraftsChange(drafts.filter((_, index) => index !== idx))
+            }
+            disabled={disabled}
+            aria-label="Remove maintenance window"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onDraftsChange([...drafts, emptyMaintenanceDraft()])}
+        disabled={disabled}
+        className="flex items-center"
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add maintenance window
+      </Button>
+    </div>
+  );
+};
+
+export default MaintenanceWindowsEditor;
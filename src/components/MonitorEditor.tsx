@@ -0,0 +1,486 @@
+import React, { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  ChevronDown,
+  Flag,
+  Send,
+  SlidersHorizontal,
+  Timer,
+  Wrench,
+} from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Switch } from "./ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "./ui/collapsible";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import AssertionEditor, {
+  BodyAssertionDraft,
+  buildAssertions,
+  draftsFromAssertions,
+  emptySoftAssertionDraft,
+  softDraftFromAssertions,
+} from "./AssertionEditor";
+import RequestConfigForm, {
+  fromRequestConfig,
+  toRequestConfig,
+  useRequestConfigForm,
+} from "./RequestConfigForm";
+import MonitorScheduleForm, {
+  defaultMonitorScheduleValues,
+  fromMonitorSchedule,
+  toMonitorSchedule,
+  useMonitorScheduleForm,
+} from "./MonitorScheduleForm";
+import RetryPolicyForm, {
+  fromRetryOptions,
+  toRetryOptions,
+  useRetryPolicyForm,
+} from "./RetryPolicyForm";
+import IncidentPolicyForm, {
+  defaultIncidentPolicyValues,
+  fromIncidentPolicy,
+  toIncidentPolicy,
+  useIncidentPolicyForm,
+} from "./IncidentPolicyForm";
+import MaintenanceWindowsEditor, {
+  MaintenanceWindowDraft,
+  buildMaintenanceWindows,
+  draftsFromMaintenanceWindows,
+} from "./MaintenanceWindowsEditor";
+import { Monitor, createMonitor, updateMonitor } from "../utils/monitorApi";
+import { isValidUrl } from "../utils/networkUtils";
+
+const monitorSchema = z.object({
+  name: z.string().max(100, "Keep the name under 100 characters"),
+  url: z
+    .string()
+    .trim()
+    .min(1, "Enter a URL")
+    .refine(isValidUrl, "Enter a valid URL"),
+  group: z.string().max(100, "Keep the group under 100 characters"),
+  paused: z.boolean(),
+});
+
+type MonitorValues = z.infer<typeof monitorSchema>;
+
+const defaultMonitorValues: MonitorValues = {
+  name: "",
+  url: "",
+  group: "",
+  paused: false,
+};
+
+interface MonitorEditorProps {
+  open: boolean;
+  // The monitor being edited, or null to create one
+  monitor?: Monitor | null;
+  onOpenChange?: (open: boolean) => void;
+  onSaved?: (monitor: Monitor) => void;
+}
+
+const MonitorEditor = ({
+  open,
+  monitor = null,
+  onOpenChange = () => {},
+  onSaved = () => {},
+}: MonitorEditorProps) => {
+  const form = useForm<MonitorValues>({
+    resolver: zodResolver(monitorSchema),
+    defaultValues: defaultMonitorValues,
+  });
+  const scheduleForm = useMonitorScheduleForm();
+  const [acceptedStatus, setAcceptedStatus] = useState("");
+  const [assertionDrafts, setAssertionDrafts] = useState<BodyAssertionDraft[]>(
+    [],
+  );
+  const [softDraft, setSoftDraft] = useState(emptySoftAssertionDraft);
+  const [requestOpen, setRequestOpen] = useState(false);
+  const requestForm = useRequestConfigForm();
+  const [retryOpen, setRetryOpen] = useState(false);
+  const retryForm = useRetryPolicyForm();
+  const [incidentOpen, setIncidentOpen] = useState(false);
+  const incidentForm = useIncidentPolicyForm();
+  const [maintenanceOpen, setMaintenanceOpen] = useState(false);
+  const [maintenanceDrafts, setMaintenanceDrafts] = useState<
+    MaintenanceWindowDraft[]
+  >([]);
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load the monitor being edited, or a blank one, each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    const options = monitor?.options || {};
+    form.reset(
+      monitor
+        ? {
+            name: monitor.name,
+            url: monitor.url,
+            group: monitor.group || "",
+            paused: monitor.paused,
+          }
+        : defaultMonitorValues,
+    );
+    scheduleForm.reset(
+      monitor ? fromMonitorSchedule(monitor) : defaultMonitorScheduleValues(),
+    );
+    setAcceptedStatus((options.assertions?.acceptedStatus || []).join(", "));
+    setAssertionDrafts(draftsFromAssertions(options.assertions?.body));
+    setSoftDraft(softDraftFromAssertions(options.assertions));
+    requestForm.reset(fromRequestConfig(options.request));
+    setRequestOpen(Boolean(options.request));
+    retryForm.reset(fromRetryOptions(options));
+    setRetryOpen(Boolean(options.timeouts || options.retry));
+    incidentForm.reset(
+      monitor
+        ? fromIncidentPolicy(monitor.incidentPolicy)
+        : defaultIncidentPolicyValues,
+    );
+    setIncidentOpen(false);
+    setMaintenanceDrafts(
+      draftsFromMaintenanceWindows(monitor?.maintenanceWindows),
+    );
+    setMaintenanceOpen(Boolean(monitor?.maintenanceWindows?.length));
+    setError("");
+  }, [open, monitor]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!(await form.trigger())) return;
+    if (!(await scheduleForm.trigger())) {
+      setError("Please fix the schedule");
+      return;
+    }
+    if (!(await requestForm.trigger())) {
+      setRequestOpen(true);
+      setError("Please fix the advanced request settings");
+      return;
+    }
+    if (!(await retryForm.trigger())) {
+      setRetryOpen(true);
+      setError("Please fix the timeout and retry settings");
+      return;
+    }
+    if (!(await incidentForm.trigger())) {
+      setIncidentOpen(true);
+      setError("Please fix the incident settings");
+      return;
+    }
+
+    const values = form.getValues();
+    // Prepend http:// if no protocol is specified, as the check form does
+    const url = /^https?:\/\//i.test(values.url.trim())
+      ? values.url.trim()
+      : `http://${values.url.trim()}`;
+
+    setIsSaving(true);
+    try {
+      const input = {
+        name: values.name.trim(),
+        url,
+        group: values.group.trim() || null,
+        ...toMonitorSchedule(scheduleForm.getValues()),
+        incidentPolicy: toIncidentPolicy(incidentForm.getValues()),
+        maintenanceWindows: buildMaintenanceWindows(maintenanceDrafts),
+        paused: values.paused,
+        options: {
+          assertions: buildAssertions(
+            acceptedStatus,
+            assertionDrafts,
+            softDraft,
+          ),
+          request: toRequestConfig(requestForm.getValues()),
+          ...toRetryOptions(retryForm.getValues()),
+        },
+      };
+      const saved = monitor
+        ? await updateMonitor(monitor.id, input)
+        : await createMonitor(input);
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (e: any) {
+      setError(e.message || "Failed to save monitor");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{monitor ? "Edit monitor" : "New monitor"}</DialogTitle>
+          <DialogDescription>
+            The server checks the URL on a schedule and keeps every result.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Form {...form}>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Defaults to the host name"
+                      disabled={isSaving}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="url"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>URL</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="https://example.com/health"
+                      disabled={isSaving}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="group"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Group</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g. checkout"
+                      disabled={isSaving}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Monitors in a group share its escalation policy.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="paused"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-md border px-3 py-2">
+                  <div>
+                    <FormLabel>Paused</FormLabel>
+                    <FormDescription>
+                      A paused monitor keeps its results but isn't checked.
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+          </Form>
+
+          <div className="rounded-md border p-3">
+            <MonitorScheduleForm
+              form={scheduleForm}
+              monitorId={monitor?.id}
+              disabled={isSaving}
+            />
+          </div>
+
+          <Collapsible className="rounded-md border px-3 py-2">
+            <CollapsibleTrigger asChild>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="w-full justify-between px-2"
+              >
+                <span className="flex items-center">
+                  <SlidersHorizontal className="mr-2 h-4 w-4" />
+                  Assertions
+                </span>
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-3 pb-1">
+              <AssertionEditor
+                acceptedStatus={acceptedStatus}
+                onAcceptedStatusChange={setAcceptedStatus}
+                drafts={assertionDrafts}
+                onDraftsChange={setAssertionDrafts}
+                softDraft={softDraft}
+                onSoftDraftChange={setSoftDraft}
+                disabled={isSaving}
+              />
+            </CollapsibleContent>
+          </Collapsible>
+
+          <Collapsible
+            open={requestOpen}
+            onOpenChange={setRequestOpen}
+            className="rounded-md border px-3 py-2"
+          >
+            <CollapsibleTrigger asChild>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="w-full justify-between px-2"
+              >
+                <span className="flex items-center">
+                  <Send className="mr-2 h-4 w-4" />
+                  Advanced request
+                </span>
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-3 pb-1">
+              <RequestConfigForm form={requestForm} disabled={isSaving} />
+            </CollapsibleContent>
+          </Collapsible>
+
+          <Collapsible
+            open={retryOpen}
+            onOpenChange={setRetryOpen}
+            className="rounded-md border px-3 py-2"
+          >
+            <CollapsibleTrigger asChild>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="w-full justify-between px-2"
+              >
+                <span className="flex items-center">
+                  <Timer className="mr-2 h-4 w-4" />
+                  Timeouts & retries
+                </span>
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-3 pb-1">
+              <RetryPolicyForm form={retryForm} disabled={isSaving} />
+            </CollapsibleContent>
+          </Collapsible>
+
+          <Collapsible
+            open={incidentOpen}
+            onOpenChange={setIncidentOpen}
+            className="rounded-md border px-3 py-2"
+          >
+            <CollapsibleTrigger asChild>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="w-full justify-between px-2"
+              >
+                <span className="flex items-center">
+                  <Flag className="mr-2 h-4 w-4" />
+                  Incidents & flapping
+                </span>
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-3 pb-1">
+              <IncidentPolicyForm form={incidentForm} disabled={isSaving} />
+            </CollapsibleContent>
+          </Collapsible>
+
+          <Collapsible
+            open={maintenanceOpen}
+            onOpenChange={setMaintenanceOpen}
+            className="rounded-md border px-3 py-2"
+          >
+            <CollapsibleTrigger asChild>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="w-full justify-between px-2"
+              >
+                <span className="flex items-center">
+                  <Wrench className="mr-2 h-4 w-4" />
+                  Maintenance windows
+                  {maintenanceDrafts.length > 0 &&
+                    ` (${maintenanceDrafts.length})`}
+                </span>
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-3 pb-1">
+              <MaintenanceWindowsEditor
+                drafts={maintenanceDrafts}
+                onDraftsChange={setMaintenanceDrafts}
+                disabled={isSaving}
+              />
+            </CollapsibleContent>
+          </Collapsible>
+
+          {error && (
+            <p className="text-sm text-destructive font-medium">{error}</p>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving
+                ? "Saving..."
+                : monitor
+                  ? "Save changes"
+                  : "Create monitor"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MonitorEditor;
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import {
+  Monitor,
+  MonitorResult,
+  MonitorResultAttempt,
+  fetchMonitorResults,
+} from "../utils/monitorApi";
+import { formatResponseTime } from "../utils/networkUtils";
+
+// Most recent results shown
+const RESULTS_LIMIT = 50;
+
+const outcomeStyles = {
+  up: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  degraded:
+    "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+  down: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  cancelled: "bg-muted text-muted-foreground",
+};
+
+const OutcomeBadge = ({ outcome }: { outcome: MonitorResult["outcome"] }) => (
+  <span
+    className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${outcomeStyles[outcome]}`}
+  >
+    {outcome.toUpperCase()}
+  </span>
+);
+
+// Describes what went wrong, with the stage it went wrong in, or why a
+// passing check was degraded
+const describeProblem = (result: MonitorResult | MonitorResultAttempt) =>
+  result.errorMessage
+    ? [result.failedStage?.name, result.errorMessage].filter(Boolean).join(": ")
+    : result.degradedReasons?.join("; ") || "";
+
+interface MonitorResultsDialogProps {
+  // The monitor whose results are shown, or null when closed
+  monitor: Monitor | null;
+  onOpenChange?: (open: boolean) => void;
+}
+
+const MonitorResultsDialog = ({
+  monitor,
+  onOpenChange = () => {},
+}: MonitorResultsDialogProps) => {
+  const [results, setResults] = useState<MonitorResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!monitor) return;
+
+    setResults([]);
+    setError("");
+    setIsLoading(true);
+    fetchMonitorResults(monitor.id, RESULTS_LIMIT)
+      .then(setResults)
+      .catch((e) => setError(e.message || "Failed to load results"))
+      .finally(() => setIsLoading(false));
+  }, [monitor]);
+
+  return (
+    <Dialog open={monitor !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{monitor?.name} results</DialogTitle>
+          <DialogDescription>
+            The last {RESULTS_LIMIT} scheduled checks, newest first. Confirmed
+            failures list each attempt.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <p className="text-sm text-destructive font-medium">{error}</p>
+        )}
+
+        {results.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>HTTP</TableHead>
+                <TableHead>Response Time</TableHead>
+                <TableHead>Problem</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map((result) => (
+                <React.Fragment key={result.timestamp}>
+                  <TableRow>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {format(new Date(result.timestamp), "d MMM HH:mm:ss")}
+                    </TableCell>
+                    <TableCell>
+                      <OutcomeBadge outcome={result.outcome} />
+                    </TableCell>
+                    <TableCell>{result.statusCode ?? "--"}</TableCell>
+                    <TableCell>
+                      {formatResponseTime(result.responseTime)}
+                    </TableCell>
+                    <TableCell className="text-sm max-w-[260px] truncate">
+                      {describeProblem(result)}
+                    </TableCell>
+                  </TableRow>
+                  {result.attempts?.map((attempt) => (
+                    <TableRow
+                      key={attempt.attempt}
+                      className="bg-muted/30 text-muted-foreground"
+                    >
+                      <TableCell className="whitespace-nowrap text-xs pl-8">
+                        {attempt.isConfirmation
+                          ? "Confirmation"
+                          : `Attempt ${attempt.attempt}`}{" "}
+                        · {format(new Date(attempt.timestamp), "HH:mm:ss")}
+                      </TableCell>
+                      <TableCell>
+                        <OutcomeBadge outcome={attempt.outcome} />
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {attempt.statusCode ?? "--"}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {formatResponseTime(attempt.responseTime)}
+                      </TableCell>
+                      <TableCell className="text-xs max-w-[260px] truncate">
+                        {describeProblem(attempt)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </React.Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-center py-8 text-muted-foreground">
+            {isLoading ? "Loading results..." : "No results yet."}
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MonitorResultsDialog;
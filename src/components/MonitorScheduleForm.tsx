@@ -0,0 +1,396 @@
+import React, { useEffect, useState } from "react";
+import { UseFormReturn, useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format, formatDistanceToNow } from "date-fns";
+import { CalendarClock, Plus, Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { MonitorSchedule, previewSchedule } from "../utils/monitorApi";
+
+// Mirrors the server's limits, in seconds
+const MIN_INTERVAL_SECONDS = 10;
+const MAX_INTERVAL_SECONDS = 24 * 60 * 60;
+
+// How long to wait after the last edit before asking for a new preview
+const PREVIEW_DELAY_MS = 400;
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const activeWindowSchema = z
+  .object({
+    days: z.array(z.number()).min(1, "Pick at least one day"),
+    start: z.string().regex(/^\d{2}:\d{2}$/, "Enter a start time"),
+    end: z.string().regex(/^\d{2}:\d{2}$/, "Enter an end time"),
+  })
+  .refine((window) => window.start < window.end, {
+    message: "The window must end after it starts",
+    path: ["end"],
+  });
+
+const monitorScheduleSchema = z
+  .object({
+    type: z.enum(["interval", "cron"]),
+    interval: z
+      .string()
+      .refine(
+        (value) =>
+          Number.isInteger(Number(value)) &&
+          Number(value) >= MIN_INTERVAL_SECONDS &&
+          Number(value) <= MAX_INTERVAL_SECONDS,
+        `Enter a whole number of seconds from ${MIN_INTERVAL_SECONDS} to ${MAX_INTERVAL_SECONDS}`,
+      ),
+    cron: z.string(),
+    timezone: z.string().trim().min(1, "Enter a time zone"),
+    windows: z.array(activeWindowSchema),
+  })
+  .refine((values) => values.type !== "cron" || values.cron.trim() !== "", {
+    message: "Enter a cron expression",
+    path: ["cron"],
+  });
+
+export type MonitorScheduleValues = z.infer<typeof monitorScheduleSchema>;
+
+export const defaultMonitorScheduleValues = (): MonitorScheduleValues => ({
+  type: "interval",
+  interval: "60",
+  cron: "",
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+  windows: [],
+});
+
+export const useMonitorScheduleForm = () =>
+  useForm<MonitorScheduleValues>({
+    resolver: zodResolver(monitorScheduleSchema),
+    defaultValues: defaultMonitorScheduleValues(),
+  });
+
+// Converts validated form values into the schedule saved with a monitor
+export const toMonitorSchedule = (
+  values: MonitorScheduleValues,
+): MonitorSchedule => ({
+  intervalSeconds: Number(values.interval),
+  cron: values.type === "cron" ? values.cron.trim() : null,
+  timezone: values.timezone.trim(),
+  activeWindows: values.windows.map(({ days, start, end }) => ({
+    days: [...days].sort((a, b) => a - b),
+    start,
+    end,
+  })),
+});
+
+// Turns a saved schedule back into form values. Monitors saved before
+// cron schedules existed have only an interval.
+export const fromMonitorSchedule = (
+  schedule: Partial<MonitorSchedule>,
+): MonitorScheduleValues => ({
+  type: schedule.cron ? "cron" : "interval",
+  interval: String(schedule.intervalSeconds ?? 60),
+  cron: schedule.cron || "",
+  timezone: schedule.timezone || "UTC",
+  windows: schedule.activeWindows || [],
+});
+
+interface MonitorScheduleFormProps {
+  form: UseFormReturn<MonitorScheduleValues>;
+  // The monitor being edited, so the preview shows its own interval slot
+  monitorId?: string;
+  disabled?: boolean;
+}
+
+// Fields only; the monitor editor owns submission, so there's no <form> here
+const MonitorScheduleForm = ({
+  form,
+  monitorId,
+  disabled = false,
+}: MonitorScheduleFormProps) => {
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "windows",
+  });
+  const [previewRuns, setPreviewRuns] = useState<string[]>([]);
+  const [previewError, setPreviewError] = useState("");
+  const values = form.watch();
+  const type = values.type;
+
+  // Ask the server for the next runs whenever the schedule settles on
+  // something valid; it owns the cron and time zone rules
+  const scheduleKey = JSON.stringify(values);
+  useEffect(() => {
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      const parsed = monitorScheduleSchema.safeParse(form.getValues());
+      if (!parsed.success) {
+        setPreviewRuns([]);
+        setPreviewError("");
+        return;
+      }
+
+      try {
+        const runs = await previewSchedule(
+          toMonitorSchedule(parsed.data),
+          monitorId,
+        );
+        if (!isCurrent) return;
+        setPreviewRuns(runs);
+        setPreviewError("");
+      } catch (e: any) {
+        if (!isCurrent) return;
+        setPreviewRuns([]);
+        setPreviewError(e.message || "Failed to preview the schedule");
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [scheduleKey, monitorId]);
+
+  return (
+    <Form {...form}>
+      <div className="space-y-4">
+        <div className="grid grid-cols-[160px_1fr] gap-4">
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Run</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={field.onChange}
+                  disabled={disabled}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="interval">Every interval</SelectItem>
+                    <SelectItem value="cron">On a cron schedule</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          {type === "interval" ? (
+            <FormField
+              control={form.control}
+              name="interval"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Interval (seconds)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={MIN_INTERVAL_SECONDS}
+                      max={MAX_INTERVAL_SECONDS}
+                      disabled={disabled}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ) : (
+            <FormField
+              control={form.control}
+              name="cron"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Cron expression</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="*/5 9-17 * * mon-fri"
+                      className="font-mono"
+                      disabled={disabled}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Minute, hour, day of month, month, day of week.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="timezone"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Time zone</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="Europe/London"
+                  disabled={disabled}
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription>
+                Cron times and active windows are read in this zone.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium">Active windows</p>
+              <p className="text-sm text-muted-foreground">
+                {fields.length === 0
+                  ? "Runs at any time of day."
+                  : "Runs only inside one of these windows."}
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                append({ days: [1, 2, 3, 4, 5], start: "09:00", end: "17:00" })
+              }
+              disabled={disabled}
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add window
+            </Button>
+          </div>
+
+          {fields.map((windowField, index) => (
+            <div
+              key={windowField.id}
+              className="rounded-md border p-3 space-y-2"
+            >
+              <FormField
+                control={form.control}
+                name={`windows.${index}.days`}
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex flex-wrap gap-1">
+                      {DAY_LABELS.map((label, day) => {
+                        const selected = field.value.includes(day);
+                        return (
+                          <Button
+                            key={label}
+                            type="button"
+                            size="sm"
+                            variant={selected ? "default" : "outline"}
+                            className="h-7 px-2"
+                            onClick={() =>
+                              field.onChange(
+                                selected
+                                  ? field.value.filter((d) => d !== day)
+                                  : [...field.value, day],
+                              )
+                            }
+                            disabled={disabled}
+                          >
+                            {label}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex items-start gap-2">
+                <FormField
+                  control={form.control}
+                  name={`windows.${index}.start`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Input type="time" disabled={disabled} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <span className="pt-2 text-sm text-muted-foreground">to</span>
+                <FormField
+                  control={form.control}
+                  name={`windows.${index}.end`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Input type="time" disabled={disabled} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => remove(index)}
+                  disabled={disabled}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="rounded-md bg-muted/50 p-3">
+          <p className="text-sm font-medium flex items-center mb-2">
+            <CalendarClock className="mr-2 h-4 w-4" />
+            Next runs
+            <span className="ml-1 font-normal text-muted-foreground">
+              (your local time)
+            </span>
+          </p>
+          {previewError ? (
+            <p className="text-sm text-destructive">{previewError}</p>
+          ) : previewRuns.length > 0 ? (
+            <ul className="space-y-1 text-sm">
+              {previewRuns.map((run) => (
+                <li key={run} className="flex justify-between">
+                  <span className="font-mono">
+                    {format(new Date(run), "EEE d MMM yyyy, HH:mm:ss")}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {formatDistanceToNow(new Date(run), { addSuffix: true })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Finish the schedule to see when it runs.
+            </p>
+          )}
+        </div>
+      </div>
+    </Form>
+  );
+};
+
+export default MonitorScheduleForm;
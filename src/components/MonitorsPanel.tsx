@@ -0,0 +1,387 @@
+import React, { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Activity,
+  Bell,
+  List,
+  ListOrdered,
+  Pause,
+  Pencil,
+  Play,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import MonitorEditor from "./MonitorEditor";
+import MonitorResultsDialog from "./MonitorResultsDialog";
+import NotificationsDialog from "./NotificationsDialog";
+import EscalationPoliciesDialog from "./EscalationPoliciesDialog";
+import {
+  Monitor,
+  deleteMonitor,
+  fetchMonitors,
+  updateMonitor,
+} from "../utils/monitorApi";
+import { formatResponseTime } from "../utils/networkUtils";
+
+// How often the list is refreshed while it's on screen
+const REFRESH_INTERVAL_MS = 10000;
+
+const statusStyles = {
+  up: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  degraded:
+    "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+  down: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  cancelled: "bg-muted text-muted-foreground",
+  paused: "bg-muted text-muted-foreground",
+  pending: "bg-primary/10 text-primary",
+};
+
+// Formats an interval in seconds as e.g. "30s", "5m" or "1h 30m"
+const formatInterval = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = seconds % 60;
+  return (
+    [hours && `${hours}h`, minutes && `${minutes}m`, rest && `${rest}s`]
+      .filter(Boolean)
+      .join(" ") || "0s"
+  );
+};
+
+const getMonitorStatus = (monitor: Monitor): keyof typeof statusStyles => {
+  if (monitor.paused) return "paused";
+  return monitor.lastResult?.outcome || "pending";
+};
+
+interface MonitorsPanelProps {
+  // A monitor whose results open once the list loads, as when following
+  // the link in a notification
+  openMonitorId?: string | null;
+}
+
+const MonitorsPanel = ({ openMonitorId = null }: MonitorsPanelProps) => {
+  const [monitors, setMonitors] = useState<Monitor[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<Monitor | null>(null);
+  const [deleting, setDeleting] = useState<Monitor | null>(null);
+  const [viewing, setViewing] = useState<Monitor | null>(null);
+  const [notificationsOpen, setNotificationsOpen] = useState(false);
+  const [escalationOpen, setEscalationOpen] = useState(false);
+  const [linkedMonitorId, setLinkedMonitorId] = useState(openMonitorId);
+
+  const loadMonitors = async () => {
+    try {
+      setMonitors(await fetchMonitors());
+      setError("");
+    } catch (e: any) {
+      setError(e.message || "Failed to load monitors");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadMonitors();
+    const timer = setInterval(loadMonitors, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!linkedMonitorId || isLoading) return;
+    const linked = monitors.find((monitor) => monitor.id === linkedMonitorId);
+    if (linked) setViewing(linked);
+    setLinkedMonitorId(null);
+  }, [monitors, isLoading, linkedMonitorId]);
+
+  const handleCreate = () => {
+    setEditing(null);
+    setEditorOpen(true);
+  };
+
+  const handleEdit = (monitor: Monitor) => {
+    setEditing(monitor);
+    setEditorOpen(true);
+  };
+
+  const handleTogglePaused = async (monitor: Monitor) => {
+    try {
+      await updateMonitor(monitor.id, {
+        name: monitor.name,
+        url: monitor.url,
+        group: monitor.group,
+        options: monitor.options,
+        intervalSeconds: monitor.intervalSeconds,
+        cron: monitor.cron,
+        timezone: monitor.timezone,
+        activeWindows: monitor.activeWindows,
+        incidentPolicy: monitor.incidentPolicy,
+        maintenanceWindows: monitor.maintenanceWindows,
+        paused: !monitor.paused,
+      });
+      await loadMonitors();
+    } catch (e: any) {
+      setError(e.message || "Failed to update monitor");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteMonitor(deleting.id);
+      await loadMonitors();
+    } catch (e: any) {
+      setError(e.message || "Failed to delete monitor");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-lg shadow-md border p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold flex items-center">
+          <Activity className="mr-2 h-5 w-5 text-primary" />
+          Monitors
+        </h2>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setNotificationsOpen(true)}
+          >
+            <Bell className="mr-2 h-4 w-4" />
+            Notifications
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setEscalationOpen(true)}
+          >
+            <ListOrdered className="mr-2 h-4 w-4" />
+            Escalation
+          </Button>
+          <Button size="sm" onClick={handleCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Monitor
+          </Button>
+        </div>
+      </div>
+      {error && <p className="text-sm text-destructive font-medium">{error}</p>}
+
+      {monitors.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Monitor</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Schedule</TableHead>
+              <TableHead>Last Check</TableHead>
+              <TableHead>Next Check</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {monitors.map((monitor) => {
+              const status = getMonitorStatus(monitor);
+              const { lastResult } = monitor;
+              return (
+                <TableRow key={monitor.id}>
+                  <TableCell className="max-w-[240px]">
+                    <div className="font-medium truncate">
+                      {monitor.name}
+                      {monitor.group && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-normal bg-muted text-muted-foreground">
+                          {monitor.group}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {monitor.options.request?.method &&
+                        monitor.options.request.method !== "GET" && (
+                          <span className="mr-1 font-mono">
+                            {monitor.options.request.method}
+                          </span>
+                        )}
+                      {monitor.url}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <span
+                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[status]}`}
+                      title={
+                        lastResult?.errorMessage ||
+                        lastResult?.degradedReasons?.join("\n")
+                      }
+                    >
+                      {status.toUpperCase()}
+                    </span>
+                    {monitor.isFlapping && (
+                      <span
+                        className="ml-1 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200"
+                        title="Switching between up and down too often; notifications are held back"
+                      >
+                        FLAPPING
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {monitor.cron ? (
+                      <span
+                        className="font-mono text-xs"
+                        title={monitor.timezone}
+                      >
+                        {monitor.cron}
+                      </span>
+                    ) : (
+                      formatInterval(monitor.intervalSeconds)
+                    )}
+                    {monitor.activeWindows?.length > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        In {monitor.activeWindows.length} window
+                        {monitor.activeWindows.length === 1 ? "" : "s"}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {lastResult ? (
+                      <>
+                        {formatDistanceToNow(new Date(lastResult.timestamp), {
+                          addSuffix: true,
+                        })}
+                        <div className="text-xs text-muted-foreground">
+                          {lastResult.statusCode ?? "--"} ·{" "}
+                          {formatResponseTime(lastResult.responseTime)}
+                        </div>
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">Never</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {monitor.isRunning
+                      ? "Running now"
+                      : monitor.nextRunAt
+                        ? formatDistanceToNow(new Date(monitor.nextRunAt), {
+                            addSuffix: true,
+                          })
+                        : "--"}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setViewing(monitor)}
+                      title="Results"
+                    >
+                      <List className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleTogglePaused(monitor)}
+                      title={monitor.paused ? "Resume" : "Pause"}
+                    >
+                      {monitor.paused ? (
+                        <Play className="h-4 w-4" />
+                      ) : (
+                        <Pause className="h-4 w-4" />
+                      )}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleEdit(monitor)}
+                      title="Edit"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeleting(monitor)}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      ) : (
+        <div className="text-center py-8 text-muted-foreground">
+          <p>
+            {isLoading
+              ? "Loading monitors..."
+              : "No monitors yet. Create one to check a URL on a schedule."}
+          </p>
+        </div>
+      )}
+
+      <MonitorEditor
+        open={editorOpen}
+        monitor={editing}
+        onOpenChange={setEditorOpen}
+        onSaved={loadMonitors}
+      />
+
+      <MonitorResultsDialog
+        monitor={viewing}
+        onOpenChange={(open) => !open && setViewing(null)}
+      />
+
+      <NotificationsDialog
+        open={notificationsOpen}
+        onOpenChange={setNotificationsOpen}
+      />
+
+      <EscalationPoliciesDialog
+        open={escalationOpen}
+        onOpenChange={setEscalationOpen}
+      />
+
+      <AlertDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The monitor stops and all of its stored results are deleted. This
+              can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default MonitorsPanel;
@@ -0,0 +1,740 @@
+import React, { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Send } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Switch } from "./ui/switch";
+import { Checkbox } from "./ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import EmailChannelForm, {
+  defaultEmailChannelValues,
+  fromEmailConfig,
+  toEmailConfig,
+  useEmailChannelForm,
+} from "./EmailChannelForm";
+import WebhookChannelForm, {
+  defaultWebhookChannelValues,
+  toWebhookConfig,
+  useWebhookChannelForm,
+} from "./WebhookChannelForm";
+import SignedWebhookForm, {
+  defaultSignedWebhookValues,
+  fromSignedWebhookConfig,
+  toSignedWebhookConfig,
+  useSignedWebhookForm,
+} from "./SignedWebhookForm";
+import AlertChannelForm, {
+  defaultAlertChannelValues,
+  fromOpsgenieConfig,
+  fromPagerDutyConfig,
+  toOpsgenieConfig,
+  toPagerDutyConfig,
+  useAlertChannelForm,
+} from "./AlertChannelForm";
+import {
+  AlertChannelType,
+  Monitor,
+  NotificationChannel,
+  NotificationChannelInput,
+  NotificationChannelType,
+  NotificationEvent,
+  createChannel,
+  fetchMonitors,
+  testChannel,
+  updateChannel,
+} from "../utils/monitorApi";
+
+export const NOTIFICATION_EVENTS: {
+  value: NotificationEvent;
+  label: string;
+}[] = [
+  { value: "down", label: "Down" },
+  { value: "degraded", label: "Degraded" },
+  { value: "acknowledged", label: "Acknowledged" },
+  { value: "recovered", label: "Recovered" },
+];
+
+export const CHANNEL_TYPE_LABELS: Record<NotificationChannelType, string> = {
+  email: "Email",
+  slack: "Slack",
+  discord: "Discord",
+  teams: "Microsoft Teams",
+  webhook: "Webhook",
+  pagerduty: "PagerDuty",
+  opsgenie: "Opsgenie",
+};
+
+const isAlertType = (type: NotificationChannelType): type is AlertChannelType =>
+  type === "pagerduty" || type === "opsgenie";
+
+// Mirrors the server's limits
+const MAX_RATE_LIMIT_MESSAGES = 1000;
+const MAX_RATE_LIMIT_WINDOW_MINUTES = 24 * 60;
+
+const count = (max: number, message: string) =>
+  z
+    .string()
+    .refine(
+      (value) =>
+        Number.isInteger(Number(value)) &&
+        Number(value) >= 1 &&
+        Number(value) <= max,
+      message,
+    );
+
+const channelSchema = z
+  .object({
+    type: z.enum([
+      "email",
+      "slack",
+      "discord",
+      "teams",
+      "webhook",
+      "pagerduty",
+      "opsgenie",
+    ]),
+    name: z.string().max(100, "Keep the name under 100 characters"),
+    enabled: z.boolean(),
+    events: z
+      .array(z.enum(["down", "degraded", "acknowledged", "recovered"]))
+      .min(1, "Pick at least one event"),
+    allMonitors: z.boolean(),
+    monitorIds: z.array(z.string()),
+    rateLimited: z.boolean(),
+    maxMessages: count(
+      MAX_RATE_LIMIT_MESSAGES,
+      `Enter 1 to ${MAX_RATE_LIMIT_MESSAGES}`,
+    ),
+    windowMinutes: count(
+      MAX_RATE_LIMIT_WINDOW_MINUTES,
+      `Enter 1 to ${MAX_RATE_LIMIT_WINDOW_MINUTES}`,
+    ),
+  })
+  .refine((values) => values.allMonitors || values.monitorIds.length > 0, {
+    message: "Pick at least one monitor",
+    path: ["monitorIds"],
+  });
+
+type ChannelValues = z.infer<typeof channelSchema>;
+
+// New channels are rate limited so one outage can't flood them, except
+// alert services, which dedupe on their side and would be left with
+// alerts that never resolve
+const defaultChannelValues: ChannelValues = {
+  type: "email",
+  name: "",
+  enabled: true,
+  events: ["down", "degraded", "acknowledged", "recovered"],
+  allMonitors: true,
+  monitorIds: [],
+  rateLimited: true,
+  maxMessages: "10",
+  windowMinutes: "60",
+};
+
+// Whether a saved alert channel's key can be left blank to keep it
+const hasSavedAlertKey = (channel: NotificationChannel) =>
+  channel.type === "pagerduty"
+    ? Boolean(channel.config.hasRoutingKey)
+    : channel.type === "opsgenie" && Boolean(channel.config.hasApiKey);
+
+// Turns a saved channel back into form values
+const fromChannel = (channel: NotificationChannel): ChannelValues => ({
+  type: channel.type,
+  name: channel.name,
+  enabled: channel.enabled,
+  events: channel.events,
+  allMonitors: !channel.monitorIds?.length,
+  monitorIds: channel.monitorIds || [],
+  rateLimited: Boolean(channel.rateLimit) && !isAlertType(channel.type),
+  maxMessages: String(
+    channel.rateLimit?.maxMessages ?? defaultChannelValues.maxMessages,
+  ),
+  windowMinutes: String(
+    channel.rateLimit?.windowMinutes ?? defaultChannelValues.windowMinutes,
+  ),
+});
+
+interface NotificationChannelEditorProps {
+  open: boolean;
+  // The channel being edited, or null to create one
+  channel?: NotificationChannel | null;
+  onOpenChange?: (open: boolean) => void;
+  onSaved?: (channel: NotificationChannel) => void;
+}
+
+const NotificationChannelEditor = ({
+  open,
+  channel = null,
+  onOpenChange = () => {},
+  onSaved = () => {},
+}: NotificationChannelEditorProps) => {
+  const form = useForm<ChannelValues>({
+    resolver: zodResolver(channelSchema),
+    defaultValues: defaultChannelValues,
+  });
+  const emailForm = useEmailChannelForm();
+  const webhookForm = useWebhookChannelForm();
+  const signedWebhookForm = useSignedWebhookForm();
+  const alertForm = useAlertChannelForm();
+  const [monitors, setMonitors] = useState<Monitor[]>([]);
+  const [error, setError] = useState("");
+  const [testMessage, setTestMessage] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const type = form.watch("type");
+  const allMonitors = form.watch("allMonitors");
+  const rateLimited = form.watch("rateLimited");
+
+  // Load the channel being edited, or a blank one, each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    form.reset(channel ? fromChannel(channel) : defaultChannelValues);
+    emailForm.reset(
+      channel?.type === "email"
+        ? fromEmailConfig(channel.config)
+        : defaultEmailChannelValues,
+    );
+    webhookForm.reset(defaultWebhookChannelValues);
+    signedWebhookForm.reset(
+      channel?.type === "webhook"
+        ? fromSignedWebhookConfig(channel.config)
+        : defaultSignedWebhookValues(),
+    );
+    alertForm.reset(
+      channel?.type === "pagerduty"
+        ? fromPagerDutyConfig(channel.config)
+        : channel?.type === "opsgenie"
+          ? fromOpsgenieConfig(channel.config)
+          : defaultAlertChannelValues("pagerduty"),
+    );
+    setError("");
+    setTestMessage("");
+    fetchMonitors()
+      .then(setMonitors)
+      .catch((e) => setError(e.message || "Failed to load monitors"));
+  }, [open, channel]);
+
+  // Checks every field and builds what the server expects, or null if
+  // something needs fixing
+  const buildInput = async (): Promise<NotificationChannelInput | null> => {
+    const values = form.getValues();
+    const valid = [
+      await form.trigger(),
+      values.type === "email"
+        ? await emailForm.trigger()
+        : values.type === "webhook"
+          ? await signedWebhookForm.trigger()
+          : isAlertType(values.type)
+            ? await alertForm.trigger()
+            : await webhookForm.trigger(),
+    ];
+    // Secrets may only be left blank when there's one saved
+    if (
+      values.type === "webhook" &&
+      !signedWebhookForm.getValues("secret") &&
+      !(channel?.type === "webhook" && channel.config.hasSecret)
+    ) {
+      signedWebhookForm.setError("secret", {
+        message: "Enter or generate a signing secret",
+      });
+      return null;
+    }
+    if (
+      isAlertType(values.type) &&
+      !alertForm.getValues("key").trim() &&
+      !(channel && hasSavedAlertKey(channel))
+    ) {
+      alertForm.setError("key", {
+        message:
+          values.type === "pagerduty"
+            ? "Enter the integration key"
+            : "Enter the API key",
+      });
+      return null;
+    }
+    if (
+      (values.type === "slack" ||
+        values.type === "discord" ||
+        values.type === "teams") &&
+      !webhookForm.getValues("webhookUrl").trim() &&
+      !(
+        (channel?.type === "slack" ||
+          channel?.type === "discord" ||
+          channel?.type === "teams") &&
+        channel.config.hasWebhookUrl
+      )
+    ) {
+      webhookForm.setError("webhookUrl", { message: "Enter the webhook URL" });
+      return null;
+    }
+    if (valid.includes(false)) return null;
+
+    const common = {
+      name: values.name.trim(),
+      enabled: values.enabled,
+      events: values.events,
+      monitorIds: values.allMonitors ? [] : values.monitorIds,
+      rateLimit: values.rateLimited
+        ? {
+            maxMessages: Number(values.maxMessages),
+            windowMinutes: Number(values.windowMinutes),
+          }
+        : null,
+    };
+    if (values.type === "email") {
+      return {
+        ...common,
+        type: "email",
+        config: toEmailConfig(emailForm.getValues()),
+      };
+    }
+    if (values.type === "webhook") {
+      return {
+        ...common,
+        type: "webhook",
+        config: toSignedWebhookConfig(signedWebhookForm.getValues()),
+      };
+    }
+    if (values.type === "pagerduty") {
+      return {
+        ...common,
+        type: "pagerduty",
+        config: toPagerDutyConfig(alertForm.getValues()),
+      };
+    }
+    if (values.type === "opsgenie") {
+      return {
+        ...common,
+        type: "opsgenie",
+        config: toOpsgenieConfig(alertForm.getValues()),
+      };
+    }
+    return {
+      ...common,
+      type: values.type,
+      config: toWebhookConfig(webhookForm.getValues()),
+    };
+  };
+
+  const handleTest = async () => {
+    setError("");
+    setTestMessage("");
+    const input = await buildInput();
+    if (!input) return;
+
+    setIsTesting(true);
+    try {
+      await testChannel(input, channel?.id);
+      setTestMessage(
+        input.type === "email"
+          ? `Test email sent to ${input.config.to.join(", ")}`
+          : input.type === "webhook"
+            ? `Test payload delivered to ${input.config.url}`
+            : isAlertType(input.type)
+              ? `Test alert opened and resolved in ${CHANNEL_TYPE_LABELS[input.type]}`
+              : `Test message posted to ${CHANNEL_TYPE_LABELS[input.type]}`,
+      );
+    } catch (e: any) {
+      setError(e.message || "Failed to send test notification");
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setTestMessage("");
+    const input = await buildInput();
+    if (!input) return;
+
+    setIsSaving(true);
+    try {
+      const saved = channel
+        ? await updateChannel(channel.id, input)
+        : await createChannel(input);
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (e: any) {
+      setError(e.message || "Failed to save channel");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const busy = isSaving || isTesting;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {channel
+              ? `Edit ${CHANNEL_TYPE_LABELS[type]} channel`
+              : "New notification channel"}
+          </DialogTitle>
+          <DialogDescription>
+            Tells you when a monitor's incident opens, is acknowledged or
+            resolves.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Form {...form}>
+            <div className="grid grid-cols-[180px_1fr] gap-3">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Send with</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={(value: NotificationChannelType) => {
+                        field.onChange(value);
+                        if (isAlertType(value)) {
+                          alertForm.reset(defaultAlertChannelValues(value));
+                          form.setValue("rateLimited", false);
+                        }
+                      }}
+                      disabled={busy || channel !== null}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(CHANNEL_TYPE_LABELS).map(
+                          ([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ),
+                        )}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="e.g. On-call team"
+                        disabled={busy}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="events"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notify when a monitor</FormLabel>
+                  <div className="flex gap-6">
+                    {NOTIFICATION_EVENTS.map(({ value, label }) => (
+                      <label
+                        key={value}
+                        className="flex items-center gap-2 text-sm"
+                      >
+                        <Checkbox
+                          checked={field.value.includes(value)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked === true
+                                ? [...field.value, value]
+                                : field.value.filter(
+                                    (event) => event !== value,
+                                  ),
+                            )
+                          }
+                          disabled={busy}
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                  <FormDescription>
+                    Flapping monitors don't send notifications.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="enabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-md border px-3 py-2">
+                  <div>
+                    <FormLabel>Enabled</FormLabel>
+                    <FormDescription>
+                      A disabled channel keeps its settings but sends nothing.
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      disabled={busy}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="rounded-md border p-3 space-y-3">
+              <FormField
+                control={form.control}
+                name="allMonitors"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <div>
+                      <FormLabel>All monitors</FormLabel>
+                      <FormDescription>
+                        Includes monitors added later.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        disabled={busy}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              {!allMonitors && (
+                <FormField
+                  control={form.control}
+                  name="monitorIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="max-h-40 overflow-y-auto space-y-2">
+                        {monitors.map((monitor) => (
+                          <label
+                            key={monitor.id}
+                            className="flex items-center gap-2 text-sm"
+                          >
+                            <Checkbox
+                              checked={field.value.includes(monitor.id)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(
+                                  checked === true
+                                    ? [...field.value, monitor.id]
+                                    : field.value.filter(
+                                        (id) => id !== monitor.id,
+                                      ),
+                                )
+                              }
+                              disabled={busy}
+                            />
+                            <span className="truncate">{monitor.name}</span>
+                            <span className="truncate text-xs text-muted-foreground">
+                              {monitor.url}
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            {/* A skipped resolve would leave the alert open, so alert
+                services aren't rate limited */}
+            {!isAlertType(type) && (
+              <div className="rounded-md border p-3 space-y-3">
+                <FormField
+                  control={form.control}
+                  name="rateLimited"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between">
+                      <div>
+                        <FormLabel>Rate limit</FormLabel>
+                        <FormDescription>
+                          Notifications past the limit are skipped; the next one
+                          sent says how many.
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          disabled={busy}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                {rateLimited && (
+                  <div className="flex items-start gap-2 text-sm">
+                    <span className="pt-2">At most</span>
+                    <FormField
+                      control={form.control}
+                      name="maxMessages"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              className="w-24"
+                              disabled={busy}
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <span className="pt-2">messages every</span>
+                    <FormField
+                      control={form.control}
+                      name="windowMinutes"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              className="w-24"
+                              disabled={busy}
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <span className="pt-2">minutes</span>
+                  </div>
+                )}
+              </div>
+            )}
+          </Form>
+
+          <div className="rounded-md border p-3">
+            {type === "email" ? (
+              <EmailChannelForm
+                form={emailForm}
+                hasPassword={
+                  channel?.type === "email" && channel.config.hasPassword
+                }
+                disabled={busy}
+              />
+            ) : type === "webhook" ? (
+              <SignedWebhookForm
+                form={signedWebhookForm}
+                hasSecret={
+                  channel?.type === "webhook" && channel.config.hasSecret
+                }
+                disabled={busy}
+              />
+            ) : isAlertType(type) ? (
+              <AlertChannelForm
+                form={alertForm}
+                service={type}
+                hasKey={channel !== null && hasSavedAlertKey(channel)}
+                disabled={busy}
+              />
+            ) : (
+              <WebhookChannelForm
+                form={webhookForm}
+                service={type}
+                hasWebhookUrl={
+                  channel?.type === type && channel.config.hasWebhookUrl
+                }
+                disabled={busy}
+              />
+            )}
+          </div>
+
+          {error && (
+            <p className="text-sm text-destructive font-medium">{error}</p>
+          )}
+          {testMessage && (
+            <p className="text-sm text-green-600 font-medium">{testMessage}</p>
+          )}
+
+          <DialogFooter className="sm:justify-between">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleTest}
+              disabled={busy}
+            >
+              <Send className="mr-2 h-4 w-4" />
+              {isTesting
+                ? "Sending..."
+                : type === "email"
+                  ? "Send test email"
+                  : type === "webhook"
+                    ? "Send test payload"
+                    : isAlertType(type)
+                      ? "Send test alert"
+                      : "Send test message"}
+            </Button>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={busy}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={busy}>
+                {isSaving
+                  ? "Saving..."
+                  : channel
+                    ? "Save changes"
+                    : "Create channel"}
+              </Button>
+            </div>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NotificationChannelEditor;
@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from "react";
+import {
+  History,
+  Mail,
+  MessageSquare,
+  Pencil,
+  Plus,
+  Siren,
+  Trash2,
+  Webhook,
+} from "lucide-react";
+import { Button } from "./ui/button";
+import { Switch } from "./ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import NotificationChannelEditor, {
+  CHANNEL_TYPE_LABELS,
+  NOTIFICATION_EVENTS,
+} from "./NotificationChannelEditor";
+import WebhookDeliveriesDialog from "./WebhookDeliveriesDialog";
+import {
+  NotificationChannel,
+  deleteChannel,
+  fetchChannels,
+  updateChannel,
+} from "../utils/monitorApi";
+
+// One line about where a channel sends to and what it hears about
+const describeChannel = (channel: NotificationChannel): string =>
+  [
+    channel.type === "email"
+      ? `${channel.config.to.join(", ")} via ${channel.config.host}`
+      : channel.type === "webhook"
+        ? channel.config.url
+        : channel.type === "pagerduty"
+          ? `${CHANNEL_TYPE_LABELS.pagerduty} via ${new URL(channel.config.eventsUrl).host}`
+          : channel.type === "opsgenie"
+            ? `${CHANNEL_TYPE_LABELS.opsgenie} via ${new URL(channel.config.apiUrl).host}`
+            : CHANNEL_TYPE_LABELS[channel.type],
+    NOTIFICATION_EVENTS.filter(({ value }) => channel.events.includes(value))
+      .map(({ label }) => label)
+      .join(", "),
+    channel.monitorIds?.length
+      ? `${channel.monitorIds.length} monitor${channel.monitorIds.length === 1 ? "" : "s"}`
+      : "All monitors",
+    channel.rateLimit &&
+      `At most ${channel.rateLimit.maxMessages} per ${channel.rateLimit.windowMinutes}m`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+interface NotificationsDialogProps {
+  open: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+const NotificationsDialog = ({
+  open,
+  onOpenChange = () => {},
+}: NotificationsDialogProps) => {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<NotificationChannel | null>(null);
+  const [deleting, setDeleting] = useState<NotificationChannel | null>(null);
+  const [viewingDeliveries, setViewingDeliveries] =
+    useState<NotificationChannel | null>(null);
+
+  const loadChannels = async () => {
+    try {
+      setChannels(await fetchChannels());
+      setError("");
+    } catch (e: any) {
+      setError(e.message || "Failed to load notification channels");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadChannels();
+  }, [open]);
+
+  const handleCreate = () => {
+    setEditing(null);
+    setEditorOpen(true);
+  };
+
+  const handleEdit = (channel: NotificationChannel) => {
+    setEditing(channel);
+    setEditorOpen(true);
+  };
+
+  const handleToggleEnabled = async (channel: NotificationChannel) => {
+    // Saved secrets are kept because none are sent
+    const { id, createdAt, updatedAt, ...input } = channel;
+    try {
+      await updateChannel(id, { ...input, enabled: !channel.enabled });
+      await loadChannels();
+    } catch (e: any) {
+      setError(e.message || "Failed to update channel");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteChannel(deleting.id);
+      await loadChannels();
+    } catch (e: any) {
+      setError(e.message || "Failed to delete channel");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Notifications</DialogTitle>
+            <DialogDescription>
+              Each enabled channel hears about incidents on the monitors it's
+              attached to.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleCreate}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add channel
+            </Button>
+          </div>
+          {error && (
+            <p className="text-sm text-destructive font-medium">{error}</p>
+          )}
+
+          {channels.length > 0 ? (
+            <div className="space-y-2">
+              {channels.map((channel) => (
+                <div
+                  key={channel.id}
+                  className="flex items-center gap-3 rounded-md border px-3 py-2"
+                >
+                  {channel.type === "email" ? (
+                    <Mail className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  ) : channel.type === "webhook" ? (
+                    <Webhook className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  ) : channel.type === "pagerduty" ||
+                    channel.type === "opsgenie" ? (
+                    <Siren className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  ) : (
+                    <MessageSquare className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <div className="font-medium truncate">{channel.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {describeChannel(channel)}
+                    </div>
+                  </div>
+                  <Switch
+                    checked={channel.enabled}
+                    onCheckedChange={() => handleToggleEnabled(channel)}
+                    title={channel.enabled ? "Disable" : "Enable"}
+                  />
+                  {channel.type === "webhook" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setViewingDeliveries(channel)}
+                      title="Deliveries"
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleEdit(channel)}
+                    title="Edit"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDeleting(channel)}
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center py-6 text-muted-foreground">
+              {isLoading
+                ? "Loading channels..."
+                : "No channels yet. Add one to hear when a monitor goes down."}
+            </p>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <NotificationChannelEditor
+        open={editorOpen}
+        channel={editing}
+        onOpenChange={setEditorOpen}
+        onSaved={loadChannels}
+      />
+
+      <WebhookDeliveriesDialog
+        channel={viewingDeliveries}
+        onOpenChange={(open) => !open && setViewingDeliveries(null)}
+      />
+
+      <AlertDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The channel stops receiving notifications and its settings are
+              deleted. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default NotificationsDialog;
@@ -0,0 +1,298 @@
+import React, { useEffect, useState } from "react";
+import { format, formatDuration, intervalToDuration } from "date-fns";
+import { Download, FileBarChart, Printer } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import {
+  MonitorUptime,
+  SlaReport,
+  UptimePeriod,
+  fetchSlaReport,
+  fetchUptime,
+  slaReportUrl,
+} from "../utils/monitorApi";
+
+const UPTIME_PERIODS: UptimePeriod[] = ["24h", "7d", "30d", "90d"];
+
+// Formats a span of time, e.g. "2 hours 5 minutes"
+const formatMs = (ms: number | null): string => {
+  if (ms === null) return "--";
+  if (ms < 1000) return ms > 0 ? "under a second" : "none";
+  return formatDuration(intervalToDuration({ start: 0, end: ms }));
+};
+
+const formatUptime = (percent: number | null): string =>
+  percent === null ? "--" : `${percent.toFixed(3)}%`;
+
+// Colours an uptime figure by how close it is to a typical 99.9% target
+const uptimeColor = (percent: number | null): string =>
+  percent === null
+    ? "text-muted-foreground"
+    : percent >= 99.9
+      ? "text-green-600 dark:text-green-400"
+      : percent >= 99
+        ? "text-amber-600 dark:text-amber-400"
+        : "text-red-600 dark:text-red-400";
+
+const ReportsPanel = () => {
+  const [uptime, setUptime] = useState<MonitorUptime[]>([]);
+  const [period, setPeriod] = useState<UptimePeriod>("30d");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const [monitorId, setMonitorId] = useState("");
+  const [month, setMonth] = useState(() => format(new Date(), "yyyy-MM"));
+  const [report, setReport] = useState<SlaReport | null>(null);
+  const [reportError, setReportError] = useState("");
+
+  useEffect(() => {
+    fetchUptime()
+      .then((monitors) => {
+        setUptime(monitors);
+        if (monitors.length > 0) setMonitorId(monitors[0].monitorId);
+      })
+      .catch((e) => setError(e.message || "Failed to load uptime"))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    if (!monitorId || !month) return;
+
+    setReportError("");
+    fetchSlaReport(monitorId, month)
+      .then(setReport)
+      .catch((e) => {
+        setReport(null);
+        setReportError(e.message || "Failed to load the SLA report");
+      });
+  }, [monitorId, month]);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-card rounded-lg shadow-md border p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-semibold flex items-center">
+            <FileBarChart className="mr-2 h-5 w-5 text-primary" />
+            Uptime
+          </h2>
+          <div className="flex gap-1">
+            {UPTIME_PERIODS.map((value) => (
+              <Button
+                key={value}
+                size="sm"
+                variant={period === value ? "default" : "outline"}
+                onClick={() => setPeriod(value)}
+              >
+                {value}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Paused time and maintenance windows aren't counted. Downtime, MTTR
+          (mean time to recovery) and MTBF (mean time between failures) cover
+          the last {period}.
+        </p>
+        {error && (
+          <p className="text-sm text-destructive font-medium">{error}</p>
+        )}
+
+        {uptime.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Monitor</TableHead>
+                {UPTIME_PERIODS.map((value) => (
+                  <TableHead key={value}>{value}</TableHead>
+                ))}
+                <TableHead>Downtime</TableHead>
+                <TableHead>Outages</TableHead>
+                <TableHead>MTTR</TableHead>
+                <TableHead>MTBF</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {uptime.map((monitor) => {
+                const selected = monitor.periods[period];
+                return (
+                  <TableRow key={monitor.monitorId}>
+                    <TableCell>
+                      <p className="font-medium">{monitor.name}</p>
+                      <p className="text-xs text-muted-foreground truncate max-w-[220px]">
+                        {monitor.url}
+                      </p>
+                    </TableCell>
+                    {UPTIME_PERIODS.map((value) => (
+                      <TableCell
+                        key={value}
+                        className={`font-medium ${uptimeColor(monitor.periods[value].uptimePercent)}`}
+                      >
+                        {formatUptime(monitor.periods[value].uptimePercent)}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-sm">
+                      {formatMs(selected.downtimeMs)}
+                    </TableCell>
+                    <TableCell>{selected.outageCount}</TableCell>
+                    <TableCell className="text-sm">
+                      {formatMs(selected.mttrMs)}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {formatMs(selected.mtbfMs)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-center py-8 text-muted-foreground">
+            {isLoading
+              ? "Loading uptime..."
+              : "No monitors yet. Add one on the Monitors tab."}
+          </p>
+        )}
+      </div>
+
+      {uptime.length > 0 && (
+        <div className="bg-card rounded-lg shadow-md border p-6 space-y-4">
+          <div className="flex justify-between items-center gap-4">
+            <h2 className="text-xl font-semibold">Monthly SLA report</h2>
+            <div className="flex items-center gap-2">
+              <Select value={monitorId} onValueChange={setMonitorId}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue placeholder="Choose a monitor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {uptime.map((monitor) => (
+                    <SelectItem
+                      key={monitor.monitorId}
+                      value={monitor.monitorId}
+                    >
+                      {monitor.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="month"
+                className="w-[170px]"
+                value={month}
+                onChange={(e) => setMonth(e.target.value)}
+              />
+            </div>
+          </div>
+          {reportError && (
+            <p className="text-sm text-destructive font-medium">
+              {reportError}
+            </p>
+          )}
+
+          {report && (
+            <>
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div className="rounded-md border p-3">
+                  <p className="text-muted-foreground">Uptime</p>
+                  <p
+                    className={`text-2xl font-semibold ${uptimeColor(report.uptimePercent)}`}
+                  >
+                    {formatUptime(report.uptimePercent)}
+                  </p>
+                </div>
+                <div className="rounded-md border p-3">
+                  <p className="text-muted-foreground">Downtime</p>
+                  <p className="text-lg font-medium">
+                    {formatMs(report.downtimeMs)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatMs(report.excludedMs)} paused or in maintenance
+                  </p>
+                </div>
+                <div className="rounded-md border p-3">
+                  <p className="text-muted-foreground">MTTR / MTBF</p>
+                  <p className="font-medium">{formatMs(report.mttrMs)}</p>
+                  <p className="font-medium">{formatMs(report.mtbfMs)}</p>
+                </div>
+              </div>
+
+              {report.outages.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Started</TableHead>
+                      <TableHead>Ended</TableHead>
+                      <TableHead>Duration</TableHead>
+                      <TableHead>Failed checks</TableHead>
+                      <TableHead>Error</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.outages.map((outage) => (
+                      <TableRow key={outage.start}>
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {format(new Date(outage.start), "d MMM HH:mm:ss")}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {outage.end
+                            ? format(new Date(outage.end), "d MMM HH:mm:ss")
+                            : "Ongoing"}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {formatMs(outage.durationMs)}
+                        </TableCell>
+                        <TableCell>{outage.failedChecks}</TableCell>
+                        <TableCell className="text-sm max-w-[260px] truncate">
+                          {outage.errorMessage}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No outages this month.
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" asChild>
+                  <a href={slaReportUrl(monitorId, month, "csv")} download>
+                    <Download className="mr-2 h-4 w-4" />
+                    Download CSV
+                  </a>
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <a
+                    href={slaReportUrl(monitorId, month, "html")}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    <Printer className="mr-2 h-4 w-4" />
+                    Printable report
+                  </a>
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportsPanel;
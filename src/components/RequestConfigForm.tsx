@@ -0,0 +1,367 @@
+import React from "react";
+import { UseFormReturn, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { HttpMethod, RequestConfig } from "../utils/networkUtils";
+
+const HTTP_METHODS: HttpMethod[] = [
+  "GET",
+  "HEAD",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "OPTIONS",
+];
+
+/**
+ * Parses "Name: value" lines into a header map. Blank lines are skipped;
+ * returns null if any other line isn't a header.
+ */
+export const parseHeaderLines = (
+  text: string,
+): Record<string, string> | null => {
+  const headers: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    const match = /^([!#$%&'*+.^_`|~0-9A-Za-z-]+)\s*:\s*(.*)$/.exec(
+      line.trim(),
+    );
+    if (!match) return null;
+    headers[match[1]] = match[2];
+  }
+  return headers;
+};
+
+const requestConfigSchema = z
+  .object({
+    method: z.enum(HTTP_METHODS as [HttpMethod, ...HttpMethod[]]),
+    userAgent: z.string(),
+    headers: z
+      .string()
+      .refine(
+        (text) => parseHeaderLines(text) !== null,
+        'Use one "Name: value" header per line',
+      ),
+    contentType: z.string(),
+    body: z.string(),
+    authType: z.enum(["none", "basic", "bearer"]),
+    username: z.string(),
+    password: z.string(),
+    token: z.string(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.body && (values.method === "GET" || values.method === "HEAD")) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["body"],
+        message: `${values.method} requests cannot have a body`,
+      });
+    }
+    if (values.authType === "basic" && !values.username) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["username"],
+        message: "Basic auth needs a username",
+      });
+    }
+    if (values.authType === "bearer" && !values.token) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["token"],
+        message: "Bearer auth needs a token",
+      });
+    }
+  });
+
+export type RequestConfigValues = z.infer<typeof requestConfigSchema>;
+
+export const defaultRequestConfigValues: RequestConfigValues = {
+  method: "GET",
+  userAgent: "",
+  headers: "",
+  contentType: "application/json",
+  body: "",
+  authType: "none",
+  username: "",
+  password: "",
+  token: "",
+};
+
+export const useRequestConfigForm = () =>
+  useForm<RequestConfigValues>({
+    resolver: zodResolver(requestConfigSchema),
+    defaultValues: defaultRequestConfigValues,
+  });
+
+// Converts validated form values into the request config sent with a check
+export const toRequestConfig = (
+  values: RequestConfigValues,
+): RequestConfig | undefined => {
+  const config: RequestConfig = { method: values.method };
+  const headers = parseHeaderLines(values.headers) || {};
+
+  if (Object.keys(headers).length > 0) config.headers = headers;
+  if (values.userAgent.trim()) config.userAgent = values.userAgent.trim();
+  if (values.body) {
+    config.body = values.body;
+    config.contentType = values.contentType || undefined;
+  }
+  if (values.authType === "basic") {
+    config.auth = {
+      type: "basic",
+      username: values.username,
+      password: values.password,
+    };
+  } else if (values.authType === "bearer") {
+    config.auth = { type: "bearer", token: values.token };
+  }
+
+  // A bare GET is what the server sends anyway
+  return Object.keys(config).length === 1 && config.method === "GET"
+    ? undefined
+    : config;
+};
+
+// Turns a saved request config back into form values
+export const fromRequestConfig = (
+  config?: RequestConfig,
+): RequestConfigValues => ({
+  ...defaultRequestConfigValues,
+  method: config?.method || "GET",
+  userAgent: config?.userAgent || "",
+  headers: Object.entries(config?.headers || {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n"),
+  contentType: config?.contentType || defaultRequestConfigValues.contentType,
+  body: config?.body || "",
+  authType: config?.auth?.type || "none",
+  username: config?.auth?.type === "basic" ? config.auth.username : "",
+  password: config?.auth?.type === "basic" ? config.auth.password : "",
+  token: config?.auth?.type === "bearer" ? config.auth.token : "",
+});
+
+interface RequestConfigFormProps {
+  form: UseFormReturn<RequestConfigValues>;
+  disabled?: boolean;
+}
+
+// Fields only; the URL form owns submission, so there's no <form> here
+const RequestConfigForm = ({
+  form,
+  disabled = false,
+}: RequestConfigFormProps) => {
+  const method = form.watch("method");
+  const authType = form.watch("authType");
+  const canHaveBody = method !== "GET" && method !== "HEAD";
+
+  return (
+    <Form {...form}>
+      <div className="space-y-4">
+        <div className="grid grid-cols-[140px_1fr] gap-4">
+          <FormField
+            control={form.control}
+            name="method"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Method</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={field.onChange}
+                  disabled={disabled}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {HTTP_METHODS.map((m) => (
+                      <SelectItem key={m} value={m}>
+                        {m}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="userAgent"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>User agent</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="Leave empty to send none"
+                    disabled={disabled}
+                    {...field}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="headers"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Headers</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder={"Accept: application/json\nX-Api-Version: 2"}
+                  className="font-mono"
+                  disabled={disabled}
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription>One "Name: value" per line.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {canHaveBody && (
+          <>
+            <FormField
+              control={form.control}
+              name="contentType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Content type</FormLabel>
+                  <FormControl>
+                    <Input disabled={disabled} {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="body"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Body</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder='{"ping": true}'
+                      className="font-mono min-h-[100px]"
+                      disabled={disabled}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </>
+        )}
+
+        <FormField
+          control={form.control}
+          name="authType"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Authentication</FormLabel>
+              <Select
+                value={field.value}
+                onValueChange={field.onChange}
+                disabled={disabled}
+              >
+                <FormControl>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  <SelectItem value="basic">Basic</SelectItem>
+                  <SelectItem value="bearer">Bearer token</SelectItem>
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )}
+        />
+
+        {authType === "basic" && (
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Username</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="off" disabled={disabled} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      autoComplete="off"
+                      disabled={disabled}
+                      {...field}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {authType === "bearer" && (
+          <FormField
+            control={form.control}
+            name="token"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Token</FormLabel>
+                <FormControl>
+                  <Input
+                    type="password"
+                    autoComplete="off"
+                    className="font-mono"
+                    disabled={disabled}
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+      </div>
+    </Form>
+  );
+};
+
+export default RequestConfigForm;
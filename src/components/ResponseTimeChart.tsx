@@ -0,0 +1,327 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { endOfDay, format, startOfDay, subDays } from "date-fns";
+import { DateRange } from "react-day-picker";
+import { LineChart } from "lucide-react";
+import DatePickerWithRange from "./ui/date-picker-with-range";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  CheckHistoryItem,
+  StageTimings,
+  TIMED_STAGES,
+  formatResponseTime,
+  getCheckOutcome,
+  getCheckTime,
+  niceMax,
+  percentile,
+} from "../utils/networkUtils";
+
+// Size of the chart's drawing area; the SVG scales to fit its container
+const WIDTH = 800;
+const HEIGHT = 260;
+const PADDING = { top: 12, right: 56, bottom: 28, left: 56 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+const stageStyles: Record<
+  keyof StageTimings,
+  { label: string; className: string }
+> = {
+  dns: { label: "DNS", className: "fill-sky-400 bg-sky-400" },
+  connection: { label: "Connect", className: "fill-violet-400 bg-violet-400" },
+  tls: { label: "TLS", className: "fill-teal-400 bg-teal-400" },
+  firstByte: { label: "TTFB", className: "fill-amber-400 bg-amber-400" },
+  download: { label: "Download", className: "fill-green-400 bg-green-400" },
+};
+
+const PERCENTILES = [
+  { p: 50, label: "p50", className: "stroke-blue-500 text-blue-500" },
+  { p: 95, label: "p95", className: "stroke-orange-500 text-orange-500" },
+  { p: 99, label: "p99", className: "stroke-red-500 text-red-500" },
+];
+
+// Describes one check for its tooltip
+const describeCheck = (item: CheckHistoryItem, time: Date): string =>
+  [
+    `${format(time, "d MMM yyyy HH:mm:ss")} · ${getCheckOutcome(item).toUpperCase()}`,
+    `Total: ${formatResponseTime(item.responseTime)}`,
+    ...TIMED_STAGES.filter((id) => item.stageTimings?.[id] !== undefined).map(
+      (id) =>
+        `${stageStyles[id].label}: ${formatResponseTime(item.stageTimings![id]!)}`,
+    ),
+    item.errorMessage,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+interface ResponseTimeChartProps {
+  history?: CheckHistoryItem[];
+}
+
+const ResponseTimeChart = ({ history = [] }: ResponseTimeChartProps) => {
+  // Most recently checked first
+  const urls = useMemo(
+    () => [...new Set(history.map((item) => item.url))],
+    [history],
+  );
+  const [url, setUrl] = useState("");
+  const [range, setRange] = useState<DateRange | undefined>(() => ({
+    from: subDays(new Date(), 6),
+    to: new Date(),
+  }));
+
+  // Start on the most recently checked URL, and move off one whose checks
+  // have all dropped out of the history
+  useEffect(() => {
+    if (!urls.includes(url)) setUrl(urls[0] || "");
+  }, [urls]);
+
+  const checks = useMemo(() => {
+    const from = range?.from ? startOfDay(range.from) : null;
+    const to = endOfDay(range?.to || range?.from || new Date());
+    return history
+      .filter(
+        (item) => item.url === url && getCheckOutcome(item) !== "cancelled",
+      )
+      .map((item) => ({ item, time: getCheckTime(item) }))
+      .filter(
+        (check): check is { item: CheckHistoryItem; time: Date } =>
+          check.time !== null &&
+          (!from || check.time >= from) &&
+          check.time <= to,
+      )
+      .sort((a, b) => a.time.getTime() - b.time.getTime());
+  }, [history, url, range]);
+
+  // Percentiles describe the checks that got a response in time
+  const passedTimes = checks
+    .filter(({ item }) => getCheckOutcome(item) !== "down")
+    .map(({ item }) => item.responseTime);
+  const percentiles = PERCENTILES.map((line) => ({
+    ...line,
+    value: percentile(passedTimes, line.p),
+  }));
+
+  const yMax = niceMax(
+    Math.max(...checks.map(({ item }) => item.responseTime), 0),
+  );
+  const slot = PLOT_WIDTH / Math.max(checks.length, 1);
+  const barWidth = Math.min(slot * 0.7, 24);
+  const x = (index: number) => PADDING.left + slot * (index + 0.5);
+  const y = (ms: number) =>
+    PADDING.top + PLOT_HEIGHT - (Math.min(ms, yMax) / yMax) * PLOT_HEIGHT;
+
+  // Label the first, middle and last checks along the bottom
+  const labelledIndexes = [
+    ...new Set([0, Math.floor((checks.length - 1) / 2), checks.length - 1]),
+  ].filter((index) => index >= 0);
+
+  return (
+    <div className="bg-card rounded-lg shadow-md border p-6 space-y-4">
+      <div className="flex justify-between items-center gap-4">
+        <h2 className="text-xl font-semibold flex items-center">
+          <LineChart className="mr-2 h-5 w-5 text-primary" />
+          Response Times
+        </h2>
+        <div className="flex items-center gap-2">
+          <Select value={url} onValueChange={setUrl}>
+            <SelectTrigger className="w-[260px]">
+              <SelectValue placeholder="Choose a URL" />
+            </SelectTrigger>
+            <SelectContent>
+              {urls.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DatePickerWithRange date={range} onDateChange={setRange} />
+        </div>
+      </div>
+
+      {checks.length > 0 ? (
+        <>
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-auto text-muted-foreground"
+            role="img"
+            aria-label={`Response times for ${url}`}
+          >
+            {[0, 0.25, 0.5, 0.75, 1].map((fraction) => (
+              <g key={fraction}>
+                <line
+                  x1={PADDING.left}
+                  x2={WIDTH - PADDING.right}
+                  y1={y(yMax * fraction)}
+                  y2={y(yMax * fraction)}
+                  className="stroke-border"
+                />
+                <text
+                  x={PADDING.left - 6}
+                  y={y(yMax * fraction)}
+                  textAnchor="end"
+                  dominantBaseline="middle"
+                  className="fill-current text-[10px]"
+                >
+                  {formatResponseTime(Math.round(yMax * fraction))}
+                </text>
+              </g>
+            ))}
+
+            {checks.map(({ item, time }, index) => {
+              let stackedMs = 0;
+              return (
+                <g key={`${time.getTime()}-${index}`}>
+                  <title>{describeCheck(item, time)}</title>
+                  {/* Keeps the tooltip easy to hit over the whole column */}
+                  <rect
+                    x={x(index) - slot / 2}
+                    y={PADDING.top}
+                    width={slot}
+                    height={PLOT_HEIGHT}
+                    className="fill-transparent"
+                  />
+                  {TIMED_STAGES.map((id) => {
+                    const ms = item.stageTimings?.[id];
+                    if (!ms) return null;
+                    const top = y(stackedMs + ms);
+                    const bottom = y(stackedMs);
+                    stackedMs += ms;
+                    return (
+                      <rect
+                        key={id}
+                        x={x(index) - barWidth / 2}
+                        y={top}
+                        width={barWidth}
+                        height={Math.max(bottom - top, 0)}
+                        className={stageStyles[id].className}
+                      />
+                    );
+                  })}
+                </g>
+              );
+            })}
+
+            <polyline
+              points={checks
+                .map(({ item }, index) => `${x(index)},${y(item.responseTime)}`)
+                .join(" ")}
+              className="fill-none stroke-foreground"
+              strokeWidth={1.5}
+            />
+
+            {checks.map(({ item }, index) =>
+              getCheckOutcome(item) === "down" ? (
+                <g
+                  key={index}
+                  className="stroke-red-600"
+                  strokeWidth={2}
+                  pointerEvents="none"
+                >
+                  <circle
+                    cx={x(index)}
+                    cy={y(item.responseTime)}
+                    r={6}
+                    className="fill-background"
+                  />
+                  <path
+                    d={`M${x(index) - 3},${y(item.responseTime) - 3}l6,6m0,-6l-6,6`}
+                  />
+                </g>
+              ) : (
+                <circle
+                  key={index}
+                  cx={x(index)}
+                  cy={y(item.responseTime)}
+                  r={2.5}
+                  className="fill-foreground"
+                  pointerEvents="none"
+                />
+              ),
+            )}
+
+            {percentiles.map(
+              (line) =>
+                line.value !== null && (
+                  <g key={line.label} className={line.className}>
+                    <line
+                      x1={PADDING.left}
+                      x2={WIDTH - PADDING.right}
+                      y1={y(line.value)}
+                      y2={y(line.value)}
+                      strokeDasharray="6 4"
+                      strokeWidth={1.5}
+                    />
+                    <text
+                      x={WIDTH - PADDING.right + 6}
+                      y={y(line.value)}
+                      dominantBaseline="middle"
+                      className="fill-current stroke-none text-[10px]"
+                    >
+                      {line.label}
+                    </text>
+                  </g>
+                ),
+            )}
+
+            {labelledIndexes.map((index) => (
+              <text
+                key={index}
+                x={x(index)}
+                y={HEIGHT - 8}
+                textAnchor={
+                  checks.length === 1
+                    ? "middle"
+                    : index === 0
+                      ? "start"
+                      : index === checks.length - 1
+                        ? "end"
+                        : "middle"
+                }
+                className="fill-current text-[10px]"
+              >
+                {format(checks[index].time, "d MMM HH:mm")}
+              </text>
+            ))}
+          </svg>
+
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            {TIMED_STAGES.map((id) => (
+              <span key={id} className="flex items-center gap-1.5">
+                <span
+                  className={`inline-block h-2.5 w-2.5 rounded-sm ${stageStyles[id].className}`}
+                />
+                {stageStyles[id].label}
+              </span>
+            ))}
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block h-0.5 w-4 bg-foreground" />
+              Total
+            </span>
+            <span className="flex items-center gap-1.5 text-red-600">
+              &#x2715; Failed
+            </span>
+            {percentiles.map((line) => (
+              <span key={line.label} className={line.className}>
+                {line.label}{" "}
+                {line.value === null ? "--" : formatResponseTime(line.value)}
+              </span>
+            ))}
+          </div>
+        </>
+      ) : (
+        <p className="text-center py-8 text-muted-foreground">
+          No checks of this URL in the selected dates.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ResponseTimeChart;
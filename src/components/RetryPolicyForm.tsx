@@ -0,0 +1,304 @@
+import React from "react";
+import { UseFormReturn, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Input } from "./ui/input";
+import { Checkbox } from "./ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  CheckOptions,
+  RetryableStageId,
+  TimedStageId,
+} from "../utils/networkUtils";
+
+// Mirrors the server's defaults, in seconds
+const DEFAULT_TIMEOUT_SECONDS: Record<TimedStageId, number> = {
+  dns: 5,
+  connection: 8,
+  tls: 8,
+  firstByte: 15,
+  download: 15,
+};
+
+const STAGE_LABELS: Record<RetryableStageId, string> = {
+  dns: "DNS",
+  connection: "Connection",
+  tls: "TLS",
+  firstByte: "First byte",
+  download: "Download",
+  httpStatus: "HTTP status",
+};
+
+const TIMED_STAGES = Object.keys(DEFAULT_TIMEOUT_SECONDS) as TimedStageId[];
+const RETRYABLE_STAGES = Object.keys(STAGE_LABELS) as RetryableStageId[];
+
+const seconds = (max: number) =>
+  z
+    .string()
+    .refine(
+      (value) => Number(value) > 0 && Number(value) <= max,
+      `Enter a number of seconds up to ${max}`,
+    );
+
+const retryPolicySchema = z.object({
+  timeouts: z.object({
+    dns: seconds(120),
+    connection: seconds(120),
+    tls: seconds(120),
+    firstByte: seconds(120),
+    download: seconds(120),
+  }),
+  attempts: z.enum(["1", "2", "3", "4", "5"]),
+  backoff: z.enum(["fixed", "exponential"]),
+  delay: z
+    .string()
+    .refine(
+      (value) => value !== "" && Number(value) >= 0 && Number(value) <= 30,
+      "Enter a delay of 0 to 30 seconds",
+    ),
+  stages: z.array(
+    z.enum(RETRYABLE_STAGES as [RetryableStageId, ...RetryableStageId[]]),
+  ),
+});
+
+export type RetryPolicyValues = z.infer<typeof retryPolicySchema>;
+
+export const defaultRetryPolicyValues: RetryPolicyValues = {
+  timeouts: {
+    dns: "5",
+    connection: "8",
+    tls: "8",
+    firstByte: "15",
+    download: "15",
+  },
+  attempts: "1",
+  backoff: "fixed",
+  delay: "1",
+  stages: ["dns", "connection", "tls", "firstByte", "download"],
+};
+
+export const useRetryPolicyForm = () =>
+  useForm<RetryPolicyValues>({
+    resolver: zodResolver(retryPolicySchema),
+    defaultValues: defaultRetryPolicyValues,
+  });
+
+// Converts validated form values into the timeouts and retry policy sent
+// with a check, leaving out whatever matches the server defaults
+export const toRetryOptions = (
+  values: RetryPolicyValues,
+): Pick<CheckOptions, "timeouts" | "retry"> => {
+  const timeouts = Object.fromEntries(
+    TIMED_STAGES.filter(
+      (stageId) =>
+        Number(values.timeouts[stageId]) !== DEFAULT_TIMEOUT_SECONDS[stageId],
+    ).map((stageId) => [
+      stageId,
+      Math.round(Number(values.timeouts[stageId]) * 1000),
+    ]),
+  );
+
+  return {
+    timeouts: Object.keys(timeouts).length > 0 ? timeouts : undefined,
+    retry:
+      values.attempts === "1"
+        ? undefined
+        : {
+            attempts: Number(values.attempts),
+            backoff: values.backoff,
+            delayMs: Math.round(Number(values.delay) * 1000),
+            stages: values.stages,
+          },
+  };
+};
+
+// Turns saved timeouts and retry policy back into form values
+export const fromRetryOptions = (
+  options: CheckOptions = {},
+): RetryPolicyValues => ({
+  timeouts: Object.fromEntries(
+    TIMED_STAGES.map((stageId) => [
+      stageId,
+      String(
+        (options.timeouts?.[stageId] ??
+          DEFAULT_TIMEOUT_SECONDS[stageId] * 1000) / 1000,
+      ),
+    ]),
+  ) as RetryPolicyValues["timeouts"],
+  attempts: String(
+    options.retry?.attempts || 1,
+  ) as RetryPolicyValues["attempts"],
+  backoff: options.retry?.backoff || "fixed",
+  delay: String((options.retry?.delayMs ?? 1000) / 1000),
+  stages: options.retry?.stages || defaultRetryPolicyValues.stages,
+});
+
+interface RetryPolicyFormProps {
+  form: UseFormReturn<RetryPolicyValues>;
+  disabled?: boolean;
+}
+
+// Fields only; the URL form owns submission, so there's no <form> here
+const RetryPolicyForm = ({ form, disabled = false }: RetryPolicyFormProps) => {
+  const retrying = form.watch("attempts") !== "1";
+
+  return (
+    <Form {...form}>
+      <div className="space-y-4">
+        <div>
+          <p className="text-sm font-medium mb-2">Stage timeouts (seconds)</p>
+          <div className="grid grid-cols-5 gap-2">
+            {TIMED_STAGES.map((stageId) => (
+              <FormField
+                key={stageId}
+                control={form.control}
+                name={`timeouts.${stageId}`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs text-muted-foreground">
+                      {STAGE_LABELS[stageId]}
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0.1"
+                        step="0.1"
+                        disabled={disabled}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="attempts"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Attempts</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={field.onChange}
+                  disabled={disabled}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {["1", "2", "3", "4", "5"].map((n) => (
+                      <SelectItem key={n} value={n}>
+                        {n === "1" ? "1 (no retries)" : n}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="backoff"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Backoff</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={field.onChange}
+                  disabled={disabled || !retrying}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="fixed">Fixed</SelectItem>
+                    <SelectItem value="exponential">Exponential</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="delay"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Delay (seconds)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    disabled={disabled || !retrying}
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="stages"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Retry when these stages fail</FormLabel>
+              <div className="flex flex-wrap gap-4">
+                {RETRYABLE_STAGES.map((stageId) => (
+                  <label
+                    key={stageId}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <Checkbox
+                      checked={field.value.includes(stageId)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(
+                          checked
+                            ? [...field.value, stageId]
+                            : field.value.filter((id) => id !== stageId),
+                        )
+                      }
+                      disabled={disabled || !retrying}
+                    />
+                    {STAGE_LABELS[stageId]}
+                  </label>
+                ))}
+              </div>
+              <FormDescription>
+                Exponential backoff doubles the delay after each attempt.
+              </FormDescription>
+            </FormItem>
+          )}
+        />
+      </div>
+    </Form>
+  );
+};
+
+export default RetryPolicyForm;
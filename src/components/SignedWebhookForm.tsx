@@ -0,0 +1,250 @@
+import React from "react";
+import { UseFormReturn, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { KeyRound } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import { SignedWebhookConfig } from "../utils/monitorApi";
+
+// Mirrors the server's limits and template
+const MIN_SECRET_LENGTH = 16;
+const MAX_TEMPLATE_LENGTH = 10000;
+const WEBHOOK_VARIABLES = [
+  "event",
+  "status",
+  "title",
+  "monitorId",
+  "monitorName",
+  "url",
+  "statusCode",
+  "responseTime",
+  "errorMessage",
+  "failedStage",
+  "degradedReasons",
+  "stages",
+  "checkLocation",
+  "checkedAt",
+  "incidentId",
+  "startedAt",
+  "endedAt",
+  "durationMs",
+  "failedChecks",
+  "acknowledgedBy",
+  "link",
+  "timestamp",
+];
+export const DEFAULT_WEBHOOK_TEMPLATE = `{
+  "event": "{{event}}",
+  "status": "{{status}}",
+  "monitor": { "id": "{{monitorId}}", "name": "{{monitorName}}" },
+  "url": "{{url}}",
+  "statusCode": "{{statusCode}}",
+  "errorMessage": "{{errorMessage}}",
+  "failedStage": "{{failedStage}}",
+  "stages": "{{stages}}",
+  "incident": { "id": "{{incidentId}}", "startedAt": "{{startedAt}}" },
+  "link": "{{link}}",
+  "timestamp": "{{timestamp}}"
+}
+`;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Helper function to make a random signing secret, as hex
+const generateSecret = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const isJson = (value: string) => {
+  try {
+    JSON.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// A blank secret is allowed here so an edit can keep the saved one; the
+// editor asks for one when there's none saved
+const signedWebhookSchema = z.object({
+  url: z.string().trim().refine(isHttpUrl, "Enter the https:// URL to post to"),
+  secret: z
+    .string()
+    .refine(
+      (value) => value === "" || value.length >= MIN_SECRET_LENGTH,
+      `Use at least ${MIN_SECRET_LENGTH} characters`,
+    ),
+  template: z
+    .string()
+    .max(
+      MAX_TEMPLATE_LENGTH,
+      `Keep the template under ${MAX_TEMPLATE_LENGTH} characters`,
+    )
+    .refine(isJson, "The template must be valid JSON")
+    .refine(
+      (value) =>
+        [...value.matchAll(PLACEHOLDER)].every(([, name]) =>
+          WEBHOOK_VARIABLES.includes(name),
+        ),
+      "Use only the variables listed below",
+    ),
+});
+
+export type SignedWebhookValues = z.infer<typeof signedWebhookSchema>;
+
+// A new webhook starts with a secret ready to copy into the receiver
+export const defaultSignedWebhookValues = (): SignedWebhookValues => ({
+  url: "",
+  secret: generateSecret(),
+  template: DEFAULT_WEBHOOK_TEMPLATE,
+});
+
+// Turns a saved webhook's settings back into form values. The secret is
+// never sent back, so it starts blank.
+export const fromSignedWebhookConfig = (
+  config: SignedWebhookConfig,
+): SignedWebhookValues => ({
+  url: config.url,
+  secret: "",
+  template: config.template,
+});
+
+export const useSignedWebhookForm = () =>
+  useForm<SignedWebhookValues>({
+    resolver: zodResolver(signedWebhookSchema),
+    defaultValues: defaultSignedWebhookValues(),
+  });
+
+// Converts form values into the settings the server expects. A blank
+// secret is left out so the saved one is kept.
+export const toSignedWebhookConfig = (
+  values: SignedWebhookValues,
+): SignedWebhookConfig => ({
+  url: values.url.trim(),
+  secret: values.secret || undefined,
+  template: values.template,
+});
+
+interface SignedWebhookFormProps {
+  form: UseFormReturn<SignedWebhookValues>;
+  // Whether the channel being edited already has a saved secret
+  hasSecret?: boolean;
+  disabled?: boolean;
+}
+
+// Where to post, how to sign and what to send; rendered inside the
+// parent's <form>, so it has none of its own
+const SignedWebhookForm = ({
+  form,
+  hasSecret = false,
+  disabled = false,
+}: SignedWebhookFormProps) => (
+  <Form {...form}>
+    <div className="space-y-4">
+      <FormField
+        control={form.control}
+        name="url"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>URL</FormLabel>
+            <FormControl>
+              <Input
+                placeholder="https://tools.example.com/hooks/status"
+                disabled={disabled}
+                {...field}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="secret"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Signing secret</FormLabel>
+            <div className="flex gap-2">
+              <FormControl>
+                <Input
+                  placeholder={hasSecret ? "Unchanged" : ""}
+                  autoComplete="off"
+                  className="font-mono"
+                  disabled={disabled}
+                  {...field}
+                />
+              </FormControl>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() =>
+                  form.setValue("secret", generateSecret(), {
+                    shouldValidate: true,
+                  })
+                }
+                disabled={disabled}
+              >
+                <KeyRound className="mr-2 h-4 w-4" />
+                Generate
+              </Button>
+            </div>
+            <FormDescription>
+              Copy it to the receiver now; it isn't shown again once saved. Each
+              request has an X-Webhook-Timestamp header and an
+              X-Webhook-Signature of sha256= and the hex HMAC-SHA256 of the
+              timestamp, a dot and the body.
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="template"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Payload template</FormLabel>
+            <FormControl>
+              <Textarea
+                rows={12}
+                spellCheck={false}
+                className="font-mono text-xs"
+                disabled={disabled}
+                {...field}
+              />
+            </FormControl>
+            <FormDescription>
+              JSON with {"{{variables}}"} in its strings. A string that's only a
+              variable takes its value as is, so "{"{{stages}}"}" becomes a
+              list. Variables:{" "}
+              {WEBHOOK_VARIABLES.map((name) => `{{${name}}}`).join(", ")}
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  </Form>
+);
+
+export default SignedWebhookForm;
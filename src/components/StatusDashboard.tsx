@@ -1,10 +1,22 @@
-import React, { useState, useEffect } from "react";
-import CheckStageList from "./CheckStageList";
+import React, { useState, useEffect, useRef } from "react";
+import CheckStageList, {
+  DnsRecords,
+  SecurityAudit,
+  StageAttempt,
+  TlsDetails,
+} from "./CheckStageList";
 import SummaryPanel from "./SummaryPanel";
 import { Card, CardContent } from "./ui/card";
 import { Progress } from "./ui/progress";
-import { ExternalLink, Globe } from "lucide-react";
-import { ensureProtocol, saveCheckToHistory } from "../utils/networkUtils";
+import { Button } from "./ui/button";
+import { ChevronRight, ExternalLink, Globe, Square } from "lucide-react";
+import {
+  CheckOptions,
+  ensureProtocol,
+  getResultOutcome,
+  getStageTimings,
+  saveCheckToHistory,
+} from "../utils/networkUtils";
 
 export interface CheckStage {
   id: string;
@@ -13,18 +25,34 @@ export interface CheckStage {
   timestamp?: string;
   durationMs?: number;
   errorDetails?: string;
+  records?: DnsRecords;
+  tls?: TlsDetails;
+  audit?: SecurityAudit;
+  attempts?: StageAttempt[];
+}
+
+export interface RedirectHop {
+  url: string;
+  statusCode: number;
+  statusMessage?: string;
+  durationMs: number;
+  headers: Record<string, string>;
 }
 
 interface StatusDashboardProps {
   url?: string;
+  options?: CheckOptions;
   isChecking?: boolean;
   onCheckComplete?: (success: boolean, totalTime: number) => void;
+  onStopCheck?: () => void;
 }
 
 const StatusDashboard = ({
   url = "",
+  options = {},
   isChecking = false,
   onCheckComplete = () => {},
+  onStopCheck = () => {},
 }: StatusDashboardProps) => {
   const [stages, setStages] = useState<CheckStage[]>([
     { id: "dns", name: "DNS Resolution", status: "idle" },
@@ -38,9 +66,23 @@ const StatusDashboard = ({
   const [isSuccess, setIsSuccess] = useState(false);
   const [totalResponseTime, setTotalResponseTime] = useState(0);
   const [errorMessage, setErrorMessage] = useState("");
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [degradedReasons, setDegradedReasons] = useState<string[]>([]);
+  const [redirectChain, setRedirectChain] = useState<RedirectHop[]>([]);
+  const [maxAttempts, setMaxAttempts] = useState(1);
   const [progress, setProgress] = useState(0);
   const [checkLocation, setCheckLocation] = useState("");
   const [checkIP, setCheckIP] = useState("");
+  const [isStopped, setIsStopped] = useState(false);
+
+  // The in-flight check's stream, so Stop can cancel it
+  const readerRef = useRef<ReadableStreamDefaultReader<Uint8Array> | null>(
+    null,
+  );
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Don't leave the server checking for a dashboard that's gone
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   // Reset the dashboard when a new check starts
   useEffect(() => {
@@ -57,6 +99,10 @@ const StatusDashboard = ({
       setIsSuccess(false);
       setTotalResponseTime(0);
       setErrorMessage("");
+      setWarnings([]);
+      setDegradedReasons([]);
+      setRedirectChain([]);
+      setIsStopped(false);
       setProgress(10); // Start progress at 10%
 
       // Perform server-side website checks
@@ -64,8 +110,6 @@ const StatusDashboard = ({
     }
   }, [isChecking, url]);
 
-<<<<<<< HEAD
-=======
   // Handle stopping the checks
   const handleStopChecks = () => {
     // Cancel the reader if it exists
@@ -74,12 +118,28 @@ const StatusDashboard = ({
       readerRef.current = null;
     }
 
-    // Abort the fetch request if it's still in progress
+    // Abort the fetch request if it's still in progress; the server sees
+    // the closed connection and stops its own work
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
     }
 
+    // Record how far the check got before it was stopped
+    const reachedStage = stages.find(
+      (s) => s.status === "loading" && s.id !== "redirects",
+    );
+    const elapsed = stages.reduce((sum, s) => sum + (s.durationMs || 0), 0);
+    if (reachedStage) {
+      setStages((current) =>
+        current.map((s) =>
+          s.id === reachedStage.id
+            ? { ...s, status: "error", errorDetails: "Cancelled" }
+            : s,
+        ),
+      );
+    }
+
     setIsStopped(true);
     setIsComplete(true);
     setErrorMessage("Check stopped by user");
@@ -90,33 +150,49 @@ const StatusDashboard = ({
     saveCheckToHistory({
       url: url,
       timestamp: new Date().toLocaleString(),
+      checkedAt: new Date().toISOString(),
       success: false,
-      responseTime: totalResponseTime,
+      outcome: "cancelled",
+      stageReached: reachedStage?.name,
+      responseTime: elapsed,
       errorMessage: "Check stopped by user",
+      options,
     });
   };
 
->>>>>>> parent of 5ca6bf6 (made changes)
   // This function performs server-side website status checks
   const performServerChecks = async (targetUrl: string) => {
     // Let the server handle URL processing
     const processedUrl = targetUrl;
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
       // Call the server API to check the website status
       const response = await fetch("/api/check-website", {
         method: "POST",
+        signal: abortController.signal,
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ url: processedUrl }),
+        body: JSON.stringify({ url: processedUrl, ...options }),
       });
 
+      // Rejected requests come back as a plain JSON error
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(
+          body.error || `Server responded with status ${response.status}`,
+        );
+      }
+
       // Set up a reader to process the stream
       const reader = response.body?.getReader();
       if (!reader) {
         throw new Error("Failed to get response reader");
       }
+      readerRef.current = reader;
 
       // Process the stream
       const decoder = new TextDecoder();
@@ -124,7 +200,8 @@ const StatusDashboard = ({
 
       while (true) {
         const { done, value } = await reader.read();
-        if (done) break;
+        // A stopped check ignores anything still buffered
+        if (done || abortController.signal.aborted) break;
 
         buffer += decoder.decode(value, { stream: true });
 
@@ -143,6 +220,10 @@ const StatusDashboard = ({
               setIsSuccess(data.isSuccess);
               setTotalResponseTime(data.totalResponseTime);
               setErrorMessage(data.errorMessage);
+              setWarnings(data.warnings || []);
+              setDegradedReasons(data.degradedReasons || []);
+              setRedirectChain(data.redirectChain || []);
+              setMaxAttempts(data.maxAttempts || 1);
 
               // Set location information if available
               if (data.checkLocation) setCheckLocation(data.checkLocation);
@@ -159,9 +240,18 @@ const StatusDashboard = ({
                 saveCheckToHistory({
                   url: processedUrl,
                   timestamp: new Date().toLocaleString(),
+                  checkedAt: new Date().toISOString(),
                   success: data.isSuccess,
+                  outcome: getResultOutcome(data),
                   responseTime: data.totalResponseTime,
                   errorMessage: data.errorMessage || undefined,
+                  statusCode: data.statusCode,
+                  statusMessage: data.statusMessage,
+                  degradedReasons: data.isDegraded
+                    ? data.degradedReasons
+                    : undefined,
+                  options,
+                  stageTimings: getStageTimings(data.stages),
                 });
               }
             } catch (e) {
@@ -171,6 +261,9 @@ const StatusDashboard = ({
         }
       }
     } catch (error: any) {
+      // Stopping the check is handled by handleStopChecks
+      if (abortController.signal.aborted) return;
+
       // Handle any unexpected errors
       console.error("Error performing server checks:", error);
       setErrorMessage(error.message || "Failed to connect to server");
@@ -183,10 +276,18 @@ const StatusDashboard = ({
       saveCheckToHistory({
         url: processedUrl,
         timestamp: new Date().toLocaleString(),
+        checkedAt: new Date().toISOString(),
         success: false,
+        outcome: "down",
         responseTime: 0,
         errorMessage: error.message || "Failed to connect to server",
+        options,
       });
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        readerRef.current = null;
+      }
     }
   };
 
@@ -245,7 +346,22 @@ const StatusDashboard = ({
               <span className="text-sm font-medium">
                 Checking website status...
               </span>
-              <span className="text-sm text-muted-foreground">{progress}%</span>
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-muted-foreground">
+                  {progress}%
+                </span>
+                {!isComplete && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleStopChecks}
+                    className="h-7 flex items-center"
+                  >
+                    <Square className="mr-2 h-3 w-3" />
+                    Stop
+                  </Button>
+                )}
+              </div>
             </div>
             <Progress value={progress} className="h-2" />
           </div>
@@ -274,6 +390,36 @@ const StatusDashboard = ({
                 <ExternalLink className="h-4 w-4" />
               </a>
             </div>
+            {redirectChain.length > 1 && (
+              <nav
+                aria-label="Redirect chain"
+                className="mt-2 flex flex-wrap items-center gap-1 text-sm"
+              >
+                {redirectChain.map((hop, idx) => (
+                  <React.Fragment key={`${hop.url}-${idx}`}>
+                    {idx > 0 && (
+                      <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                    )}
+                    <span
+                      className="inline-flex items-center gap-1 rounded bg-muted px-2 py-0.5"
+                      title={Object.entries(hop.headers)
+                        .map(([name, value]) => `${name}: ${value}`)
+                        .join("\n")}
+                    >
+                      <span className="break-all">{hop.url}</span>
+                      <span
+                        className={`text-xs font-medium ${hop.statusCode >= 300 && hop.statusCode < 400 ? "text-blue-600 dark:text-blue-400" : "text-muted-foreground"}`}
+                      >
+                        {hop.statusCode}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {hop.durationMs}ms
+                      </span>
+                    </span>
+                  </React.Fragment>
+                ))}
+              </nav>
+            )}
             {checkLocation && (
               <div className="mt-2 text-sm text-muted-foreground flex items-center">
                 <span className="font-medium mr-1">Check location:</span>{" "}
@@ -284,13 +430,23 @@ const StatusDashboard = ({
         )}
 
         <div className="space-y-6">
-          <CheckStageList stages={stages} isChecking={isChecking} />
+          <CheckStageList
+            stages={stages}
+            isChecking={isChecking}
+            maxAttempts={maxAttempts}
+          />
 
           <SummaryPanel
             isComplete={isComplete}
             isSuccess={isSuccess}
             totalResponseTime={totalResponseTime}
             errorMessage={errorMessage}
+            warnings={warnings}
+            degradedReasons={degradedReasons}
+            isCancelled={isStopped}
+            securityAudit={
+              stages.find((stage) => stage.id === "securityHeaders")?.audit
+            }
           />
         </div>
       </CardContent>
@@ -6,12 +6,24 @@ import {
   CardTitle,
 } from "../components/ui/card";
 import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "../components/ui/dialog";
+import { SecurityAudit } from "./CheckStageList";
 import {
   Clock,
   CheckCircle2,
   XCircle,
+  MinusCircle,
   AlertTriangle,
   Gauge,
+  ShieldCheck,
 } from "lucide-react";
 
 interface SummaryPanelProps {
@@ -19,6 +31,11 @@ interface SummaryPanelProps {
   isSuccess?: boolean;
   totalResponseTime?: number;
   errorMessage?: string;
+  warnings?: string[];
+  // Why a check that passed is DEGRADED; empty when it isn't
+  degradedReasons?: string[];
+  isCancelled?: boolean;
+  securityAudit?: SecurityAudit;
 }
 
 const SummaryPanel = ({
@@ -26,7 +43,21 @@ const SummaryPanel = ({
   isSuccess = false,
   totalResponseTime = 0,
   errorMessage = "",
+  warnings = [],
+  degradedReasons = [],
+  isCancelled = false,
+  securityAudit,
 }: SummaryPanelProps) => {
+  // A site can pass and still be DEGRADED, e.g. slower than its budget
+  const isDegraded = isComplete && isSuccess && degradedReasons.length > 0;
+
+  // A site can be UP and still need attention, e.g. an expiring certificate.
+  // Warnings that degraded the check are already listed as reasons.
+  const otherWarnings = warnings.filter(
+    (warning) => !degradedReasons.includes(warning),
+  );
+  const hasWarnings = isComplete && isSuccess && otherWarnings.length > 0;
+
   // Format the response time to show in ms or seconds as appropriate
   const formattedResponseTime =
     totalResponseTime > 1000
@@ -56,19 +87,45 @@ const SummaryPanel = ({
 
   const performanceRating = getPerformanceRating();
 
+  // Colour for the security header grade
+  const getGradeColor = (grade: SecurityAudit["grade"]) => {
+    switch (grade) {
+      case "A":
+        return "bg-green-500 hover:bg-green-600";
+      case "B":
+        return "bg-blue-500 hover:bg-blue-600";
+      case "C":
+        return "bg-yellow-500 hover:bg-yellow-600";
+      case "D":
+        return "bg-orange-500 hover:bg-orange-600";
+      default:
+        return "bg-red-500 hover:bg-red-600";
+    }
+  };
+
+  const checkStatusColor = {
+    pass: "text-green-600 dark:text-green-400",
+    warn: "text-yellow-600 dark:text-yellow-400",
+    fail: "text-red-600 dark:text-red-400",
+  };
+
   return (
     <Card
-      className={`w-full bg-card mt-4 ${isComplete ? (isSuccess ? "border-l-4 border-l-green-500" : "border-l-4 border-l-red-500") : "border-t-2 border-t-primary"}`}
+      className={`w-full bg-card mt-4 ${isCancelled ? "border-l-4 border-l-muted-foreground" : isComplete ? (isSuccess ? (isDegraded ? "border-l-4 border-l-orange-500" : hasWarnings ? "border-l-4 border-l-yellow-500" : "border-l-4 border-l-green-500") : "border-l-4 border-l-red-500") : "border-t-2 border-t-primary"}`}
     >
       <CardHeader className="pb-2">
         <CardTitle className="text-xl flex items-center justify-between">
           <span>Summary</span>
-          {isComplete ? (
+          {isCancelled ? (
+            <Badge variant="secondary" className="text-sm px-3 py-1">
+              CANCELLED
+            </Badge>
+          ) : isComplete ? (
             <Badge
               variant={isSuccess ? "default" : "destructive"}
-              className={`text-sm px-3 py-1 ${isSuccess ? "bg-green-500 hover:bg-green-600" : ""}`}
+              className={`text-sm px-3 py-1 ${isSuccess ? (isDegraded ? "bg-orange-500 hover:bg-orange-600" : hasWarnings ? "bg-yellow-500 hover:bg-yellow-600" : "bg-green-500 hover:bg-green-600") : ""}`}
             >
-              {isSuccess ? "UP" : "DOWN"}
+              {isSuccess ? (isDegraded ? "DEGRADED" : "UP") : "DOWN"}
             </Badge>
           ) : (
             <Badge
@@ -90,14 +147,20 @@ const SummaryPanel = ({
               </span>
             </div>
             <span className="font-medium">
-              {isComplete ? formattedResponseTime : "--"}
+              {isComplete && !isCancelled ? formattedResponseTime : "--"}
             </span>
           </div>
 
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
-              {isComplete ? (
-                isSuccess ? (
+              {isCancelled ? (
+                <MinusCircle className="h-5 w-5 text-muted-foreground" />
+              ) : isComplete ? (
+                isDegraded ? (
+                  <Gauge className="h-5 w-5 text-orange-500" />
+                ) : hasWarnings ? (
+                  <AlertTriangle className="h-5 w-5 text-yellow-500" />
+                ) : isSuccess ? (
                   <CheckCircle2 className="h-5 w-5 text-green-500" />
                 ) : (
                   <XCircle className="h-5 w-5 text-red-500" />
@@ -110,7 +173,11 @@ const SummaryPanel = ({
             <span className="font-medium">
               {isComplete
                 ? isSuccess
-                  ? "All checks passed successfully"
+                  ? isDegraded
+                    ? "Checks passed but the site is degraded"
+                    : hasWarnings
+                      ? "All checks passed with warnings"
+                      : "All checks passed successfully"
                   : errorMessage || "One or more checks failed"
                 : "Checks in progress..."}
             </span>
@@ -127,8 +194,97 @@ const SummaryPanel = ({
               </span>
             </div>
           )}
+
+          {isComplete && securityAudit && (
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5 text-teal-500" />
+                <span className="text-muted-foreground">Security headers:</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge className={getGradeColor(securityAudit.grade)}>
+                  {securityAudit.grade}
+                </Badge>
+                <Dialog>
+                  <DialogTrigger asChild>
+                    <Button variant="link" size="sm" className="h-auto p-0">
+                      Details
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="max-w-2xl">
+                    <DialogHeader>
+                      <DialogTitle>
+                        Security headers: grade {securityAudit.grade} (
+                        {securityAudit.score}/100)
+                      </DialogTitle>
+                      <DialogDescription>
+                        Weak headers earn half their points; each leaking header
+                        costs five.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {securityAudit.checks.map((check) => (
+                          <tr key={check.header} className="border-b align-top">
+                            <td className="py-2 pr-4 font-medium">
+                              {check.header}
+                            </td>
+                            <td className="py-2">
+                              <p className={checkStatusColor[check.status]}>
+                                {check.message}
+                              </p>
+                              {check.value && (
+                                <p className="font-mono text-xs text-muted-foreground break-all">
+                                  {check.value}
+                                </p>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {securityAudit.leaks.length > 0 && (
+                      <div className="text-sm">
+                        <p className="font-medium mb-1">Information leaks</p>
+                        {securityAudit.leaks.map((leak) => (
+                          <p
+                            key={leak.header}
+                            className="font-mono text-xs text-red-600 dark:text-red-400"
+                          >
+                            {leak.header}: {leak.value}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                  </DialogContent>
+                </Dialog>
+              </div>
+            </div>
+          )}
         </div>
 
+        {isDegraded && (
+          <div className="mt-4 p-3 bg-orange-500/10 border border-orange-500/20 rounded-md space-y-1">
+            {degradedReasons.map((reason, idx) => (
+              <p key={idx} className="text-sm flex items-start gap-2">
+                <Gauge className="h-4 w-4 text-orange-500 mt-0.5 flex-shrink-0" />
+                <span>{reason}</span>
+              </p>
+            ))}
+          </div>
+        )}
+
+        {hasWarnings && (
+          <div className="mt-4 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-md space-y-1">
+            {otherWarnings.map((warning, idx) => (
+              <p key={idx} className="text-sm flex items-start gap-2">
+                <AlertTriangle className="h-4 w-4 text-yellow-500 mt-0.5 flex-shrink-0" />
+                <span>{warning}</span>
+              </p>
+            ))}
+          </div>
+        )}
+
         {isComplete && !isSuccess && (
           <div className="mt-4 p-3 bg-destructive/10 border border-destructive/20 rounded-md">
             <p className="text-sm flex items-start gap-2">
@@ -1,23 +1,80 @@
 import React, { useState, useEffect } from "react";
 import { Input } from "./ui/input";
 import { Button } from "./ui/button";
-import { Search, AlertCircle, Globe, ArrowRight, History } from "lucide-react";
+import {
+  Search,
+  AlertCircle,
+  Globe,
+  ArrowRight,
+  History,
+  ChevronDown,
+  SlidersHorizontal,
+  Send,
+  Timer,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "./ui/collapsible";
+import AssertionEditor, {
+  BodyAssertionDraft,
+  buildAssertions,
+  countAssertions,
+  draftsFromAssertions,
+  emptySoftAssertionDraft,
+  softDraftFromAssertions,
+} from "./AssertionEditor";
+import RequestConfigForm, {
+  fromRequestConfig,
+  toRequestConfig,
+  useRequestConfigForm,
+} from "./RequestConfigForm";
+import RetryPolicyForm, {
+  fromRetryOptions,
+  toRetryOptions,
+  useRetryPolicyForm,
+} from "./RetryPolicyForm";
+import { CheckOptions } from "../utils/networkUtils";
+
+// A saved check to load into the form; a new key reloads the same check
+export interface CheckPreset {
+  url: string;
+  options?: CheckOptions;
+  // History leaves out passwords, tokens and credential headers
+  credentialsRemoved?: boolean;
+  key: number;
+}
 
 interface URLInputFormProps {
-  onSubmit?: (url: string) => void;
+  onSubmit?: (url: string, options: CheckOptions) => void;
   isLoading?: boolean;
   recentUrls?: string[];
+  preset?: CheckPreset | null;
 }
 
 const URLInputForm = ({
   onSubmit = () => {},
   isLoading = false,
   recentUrls = [],
+  preset = null,
 }: URLInputFormProps) => {
   const [url, setUrl] = useState<string>("");
   const [error, setError] = useState<string>("");
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const [acceptedStatus, setAcceptedStatus] = useState("");
+  const [assertionDrafts, setAssertionDrafts] = useState<BodyAssertionDraft[]>(
+    [],
+  );
+  const [softDraft, setSoftDraft] = useState(emptySoftAssertionDraft);
+  const [requestOpen, setRequestOpen] = useState(false);
+  const [credentialsNeeded, setCredentialsNeeded] = useState(false);
+  const requestForm = useRequestConfigForm();
+  const requestMethod = requestForm.watch("method");
+  const [retryOpen, setRetryOpen] = useState(false);
+  const retryForm = useRetryPolicyForm();
+  const retryAttempts = retryForm.watch("attempts");
   const [popularSites] = useState([
     "google.com",
     "github.com",
@@ -32,6 +89,24 @@ const URLInputForm = ({
     }
   }, [url, error]);
 
+  // Load a check picked from History into the form
+  useEffect(() => {
+    if (!preset) return;
+
+    const { url: presetUrl, options = {}, credentialsRemoved } = preset;
+    setUrl(presetUrl);
+    setAcceptedStatus((options.assertions?.acceptedStatus || []).join(", "));
+    setAssertionDrafts(draftsFromAssertions(options.assertions?.body));
+    setSoftDraft(softDraftFromAssertions(options.assertions));
+    requestForm.reset(fromRequestConfig(options.request));
+    setRequestOpen(Boolean(options.request));
+    retryForm.reset(fromRetryOptions(options));
+    setRetryOpen(Boolean(options.timeouts || options.retry));
+    setCredentialsNeeded(Boolean(credentialsRemoved));
+    if (credentialsRemoved) setRequestOpen(true);
+    setError("");
+  }, [preset]);
+
   const validateURL = (input: string): boolean => {
     try {
       // Check if it's a valid URL format
@@ -42,7 +117,32 @@ const URLInputForm = ({
     }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Collects the advanced settings into the options sent with the check
+  const getCheckOptions = async (): Promise<CheckOptions | null> => {
+    if (!(await requestForm.trigger())) {
+      setRequestOpen(true);
+      setError("Please fix the advanced request settings");
+      return null;
+    }
+    if (!(await retryForm.trigger())) {
+      setRetryOpen(true);
+      setError("Please fix the timeout and retry settings");
+      return null;
+    }
+
+    try {
+      return {
+        assertions: buildAssertions(acceptedStatus, assertionDrafts, softDraft),
+        request: toRequestConfig(requestForm.getValues()),
+        ...toRetryOptions(retryForm.getValues()),
+      };
+    } catch (e: any) {
+      setError(e.message);
+      return null;
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!url.trim()) {
@@ -57,20 +157,33 @@ const URLInputForm = ({
     }
 
     if (validateURL(processedUrl)) {
+      const options = await getCheckOptions();
+      if (!options) return;
+
       setError("");
       setShowSuggestions(false);
-      onSubmit(processedUrl);
+      setCredentialsNeeded(false);
+      onSubmit(processedUrl, options);
     } else {
       setError("Please enter a valid URL");
     }
   };
 
-  const handleQuickCheck = (site: string) => {
+  const handleQuickCheck = async (site: string) => {
     const processedUrl = `https://${site}`;
+    const options = await getCheckOptions();
+    if (!options) return;
+
     setUrl(site);
-    onSubmit(processedUrl);
+    onSubmit(processedUrl, options);
   };
 
+  const assertionCount = countAssertions(
+    acceptedStatus,
+    assertionDrafts,
+    softDraft,
+  );
+
   return (
     <div className="w-full max-w-3xl mx-auto bg-card p-6 rounded-lg shadow-md">
       <h2 className="text-xl font-semibold mb-4 flex items-center">
@@ -156,6 +269,103 @@ const URLInputForm = ({
           )}
         </div>
 
+        <Collapsible className="rounded-md border px-3 py-2">
+          <CollapsibleTrigger asChild>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="w-full justify-between px-2"
+            >
+              <span className="flex items-center">
+                <SlidersHorizontal className="mr-2 h-4 w-4" />
+                Assertions
+                {assertionCount > 0 && (
+                  <span className="ml-2 bg-primary/10 text-primary rounded-full px-2 py-0.5 text-xs">
+                    {assertionCount}
+                  </span>
+                )}
+              </span>
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="pt-3 pb-1">
+            <AssertionEditor
+              acceptedStatus={acceptedStatus}
+              onAcceptedStatusChange={setAcceptedStatus}
+              drafts={assertionDrafts}
+              onDraftsChange={setAssertionDrafts}
+              softDraft={softDraft}
+              onSoftDraftChange={setSoftDraft}
+              disabled={isLoading}
+            />
+          </CollapsibleContent>
+        </Collapsible>
+
+        <Collapsible
+          open={requestOpen}
+          onOpenChange={setRequestOpen}
+          className="rounded-md border px-3 py-2"
+        >
+          <CollapsibleTrigger asChild>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="w-full justify-between px-2"
+            >
+              <span className="flex items-center">
+                <Send className="mr-2 h-4 w-4" />
+                Advanced request
+                {requestMethod !== "GET" && (
+                  <span className="ml-2 bg-primary/10 text-primary rounded-full px-2 py-0.5 text-xs font-mono">
+                    {requestMethod}
+                  </span>
+                )}
+              </span>
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="pt-3 pb-1">
+            {credentialsNeeded && (
+              <p className="mb-3 text-sm text-amber-600">
+                History doesn't keep passwords, tokens or credential headers.
+                Enter them again before checking.
+              </p>
+            )}
+            <RequestConfigForm form={requestForm} disabled={isLoading} />
+          </CollapsibleContent>
+        </Collapsible>
+
+        <Collapsible
+          open={retryOpen}
+          onOpenChange={setRetryOpen}
+          className="rounded-md border px-3 py-2"
+        >
+          <CollapsibleTrigger asChild>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="w-full justify-between px-2"
+            >
+              <span className="flex items-center">
+                <Timer className="mr-2 h-4 w-4" />
+                Timeouts & retries
+                {retryAttempts !== "1" && (
+                  <span className="ml-2 bg-primary/10 text-primary rounded-full px-2 py-0.5 text-xs">
+                    {retryAttempts} attempts
+                  </span>
+                )}
+              </span>
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="pt-3 pb-1">
+            <RetryPolicyForm form={retryForm} disabled={isLoading} />
+          </CollapsibleContent>
+        </Collapsible>
+
         <Button
           type="submit"
           className="w-full h-12 text-base font-medium"
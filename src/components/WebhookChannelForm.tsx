@@ -0,0 +1,122 @@
+import React from "react";
+import { UseFormReturn, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Input } from "./ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import { WebhookChannelConfig, WebhookChannelType } from "../utils/monitorApi";
+
+// Where each service hands out webhook URLs, and what one looks like
+const SERVICE_HELP: Record<
+  WebhookChannelType,
+  { placeholder: string; description: string }
+> = {
+  slack: {
+    placeholder: "https://hooks.slack.com/services/...",
+    description: "Create an incoming webhook in your Slack app's settings.",
+  },
+  discord: {
+    placeholder: "https://discord.com/api/webhooks/...",
+    description: "Create one under the channel's Integrations settings.",
+  },
+  teams: {
+    placeholder: "https://....webhook.office.com/...",
+    description:
+      "Use a Workflows or incoming webhook URL; both accept Adaptive Cards.",
+  },
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// A blank URL is allowed here so an edit can keep the saved one; the
+// editor asks for one when there's none saved
+const webhookChannelSchema = z.object({
+  webhookUrl: z
+    .string()
+    .trim()
+    .refine(
+      (value) => value === "" || isHttpUrl(value),
+      "Enter the https:// URL of the webhook",
+    ),
+});
+
+export type WebhookChannelValues = z.infer<typeof webhookChannelSchema>;
+
+export const defaultWebhookChannelValues: WebhookChannelValues = {
+  webhookUrl: "",
+};
+
+export const useWebhookChannelForm = () =>
+  useForm<WebhookChannelValues>({
+    resolver: zodResolver(webhookChannelSchema),
+    defaultValues: defaultWebhookChannelValues,
+  });
+
+// Converts form values into the settings the server expects. A blank URL
+// is left out so the saved one is kept.
+export const toWebhookConfig = (
+  values: WebhookChannelValues,
+): WebhookChannelConfig => ({
+  webhookUrl: values.webhookUrl.trim() || undefined,
+});
+
+interface WebhookChannelFormProps {
+  form: UseFormReturn<WebhookChannelValues>;
+  service: WebhookChannelType;
+  // Whether the channel being edited already has a saved URL
+  hasWebhookUrl?: boolean;
+  disabled?: boolean;
+}
+
+// The webhook URL of a chat channel; rendered inside the parent's <form>,
+// so it has none of its own
+const WebhookChannelForm = ({
+  form,
+  service,
+  hasWebhookUrl = false,
+  disabled = false,
+}: WebhookChannelFormProps) => (
+  <Form {...form}>
+    <FormField
+      control={form.control}
+      name="webhookUrl"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Webhook URL</FormLabel>
+          <FormControl>
+            <Input
+              type="password"
+              placeholder={
+                hasWebhookUrl ? "Unchanged" : SERVICE_HELP[service].placeholder
+              }
+              autoComplete="off"
+              disabled={disabled}
+              {...field}
+            />
+          </FormControl>
+          <FormDescription>
+            {SERVICE_HELP[service].description} Anyone with the URL can post, so
+            it's never shown again once saved.
+          </FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  </Form>
+);
+
+export default WebhookChannelForm;
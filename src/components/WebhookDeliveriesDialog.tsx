@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import {
+  NotificationChannel,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  fetchDeliveries,
+} from "../utils/monitorApi";
+import { formatResponseTime } from "../utils/networkUtils";
+
+// How often the log is refreshed while it's open, so retries show up
+const REFRESH_INTERVAL_MS = 5000;
+
+const statusStyles = {
+  delivered:
+    "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  retrying:
+    "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  pending: "bg-primary/10 text-primary",
+};
+
+// What the receiver said to one attempt
+const describeAttempt = (attempt: WebhookDeliveryAttempt) =>
+  attempt.error || `${attempt.statusCode} OK`;
+
+interface WebhookDeliveriesDialogProps {
+  // The webhook channel whose deliveries are shown, or null when closed
+  channel: NotificationChannel | null;
+  onOpenChange?: (open: boolean) => void;
+}
+
+const WebhookDeliveriesDialog = ({
+  channel,
+  onOpenChange = () => {},
+}: WebhookDeliveriesDialogProps) => {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!channel) return;
+
+    const loadDeliveries = () =>
+      fetchDeliveries(channel.id)
+        .then((loaded) => {
+          setDeliveries(loaded);
+          setError("");
+        })
+        .catch((e) => setError(e.message || "Failed to load deliveries"))
+        .finally(() => setIsLoading(false));
+
+    setDeliveries([]);
+    setExpanded(null);
+    setIsLoading(true);
+    loadDeliveries();
+    const timer = setInterval(loadDeliveries, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [channel]);
+
+  return (
+    <Dialog open={channel !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{channel?.name} deliveries</DialogTitle>
+          <DialogDescription>
+            Recent payloads, newest first. Failed deliveries are retried with
+            backoff; select one to see each attempt and what was sent.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <p className="text-sm text-destructive font-medium">{error}</p>
+        )}
+
+        {deliveries.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Notification</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Last response</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => {
+                const lastAttempt = delivery.attempts.at(-1);
+                return (
+                  <React.Fragment key={delivery.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() =>
+                        setExpanded(
+                          expanded === delivery.id ? null : delivery.id,
+                        )
+                      }
+                    >
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(new Date(delivery.createdAt), "d MMM HH:mm:ss")}
+                      </TableCell>
+                      <TableCell className="text-sm max-w-[200px] truncate">
+                        {delivery.title}
+                      </TableCell>
+                      <TableCell>
+                        <span
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[delivery.status]}`}
+                        >
+                          {delivery.status.toUpperCase()}
+                        </span>
+                        {delivery.nextAttemptAt && (
+                          <div className="text-xs text-muted-foreground">
+                            Next{" "}
+                            {formatDistanceToNow(
+                              new Date(delivery.nextAttemptAt),
+                              { addSuffix: true },
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{delivery.attempts.length}</TableCell>
+                      <TableCell className="text-sm max-w-[220px] truncate">
+                        {delivery.error ||
+                          (lastAttempt ? describeAttempt(lastAttempt) : "--")}
+                      </TableCell>
+                    </TableRow>
+                    {expanded === delivery.id && (
+                      <TableRow className="bg-muted/30 hover:bg-muted/30">
+                        <TableCell colSpan={5} className="space-y-2">
+                          {delivery.attempts.map((attempt, index) => (
+                            <div
+                              key={attempt.at}
+                              className="text-xs text-muted-foreground"
+                            >
+                              Attempt {index + 1} ·{" "}
+                              {format(new Date(attempt.at), "HH:mm:ss")} ·{" "}
+                              {formatResponseTime(attempt.durationMs)} ·{" "}
+                              {describeAttempt(attempt)}
+                            </div>
+                          ))}
+                          <pre className="text-xs font-mono whitespace-pre-wrap break-all rounded-md border bg-background p-2 max-h-60 overflow-y-auto">
+                            {JSON.stringify(JSON.parse(delivery.body), null, 2)}
+                          </pre>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-center py-8 text-muted-foreground">
+            {isLoading ? "Loading deliveries..." : "Nothing delivered yet."}
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WebhookDeliveriesDialog;
@@ -1,22 +1,66 @@
 import React, { useState, useEffect } from "react";
 import Header from "./Header";
-import URLInputForm from "./URLInputForm";
+import URLInputForm, { CheckPreset } from "./URLInputForm";
 import StatusDashboard from "./StatusDashboard";
+import BatchCheck from "./BatchCheck";
+import MonitorsPanel from "./MonitorsPanel";
+import IncidentsPanel from "./IncidentsPanel";
+import ReportsPanel from "./ReportsPanel";
+import ResponseTimeChart from "./ResponseTimeChart";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
-import { Clock, BarChart2, RefreshCw, Download } from "lucide-react";
+import {
+  Clock,
+  BarChart2,
+  RefreshCw,
+  Download,
+  FileInput,
+  Layers,
+  Activity,
+  Flag,
+  FileBarChart,
+} from "lucide-react";
 import { Button } from "./ui/button";
 import {
   getCheckHistory,
   exportCheckHistory,
+  getCheckOutcome,
+  countOutcomes,
   CheckHistoryItem,
+  CheckOptions,
 } from "../utils/networkUtils";
 
+// Badge colours for each history outcome
+const outcomeStyles = {
+  up: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  degraded:
+    "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+  down: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  cancelled: "bg-muted text-muted-foreground",
+};
+
+// Links in notifications open a tab, and on the monitors tab a monitor's
+// results, with ?tab=monitors&monitor=<id>
+const linkParams = new URLSearchParams(window.location.search);
+const TAB_NAMES = [
+  "current",
+  "history",
+  "incidents",
+  "reports",
+  "monitors",
+  "batch",
+];
+
 const Home = () => {
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [url, setUrl] = useState("");
+  const [checkOptions, setCheckOptions] = useState<CheckOptions>({});
   const [isChecking, setIsChecking] = useState(false);
-  const [activeTab, setActiveTab] = useState("current");
+  const [activeTab, setActiveTab] = useState(() => {
+    const tab = linkParams.get("tab");
+    return tab && TAB_NAMES.includes(tab) ? tab : "current";
+  });
   const [checkHistory, setCheckHistory] = useState<CheckHistoryItem[]>([]);
+  const [preset, setPreset] = useState<CheckPreset | null>(null);
 
   // Apply dark mode class to document
   useEffect(() => {
@@ -50,8 +94,9 @@ const Home = () => {
     setIsDarkMode((prev) => !prev);
   };
 
-  const handleCheckStatus = (inputUrl: string) => {
+  const handleCheckStatus = (inputUrl: string, options: CheckOptions) => {
     setUrl(inputUrl);
+    setCheckOptions(options);
     setIsChecking(true);
   };
 
@@ -60,12 +105,27 @@ const Home = () => {
     // History is now updated in StatusDashboard component
   };
 
+  const handleStopCheck = () => {
+    setIsChecking(false);
+  };
+
   const handleRecheck = () => {
     if (url) {
       setIsChecking(true);
     }
   };
 
+  // Fill the form with a past check's URL and settings to tweak and rerun
+  const handleLoadCheck = (check: CheckHistoryItem) => {
+    setPreset({
+      url: check.url,
+      options: check.options,
+      credentialsRemoved: check.credentialsRemoved,
+      key: Date.now(),
+    });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
   const handleExportHistory = () => {
     exportCheckHistory();
   };
@@ -76,6 +136,8 @@ const Home = () => {
     .filter((url, index, self) => self.indexOf(url) === index)
     .slice(0, 5);
 
+  const historyCounts = countOutcomes(checkHistory.map(getCheckOutcome));
+
   return (
     <div className="min-h-screen bg-background text-foreground flex flex-col">
       <Header isDarkMode={isDarkMode} onThemeToggle={handleThemeToggle} />
@@ -87,6 +149,7 @@ const Home = () => {
               onSubmit={handleCheckStatus}
               isLoading={isChecking}
               recentUrls={recentUrls}
+              preset={preset}
             />
           </section>
 
@@ -96,8 +159,8 @@ const Home = () => {
               onValueChange={setActiveTab}
               className="w-full"
             >
-              <div className="flex items-center justify-between mb-4">
-                <TabsList className="grid w-[400px] grid-cols-2">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <TabsList className="grid h-auto w-full max-w-[960px] grid-cols-2 sm:grid-cols-3 lg:grid-cols-6">
                   <TabsTrigger value="current" className="flex items-center">
                     <BarChart2 className="mr-2 h-4 w-4" />
                     Current Check
@@ -115,33 +178,64 @@ const Home = () => {
                       </span>
                     )}
                   </TabsTrigger>
+                  <TabsTrigger value="incidents" className="flex items-center">
+                    <Flag className="mr-2 h-4 w-4" />
+                    Incidents
+                  </TabsTrigger>
+                  <TabsTrigger value="reports" className="flex items-center">
+                    <FileBarChart className="mr-2 h-4 w-4" />
+                    Reports
+                  </TabsTrigger>
+                  <TabsTrigger value="monitors" className="flex items-center">
+                    <Activity className="mr-2 h-4 w-4" />
+                    Monitors
+                  </TabsTrigger>
+                  <TabsTrigger value="batch" className="flex items-center">
+                    <Layers className="mr-2 h-4 w-4" />
+                    Batch
+                  </TabsTrigger>
                 </TabsList>
 
-                {url && !isChecking && (
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={handleRecheck}
-                    className="flex items-center"
-                  >
-                    <RefreshCw className="mr-2 h-4 w-4" />
-                    Recheck
-                  </Button>
-                )}
+                {url &&
+                  !isChecking &&
+                  ["current", "history"].includes(activeTab) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRecheck}
+                      className="flex items-center"
+                    >
+                      <RefreshCw className="mr-2 h-4 w-4" />
+                      Recheck
+                    </Button>
+                  )}
               </div>
 
               <TabsContent value="current" className="mt-0">
                 <StatusDashboard
                   url={url}
+                  options={checkOptions}
                   isChecking={isChecking}
                   onCheckComplete={handleCheckComplete}
+                  onStopCheck={handleStopCheck}
                 />
               </TabsContent>
 
-              <TabsContent value="history" className="mt-0">
+              <TabsContent value="history" className="mt-0 space-y-6">
+                <ResponseTimeChart history={checkHistory} />
+
                 <div className="bg-card rounded-lg shadow-md border p-6">
                   <div className="flex justify-between items-center mb-4">
-                    <h2 className="text-xl font-semibold">Check History</h2>
+                    <div>
+                      <h2 className="text-xl font-semibold">Check History</h2>
+                      {historyCounts.uptimePercent !== null && (
+                        <p className="text-sm text-muted-foreground">
+                          {historyCounts.up} up · {historyCounts.degraded}{" "}
+                          degraded · {historyCounts.down} down ·{" "}
+                          {historyCounts.uptimePercent.toFixed(1)}% uptime
+                        </p>
+                      )}
+                    </div>
                     {checkHistory.length > 0 && (
                       <Button
                         variant="outline"
@@ -163,6 +257,7 @@ const Home = () => {
                             <th className="text-left py-2 px-4">URL</th>
                             <th className="text-left py-2 px-4">Time</th>
                             <th className="text-left py-2 px-4">Status</th>
+                            <th className="text-left py-2 px-4">HTTP</th>
                             <th className="text-left py-2 px-4">
                               Response Time
                             </th>
@@ -176,34 +271,87 @@ const Home = () => {
                               className="border-b hover:bg-muted/50"
                             >
                               <td className="py-2 px-4 truncate max-w-[200px]">
+                                {check.options?.request?.method &&
+                                  check.options.request.method !== "GET" && (
+                                    <span className="mr-2 font-mono text-xs text-muted-foreground">
+                                      {check.options.request.method}
+                                    </span>
+                                  )}
                                 {check.url}
                               </td>
                               <td className="py-2 px-4">{check.timestamp}</td>
                               <td className="py-2 px-4">
                                 <span
-                                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${check.success ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200" : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"}`}
+                                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${outcomeStyles[getCheckOutcome(check)]}`}
+                                  title={check.degradedReasons?.join("\n")}
                                 >
-                                  {check.success ? "UP" : "DOWN"}
+                                  {getCheckOutcome(check).toUpperCase()}
                                 </span>
                               </td>
+                              <td className="py-2 px-4 text-sm">
+                                {check.statusCode !== undefined ? (
+                                  <span
+                                    className={
+                                      check.statusCode >= 400
+                                        ? "text-destructive font-medium"
+                                        : ""
+                                    }
+                                  >
+                                    {check.statusCode}{" "}
+                                    <span className="text-muted-foreground">
+                                      {check.statusMessage}
+                                    </span>
+                                  </span>
+                                ) : check.stageReached ? (
+                                  <span className="text-muted-foreground">
+                                    Stopped at {check.stageReached}
+                                  </span>
+                                ) : (
+                                  <span className="text-muted-foreground">
+                                    --
+                                  </span>
+                                )}
+                              </td>
                               <td className="py-2 px-4">
                                 {check.responseTime > 1000
                                   ? `${(check.responseTime / 1000).toFixed(2)}s`
                                   : `${check.responseTime}ms`}
                               </td>
-                              <td className="py-2 px-4">
+                              <td className="py-2 px-4 whitespace-nowrap">
                                 <Button
                                   variant="ghost"
                                   size="sm"
+                                  // Checks that sent credentials need them
+                                  // entered again in the form first
                                   onClick={() => {
+                                    if (check.credentialsRemoved) {
+                                      handleLoadCheck(check);
+                                      setActiveTab("current");
+                                      return;
+                                    }
                                     setUrl(check.url);
+                                    setCheckOptions(check.options || {});
                                     setIsChecking(true);
                                     setActiveTab("current");
                                   }}
                                   className="h-8 px-2"
+                                  title={
+                                    check.credentialsRemoved
+                                      ? "Load into form to enter credentials again"
+                                      : "Run again"
+                                  }
                                 >
                                   <RefreshCw className="h-4 w-4" />
                                 </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleLoadCheck(check)}
+                                  className="h-8 px-2"
+                                  title="Load into form"
+                                >
+                                  <FileInput className="h-4 w-4" />
+                                </Button>
                               </td>
                             </tr>
                           ))}
@@ -217,6 +365,27 @@ const Home = () => {
                   )}
                 </div>
               </TabsContent>
+
+              <TabsContent value="incidents" className="mt-0">
+                <IncidentsPanel />
+              </TabsContent>
+
+              <TabsContent value="reports" className="mt-0">
+                <ReportsPanel />
+              </TabsContent>
+
+              <TabsContent value="monitors" className="mt-0">
+                <MonitorsPanel openMonitorId={linkParams.get("monitor")} />
+              </TabsContent>
+
+              {/* Kept mounted so a running batch survives switching tabs */}
+              <TabsContent
+                value="batch"
+                forceMount
+                className="mt-0 data-[state=inactive]:hidden"
+              >
+                <BatchCheck />
+              </TabsContent>
             </Tabs>
           </section>
         </div>
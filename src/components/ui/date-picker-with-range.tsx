@@ -14,13 +14,25 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 
+interface DatePickerWithRangeProps extends React.HTMLAttributes<HTMLDivElement> {
+  // Pass both to control the range; otherwise the picker keeps its own
+  date?: DateRange;
+  onDateChange?: (date: DateRange | undefined) => void;
+}
+
 export default function DatePickerWithRange({
   className,
-}: React.HTMLAttributes<HTMLDivElement>) {
-  const [date, setDate] = React.useState<DateRange | undefined>({
+  date: controlledDate,
+  onDateChange,
+}: DatePickerWithRangeProps) {
+  const [uncontrolledDate, setUncontrolledDate] = React.useState<
+    DateRange | undefined
+  >({
     from: new Date(2022, 0, 20),
     to: addDays(new Date(2022, 0, 20), 20),
   });
+  const date = onDateChange ? controlledDate : uncontrolledDate;
+  const setDate = onDateChange || setUncontrolledDate;
 
   return (
     <div className={cn("grid gap-2", className)}>
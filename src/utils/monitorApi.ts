@@ -0,0 +1,568 @@
+/**
+ * Client for the server's scheduled monitor, incident, report,
+ * notification and escalation APIs, and the types they send and return
+ */
+import { CheckOptions, CheckOutcome } from "./networkUtils";
+
+// Record the server keeps of each scheduled check a monitor runs
+export interface MonitorResult {
+  timestamp: string;
+  outcome: CheckOutcome;
+  statusCode?: number;
+  responseTime: number;
+  errorMessage?: string;
+  failedStage?: { id: string; name: string };
+  degradedReasons?: string[];
+  // Ran during a maintenance window, so it doesn't count against uptime
+  inMaintenance?: boolean;
+  // Set when a failure was checked again before it counted: the first
+  // check, then the confirmation whose outcome the result takes
+  attempts?: MonitorResultAttempt[];
+}
+
+export interface MonitorResultAttempt extends Omit<MonitorResult, "attempts"> {
+  attempt: number;
+  isConfirmation?: boolean;
+}
+
+// Times of day a monitor may run, in its time zone; days run 0 (Sunday)
+// to 6 and times are "HH:MM", with the end not included
+export interface ActiveWindow {
+  days: number[];
+  start: string;
+  end: string;
+}
+
+export interface MonitorSchedule {
+  intervalSeconds: number;
+  // A cron expression takes over from the interval when set
+  cron: string | null;
+  timezone: string;
+  // An empty list lets the monitor run at any time
+  activeWindows: ActiveWindow[];
+}
+
+// How many checks in a row open and resolve a monitor's incidents, and
+// how flapping between up and down is detected
+export interface IncidentPolicy {
+  failureThreshold: number;
+  recoveryThreshold: number;
+  // Re-check a failure straight away before it counts
+  confirmFailures: boolean;
+  // Count DEGRADED checks as failures
+  degradedOpensIncidents: boolean;
+  flapDetection: boolean;
+  // Flapping once the last flapWindow checks change state flapThreshold times
+  flapWindow: number;
+  flapThreshold: number;
+}
+
+// Planned downtime: checks still run but don't open incidents or count
+// against uptime
+export interface MaintenanceWindow {
+  start: string;
+  end: string;
+  note?: string;
+}
+
+// Fields sent when creating or editing a monitor
+export interface MonitorInput extends MonitorSchedule {
+  name: string;
+  url: string;
+  // Monitors sharing a group can share an escalation policy
+  group?: string | null;
+  options: CheckOptions;
+  incidentPolicy?: IncidentPolicy;
+  maintenanceWindows?: MaintenanceWindow[];
+  paused: boolean;
+}
+
+// Type definition for a monitor as the server returns it
+export interface Monitor extends MonitorInput {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  lastResult: MonitorResult | null;
+  // Null while the monitor is paused
+  nextRunAt: string | null;
+  isRunning: boolean;
+  isFlapping: boolean;
+  // Times the monitor was paused; the last has no end while still paused
+  pausedPeriods?: { start: string; end: string | null }[];
+}
+
+export type IncidentStatus = "open" | "acknowledged" | "resolved";
+
+export interface IncidentEvent {
+  type:
+    | "failing"
+    | "opened"
+    | "acknowledged"
+    | "error-changed"
+    | "recovered"
+    | "resolved"
+    | "flapping"
+    | "flapping-stopped"
+    | "escalated";
+  timestamp: string;
+  message: string;
+}
+
+// Type definition for an incident opened from a monitor's failures
+export interface Incident {
+  id: string;
+  monitorId: string;
+  monitorName: string;
+  url: string;
+  status: IncidentStatus;
+  // When the first failing check ran
+  startedAt: string;
+  openedAt: string;
+  // When the first passing check ran, once resolved
+  endedAt: string | null;
+  resolvedAt: string | null;
+  durationMs: number | null;
+  firstError: {
+    errorMessage?: string;
+    stage?: { id: string; name: string };
+  };
+  lastErrorMessage?: string;
+  failedChecks: number;
+  acknowledgedBy: string | null;
+  acknowledgedAt: string | null;
+  // Notifications are held back while the monitor flaps
+  flapping?: boolean;
+  // Set when the monitor's escalation policy is notifying channels in levels
+  escalation?: IncidentEscalation;
+  timeline: IncidentEvent[];
+}
+
+// Where an incident's escalation has got to
+export interface IncidentEscalation {
+  policyId: string;
+  policyName: string;
+  event: NotificationEvent;
+  // Channels told so far; they also hear when it's acknowledged or resolved
+  notifiedChannelIds: string[];
+  // The level that fires next unless someone acknowledges, if any is left
+  next: { level: number; round: number; at: string } | null;
+}
+
+// What a notification channel can be told about
+export type NotificationEvent =
+  "down" | "degraded" | "acknowledged" | "recovered";
+
+export type SmtpSecurity = "tls" | "starttls" | "none";
+
+export interface EmailChannelConfig {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  verifyCertificate: boolean;
+  username?: string;
+  // Only sent; the server never returns it, just hasPassword
+  password?: string;
+  hasPassword?: boolean;
+  from: string;
+  to: string[];
+}
+
+// Chat services that take a message posted to a webhook URL
+export type WebhookChannelType = "slack" | "discord" | "teams";
+
+// Incident management services that page people and track alerts
+export type AlertChannelType = "pagerduty" | "opsgenie";
+
+export type NotificationChannelType =
+  "email" | WebhookChannelType | "webhook" | AlertChannelType;
+
+export interface WebhookChannelConfig {
+  // Only sent; the server never returns it, just hasWebhookUrl
+  webhookUrl?: string;
+  hasWebhookUrl?: boolean;
+}
+
+// A generic webhook: a JSON payload built from a template, signed with
+// an HMAC-SHA256 of the timestamp and body
+export interface SignedWebhookConfig {
+  url: string;
+  // Only sent; the server never returns it, just hasSecret
+  secret?: string;
+  hasSecret?: boolean;
+  template: string;
+}
+
+// PagerDuty Events API v2; the URL can point at a mock receiver
+export interface PagerDutyChannelConfig {
+  // Only sent; the server never returns it, just hasRoutingKey
+  routingKey?: string;
+  hasRoutingKey?: boolean;
+  eventsUrl: string;
+}
+
+// The Opsgenie Alert API, or a service with the same one
+export interface OpsgenieChannelConfig {
+  // Only sent; the server never returns it, just hasApiKey
+  apiKey?: string;
+  hasApiKey?: boolean;
+  apiUrl: string;
+}
+
+export interface WebhookDeliveryAttempt {
+  at: string;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+// One notification sent to a webhook channel, with its retries
+export interface WebhookDelivery {
+  id: string;
+  channelId: string;
+  event: NotificationEvent;
+  title: string;
+  monitorId?: string;
+  body: string;
+  status: "pending" | "retrying" | "delivered" | "failed";
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt?: string;
+  error?: string;
+  createdAt: string;
+}
+
+// At most maxMessages notifications in any windowMinutes
+export interface NotificationRateLimit {
+  maxMessages: number;
+  windowMinutes: number;
+}
+
+interface NotificationChannelFields {
+  name: string;
+  enabled: boolean;
+  events: NotificationEvent[];
+  // Monitors the channel hears about; empty for all of them
+  monitorIds: string[];
+  rateLimit: NotificationRateLimit | null;
+}
+
+// Fields sent when creating or editing a notification channel
+export type NotificationChannelInput = NotificationChannelFields &
+  (
+    | { type: "email"; config: EmailChannelConfig }
+    | { type: WebhookChannelType; config: WebhookChannelConfig }
+    | { type: "webhook"; config: SignedWebhookConfig }
+    | { type: "pagerduty"; config: PagerDutyChannelConfig }
+    | { type: "opsgenie"; config: OpsgenieChannelConfig }
+  );
+
+export type NotificationChannel = NotificationChannelInput & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// One step of an escalation policy: channels notified together, and how
+// long to wait for an acknowledgement before the next level
+export interface EscalationLevel {
+  channelIds: string[];
+  // Left out of the last level when the policy doesn't start over
+  escalateAfterMinutes?: number;
+}
+
+// Fields sent when creating or editing an escalation policy
+export interface EscalationPolicyInput {
+  name: string;
+  levels: EscalationLevel[];
+  // How many times to start over from level 1 after the last level
+  repeatLimit: number;
+  // Monitors assigned directly, which win over a policy for their group
+  monitorIds: string[];
+  groups: string[];
+}
+
+export interface EscalationPolicy extends EscalationPolicyInput {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type UptimePeriod = "24h" | "7d" | "30d" | "90d";
+
+// A run of failed checks in a report, clipped to the report's period
+export interface Outage {
+  start: string;
+  // Null while the monitor is still down
+  end: string | null;
+  durationMs: number;
+  failedChecks: number;
+  errorMessage?: string;
+}
+
+// Uptime worked out over one period, leaving out paused and maintenance time
+export interface UptimeReport {
+  from: string;
+  to: string;
+  checks: { up: number; degraded: number; down: number };
+  monitoredMs: number;
+  excludedMs: number;
+  downtimeMs: number;
+  degradedMs: number;
+  // Null when none of the period was monitored
+  uptimePercent: number | null;
+  outages: Outage[];
+  // Null when there's no outage to measure
+  mttrMs: number | null;
+  mtbfMs: number | null;
+}
+
+// A monitor's uptime over each rolling period
+export interface MonitorUptime {
+  monitorId: string;
+  name: string;
+  url: string;
+  periods: Record<
+    UptimePeriod,
+    Omit<UptimeReport, "outages"> & { outageCount: number }
+  >;
+}
+
+// A monitor's uptime over one calendar month, in UTC
+export interface SlaReport extends UptimeReport {
+  monitorId: string;
+  name: string;
+  url: string;
+  // "YYYY-MM"
+  month: string;
+}
+
+// Sends a request to the server API, turning error responses into errors
+const request = async <T>(
+  path: string,
+  init: { method?: string; body?: unknown } = {},
+): Promise<T> => {
+  const response = await fetch(`/api${path}`, {
+    method: init.method || "GET",
+    headers: { "Content-Type": "application/json" },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(
+      body.error || `Server responded with status ${response.status}`,
+    );
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+/**
+ * Gets every monitor with its last result and next run time
+ * @returns The monitors
+ */
+export const fetchMonitors = (): Promise<Monitor[]> => request("/monitors");
+
+/**
+ * Creates a monitor; the server schedules it straight away unless paused
+ * @param input The new monitor's settings
+ * @returns The saved monitor
+ */
+export const createMonitor = (input: MonitorInput): Promise<Monitor> =>
+  request("/monitors", { method: "POST", body: input });
+
+/**
+ * Replaces a monitor's settings, including whether it's paused
+ * @param id The monitor's id
+ * @param input The monitor's new settings
+ * @returns The saved monitor
+ */
+export const updateMonitor = (
+  id: string,
+  input: MonitorInput,
+): Promise<Monitor> =>
+  request(`/monitors/${id}`, { method: "PUT", body: input });
+
+/**
+ * Deletes a monitor along with its stored results
+ * @param id The monitor's id
+ */
+export const deleteMonitor = (id: string): Promise<void> =>
+  request(`/monitors/${id}`, { method: "DELETE" });
+
+/**
+ * Gets a monitor's most recent stored results, newest first
+ * @param id The monitor's id
+ * @param limit How many results to get
+ * @returns The results
+ */
+export const fetchMonitorResults = (
+  id: string,
+  limit = 100,
+): Promise<MonitorResult[]> =>
+  request(`/monitors/${id}/results?limit=${limit}`);
+
+/**
+ * Gets the next run times a schedule would give, without saving it
+ * @param schedule The schedule to preview
+ * @param id The monitor's id when editing, so interval runs land in its slot
+ * @returns The next five run times as ISO strings
+ */
+export const previewSchedule = async (
+  schedule: MonitorSchedule,
+  id?: string,
+): Promise<string[]> => {
+  const { runs } = await request<{ runs: string[] }>(
+    "/monitors/schedule-preview",
+    {
+      method: "POST",
+      body: { ...schedule, id },
+    },
+  );
+  return runs;
+};
+
+/**
+ * Gets incidents newest first
+ * @param status Only get incidents with this status
+ * @returns The incidents
+ */
+export const fetchIncidents = (status?: IncidentStatus): Promise<Incident[]> =>
+  request(status ? `/incidents?status=${status}` : "/incidents");
+
+/**
+ * Marks an incident as being looked at
+ * @param id The incident's id
+ * @param name Who is acknowledging it
+ * @returns The updated incident
+ */
+export const acknowledgeIncident = (
+  id: string,
+  name: string,
+): Promise<Incident> =>
+  request(`/incidents/${id}/acknowledge`, { method: "POST", body: { name } });
+
+/**
+ * Gets every monitor's uptime over the last 24 hours, 7, 30 and 90 days
+ * @returns The uptime of each monitor
+ */
+export const fetchUptime = (): Promise<MonitorUptime[]> =>
+  request("/reports/uptime");
+
+/**
+ * Gets the link to a monitor's SLA report for a month, for downloading the
+ * CSV or opening the printable page
+ * @param monitorId The monitor's id
+ * @param month The month as "YYYY-MM"
+ * @param format The report's format
+ * @returns The report's URL
+ */
+export const slaReportUrl = (
+  monitorId: string,
+  month: string,
+  format: "json" | "csv" | "html",
+): string => `/api/reports/sla/${monitorId}?month=${month}&format=${format}`;
+
+/**
+ * Gets a monitor's SLA report for a month, listing every outage
+ * @param monitorId The monitor's id
+ * @param month The month as "YYYY-MM"
+ * @returns The report
+ */
+export const fetchSlaReport = (
+  monitorId: string,
+  month: string,
+): Promise<SlaReport> => request(`/reports/sla/${monitorId}?month=${month}`);
+
+/**
+ * Gets every notification channel, without their secrets
+ * @returns The channels
+ */
+export const fetchChannels = (): Promise<NotificationChannel[]> =>
+  request("/notifications/channels");
+
+/**
+ * Creates a notification channel
+ * @param input The new channel's settings
+ * @returns The saved channel
+ */
+export const createChannel = (
+  input: NotificationChannelInput,
+): Promise<NotificationChannel> =>
+  request("/notifications/channels", { method: "POST", body: input });
+
+/**
+ * Replaces a notification channel's settings; secrets left out are kept
+ * @param id The channel's id
+ * @param input The channel's new settings
+ * @returns The saved channel
+ */
+export const updateChannel = (
+  id: string,
+  input: NotificationChannelInput,
+): Promise<NotificationChannel> =>
+  request(`/notifications/channels/${id}`, { method: "PUT", body: input });
+
+/**
+ * Deletes a notification channel
+ * @param id The channel's id
+ */
+export const deleteChannel = (id: string): Promise<void> =>
+  request(`/notifications/channels/${id}`, { method: "DELETE" });
+
+/**
+ * Sends a test notification with a channel's settings, saved or not
+ * @param input The channel's settings
+ * @param id The channel's id when editing, so its saved secrets are used
+ */
+export const testChannel = async (
+  input: NotificationChannelInput,
+  id?: string,
+): Promise<void> => {
+  await request("/notifications/channels/test", {
+    method: "POST",
+    body: { ...input, id },
+  });
+};
+
+/**
+ * Gets a webhook channel's recent deliveries, newest first
+ * @param id The channel's id
+ * @returns The deliveries, with every attempt
+ */
+export const fetchDeliveries = (id: string): Promise<WebhookDelivery[]> =>
+  request(`/notifications/channels/${id}/deliveries`);
+
+/**
+ * Gets every escalation policy
+ * @returns The policies, in the order they were added
+ */
+export const fetchPolicies = (): Promise<EscalationPolicy[]> =>
+  request("/escalation-policies");
+
+/**
+ * Creates an escalation policy
+ * @param input The new policy's levels and assignments
+ * @returns The saved policy
+ */
+export const createPolicy = (
+  input: EscalationPolicyInput,
+): Promise<EscalationPolicy> =>
+  request("/escalation-policies", { method: "POST", body: input });
+
+/**
+ * Replaces an escalation policy's settings
+ * @param id The policy's id
+ * @param input The policy's new levels and assignments
+ * @returns The saved policy
+ */
+export const updatePolicy = (
+  id: string,
+  input: EscalationPolicyInput,
+): Promise<EscalationPolicy> =>
+  request(`/escalation-policies/${id}`, { method: "PUT", body: input });
+
+/**
+ * Deletes an escalation policy
+ * @param id The policy's id
+ */
+export const deletePolicy = (id: string): Promise<void> =>
+  request(`/escalation-policies/${id}`, { method: "DELETE" });
@@ -56,17 +56,259 @@ export const formatResponseTime = (ms: number): string => {
   }
 };
 
+// Type definitions for the options sent with a check request
+export type BodyAssertionType =
+  "contains" | "notContains" | "regex" | "jsonPath";
+
+export interface BodyAssertion {
+  type: BodyAssertionType;
+  // Text or pattern to look for; for JSON path "equals", any JSON value
+  value?: unknown;
+  flags?: string;
+  path?: string;
+  operator?: "exists" | "equals";
+  // Failing a soft assertion degrades the check instead of failing it
+  soft?: boolean;
+}
+
+export interface CheckAssertions {
+  // Status classes ("2xx"), ranges ("200-299") or codes ("204")
+  acceptedStatus?: string[];
+  body?: BodyAssertion[];
+  // Latency budget; a slower response degrades the check
+  maxResponseTimeMs?: number;
+  // Headers whose absence degrades the check
+  requiredHeaders?: string[];
+}
+
+export type HttpMethod =
+  "GET" | "HEAD" | "POST" | "PUT" | "PATCH" | "DELETE" | "OPTIONS";
+
+export type RequestAuth =
+  | { type: "basic"; username: string; password: string }
+  | { type: "bearer"; token: string };
+
+export interface RequestConfig {
+  method?: HttpMethod;
+  headers?: Record<string, string>;
+  body?: string;
+  contentType?: string;
+  auth?: RequestAuth;
+  userAgent?: string;
+}
+
+export type TimedStageId =
+  "dns" | "connection" | "tls" | "firstByte" | "download";
+
+export type RetryableStageId = TimedStageId | "httpStatus";
+
+// Milliseconds each stage may take; unset stages use the server default
+export type StageTimeouts = Partial<Record<TimedStageId, number>>;
+
+export interface RetryPolicy {
+  attempts?: number;
+  backoff?: "fixed" | "exponential";
+  delayMs?: number;
+  stages?: RetryableStageId[];
+}
+
+export interface CheckOptions {
+  assertions?: CheckAssertions;
+  request?: RequestConfig;
+  timeouts?: StageTimeouts;
+  retry?: RetryPolicy;
+}
+
+export type CheckOutcome = "up" | "degraded" | "down" | "cancelled";
+
+// How long each network stage of a check took, in milliseconds
+export type StageTimings = Partial<
+  Record<"dns" | "connection" | "tls" | "firstByte" | "download", number>
+>;
+
+export const TIMED_STAGES: (keyof StageTimings)[] = [
+  "dns",
+  "connection",
+  "tls",
+  "firstByte",
+  "download",
+];
+
 // Type definition for check history items
 export interface CheckHistoryItem {
   url: string;
+  // Shown as is; checkedAt is the machine-readable time
   timestamp: string;
+  // Older entries only have the locale timestamp; see getCheckTime
+  checkedAt?: string;
   success: boolean;
+  // Older entries only have `success`; see getCheckOutcome
+  outcome?: CheckOutcome;
+  // Name of the stage a cancelled check had reached
+  stageReached?: string;
   responseTime: number;
   errorMessage?: string;
+  statusCode?: number;
+  statusMessage?: string;
+  // Why a check that passed was marked DEGRADED
+  degradedReasons?: string[];
+  // Options the check ran with, so it can be run again from History
+  options?: CheckOptions;
+  // Set when passwords, tokens or credential headers were left out of
+  // options, so they must be entered again before rerunning
+  credentialsRemoved?: boolean;
+  stageTimings?: StageTimings;
+}
+
+/**
+ * Gets when a history entry's check ran
+ * @param item The check history item
+ * @returns The time, or null for an old entry whose timestamp can't be read
+ */
+export const getCheckTime = (item: CheckHistoryItem): Date | null => {
+  const time = new Date(item.checkedAt || item.timestamp);
+  return isNaN(time.getTime()) ? null : time;
+};
+
+/**
+ * Picks the durations of the network stages out of a check's stages
+ * @param stages The check's stages
+ * @returns The duration of each stage that finished
+ */
+export const getStageTimings = (
+  stages: { id: string; status: string; durationMs?: number }[],
+): StageTimings =>
+  Object.fromEntries(
+    stages
+      .filter(
+        (stage) =>
+          TIMED_STAGES.includes(stage.id as keyof StageTimings) &&
+          stage.status !== "idle" &&
+          stage.durationMs !== undefined,
+      )
+      .map((stage) => [stage.id, stage.durationMs]),
+  );
+
+/**
+ * Rounds the top of a chart's scale up to 1, 2 or 5 times a power of ten
+ * @param value The largest value to fit on the scale
+ * @returns The top of the scale
+ */
+export const niceMax = (value: number): number => {
+  if (value <= 0) return 100;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  return (
+    ([1, 2, 5, 10].find((step) => step * magnitude >= value) || 10) * magnitude
+  );
+};
+
+/**
+ * Gets a percentile of some values by the nearest-rank method
+ * @param values The values, in any order
+ * @param p The percentile, from 0 to 100
+ * @returns The percentile, or null when there are no values
+ */
+export const percentile = (values: number[], p: number): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(rank - 1, 0)];
+};
+
+/**
+ * Gets how a history entry ended, for entries saved before cancelled
+ * checks were told apart from failed ones
+ * @param item The check history item
+ * @returns The check's outcome
+ */
+export const getCheckOutcome = (item: CheckHistoryItem): CheckOutcome =>
+  item.outcome || (item.success ? "up" : "down");
+
+/**
+ * Gets the outcome of a finished check from the results the server sends
+ * @param results The check's final results
+ * @returns The check's outcome
+ */
+export const getResultOutcome = (results: {
+  isSuccess: boolean;
+  isDegraded?: boolean;
+  isCancelled?: boolean;
+}): CheckOutcome =>
+  results.isCancelled
+    ? "cancelled"
+    : !results.isSuccess
+      ? "down"
+      : results.isDegraded
+        ? "degraded"
+        : "up";
+
+export interface OutcomeCounts extends Record<CheckOutcome, number> {
+  // Share of finished checks that passed, degraded or not; null if none
+  uptimePercent: number | null;
 }
 
 /**
- * Saves a check result to local storage
+ * Counts each outcome separately. Degraded checks still count as up
+ * time, and cancelled checks don't count either way.
+ * @param outcomes The outcomes to count
+ * @returns The counts and uptime percentage
+ */
+export const countOutcomes = (outcomes: CheckOutcome[]): OutcomeCounts => {
+  const counts = { up: 0, degraded: 0, down: 0, cancelled: 0 };
+  outcomes.forEach((outcome) => (counts[outcome] += 1));
+  const finished = counts.up + counts.degraded + counts.down;
+  return {
+    ...counts,
+    uptimePercent:
+      finished > 0 ? ((counts.up + counts.degraded) / finished) * 100 : null,
+  };
+};
+
+// Request headers that carry credentials, which History never keeps
+const CREDENTIAL_HEADERS = ["authorization", "cookie", "proxy-authorization"];
+
+/**
+ * Leaves auth secrets and credential headers out of a history item's
+ * options, so they're never written to local storage or exported
+ * @param item The check history item
+ * @returns The item without credentials, marked if any were removed
+ */
+export const withoutCredentials = (
+  item: CheckHistoryItem,
+): CheckHistoryItem => {
+  const request = item.options?.request;
+  if (!request) return item;
+
+  const headers = request.headers
+    ? Object.fromEntries(
+        Object.entries(request.headers).filter(
+          ([name]) => !CREDENTIAL_HEADERS.includes(name.toLowerCase()),
+        ),
+      )
+    : undefined;
+  const hadCredentials =
+    Boolean(request.auth) ||
+    Object.keys(headers || {}).length !==
+      Object.keys(request.headers || {}).length;
+  if (!hadCredentials) return item;
+
+  // The auth type and username stay so the form can ask for the rest
+  const auth: RequestAuth | undefined =
+    request.auth?.type === "basic"
+      ? { ...request.auth, password: "" }
+      : request.auth?.type === "bearer"
+        ? { type: "bearer", token: "" }
+        : undefined;
+
+  return {
+    ...item,
+    options: { ...item.options, request: { ...request, headers, auth } },
+    credentialsRemoved: true,
+  };
+};
+
+/**
+ * Saves a check result to local storage, without its credentials
  * @param item The check result to save
  */
 export const saveCheckToHistory = (item: CheckHistoryItem): void => {
@@ -75,7 +317,7 @@ export const saveCheckToHistory = (item: CheckHistoryItem): void => {
     const history = getCheckHistory();
 
     // Add new item at the beginning
-    history.unshift(item);
+    history.unshift(withoutCredentials(item));
 
     // Keep only the top 50 items
     const trimmedHistory = history.slice(0, 50);
@@ -96,7 +338,8 @@ export const getCheckHistory = (): CheckHistoryItem[] => {
     const historyJson = localStorage.getItem("websiteCheckHistory");
     if (!historyJson) return [];
 
-    return JSON.parse(historyJson);
+    // Entries saved before credentials were left out are cleaned on read
+    return JSON.parse(historyJson).map(withoutCredentials);
   } catch (error) {
     console.error("Failed to get check history:", error);
     return [];